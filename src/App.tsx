@@ -14,6 +14,51 @@ import HipaaModal from './components/HipaaModal';
 import RefillRequestModal from './components/RefillRequestModal';
 import TransferRequestModal from './components/TransferRequestModal'; // Import the new modal
 import SplashModal from './components/SplashModal'; // Import the new SplashModal
+import StatusPage from './components/StatusPage';
+import NotFoundPage from './components/NotFoundPage';
+import AdminPage from './components/admin/AdminPage';
+import UnsubscribePage from './components/UnsubscribePage';
+import { restoreScroll, useLocation } from './lib/router';
+
+interface PageActions {
+  onOpenRefillModal: () => void;
+  onOpenTransferModal: () => void;
+  onJoinWaitlistClick: () => void;
+}
+
+interface Route {
+  // Shown before the site name in the browser tab; the home page keeps the default title
+  title?: string;
+  // Standalone pages render on their own, outside the public header and footer
+  standalone?: boolean;
+  render: (actions: PageActions) => React.ReactNode;
+}
+
+// A new page is one more entry here, plus its links in Header and Footer
+const ROUTES: Record<string, Route> = {
+  '/': {
+    render: ({ onOpenRefillModal, onOpenTransferModal, onJoinWaitlistClick }) => (
+      <main>
+        <Hero onOpenRefillModal={onOpenRefillModal} onOpenTransferModal={onOpenTransferModal} />
+        <Pillars />
+        <RPMBanner onJoinWaitlistClick={onJoinWaitlistClick} />
+        <Insurance />
+        <Testimonials />
+        <Location />
+        <Contact />
+      </main>
+    ),
+  },
+  '/about': { title: 'About Us', render: () => <AboutPage /> },
+  '/status': { title: 'Check Request Status', render: () => <StatusPage /> },
+  // The staff console and the unsubscribe link from patient notification emails
+  '/admin': { title: 'Staff Console', standalone: true, render: () => <AdminPage /> },
+  '/unsubscribe': { title: 'Unsubscribe', standalone: true, render: () => <UnsubscribePage /> },
+};
+
+const NOT_FOUND_ROUTE: Route = { title: 'Page Not Found', render: () => <NotFoundPage /> };
+
+const SITE_TITLE = document.title;
 
 const App: React.FC = () => {
   const [isWaitlistModalOpen, setIsWaitlistModalOpen] = useState(false);
@@ -21,12 +66,12 @@ const App: React.FC = () => {
   const [isRefillModalOpen, setIsRefillModalOpen] = useState(false);
   const [isSplashModalOpen, setIsSplashModalOpen] = useState(false); // State for Splash modal
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false); // New state for Transfer modal
-  const [page, setPage] = useState<'home' | 'about'>('home');
-  const [scrollToAnchor, setScrollToAnchor] = useState<string | null>(null);
+  const location = useLocation();
+  const route = ROUTES[location.pathname] ?? NOT_FOUND_ROUTE;
   
   useEffect(() => {
   const hasDismissed = sessionStorage.getItem('splashModalDismissed');
-  if (!hasDismissed) {
+  if (!hasDismissed && !route.standalone) {
     // Add a small delay to allow the page to render first
     const timer = setTimeout(() => {
       setIsSplashModalOpen(true);
@@ -36,37 +81,10 @@ const App: React.FC = () => {
 }, []);
   
   useEffect(() => {
-    // This effect runs after the page state changes. If we've navigated to the home page
-    // and an anchor is specified, it waits for the DOM to update and then scrolls.
-    if (page === 'home' && scrollToAnchor) {
-      setTimeout(() => {
-        const targetElement = document.getElementById(scrollToAnchor);
-        if (targetElement) {
-          const headerOffset = 80; // height of the sticky header
-          const elementPosition = targetElement.getBoundingClientRect().top;
-          const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-          window.scrollTo({ top: offsetPosition, behavior: 'smooth' });
-        }
-        setScrollToAnchor(null); // Reset the anchor after scrolling
-      }, 100);
-    }
-  }, [page, scrollToAnchor]);
-
-  const navigateTo = (targetPage: 'home' | 'about', anchor?: string) => {
-    if (page !== targetPage) {
-      setPage(targetPage);
-    }
-    
-    if (anchor) {
-      setScrollToAnchor(anchor);
-    } else if (page === targetPage) {
-      // If we're already on the target page without an anchor, scroll to top
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    } else {
-       // For a simple page change, scroll to top instantly
-       window.scrollTo({ top: 0, behavior: 'auto' });
-    }
-  };
+    document.title = route.title ? `${route.title} | Complete Healthcare Rx` : SITE_TITLE;
+    // Runs after the new page has rendered, so anchors on it can be found
+    restoreScroll(location);
+  }, [location, route]);
 
   const handleOpenWaitlistModal = () => setIsWaitlistModalOpen(true);
   const handleCloseWaitlistModal = () => setIsWaitlistModalOpen(false);
@@ -87,23 +105,21 @@ const App: React.FC = () => {
     setIsSplashModalOpen(false);
   };
 
+  const pageActions: PageActions = {
+    onOpenRefillModal: handleOpenRefillModal,
+    onOpenTransferModal: handleOpenTransferModal,
+    onJoinWaitlistClick: handleOpenWaitlistModal,
+  };
+
+  if (route.standalone) {
+    return route.render(pageActions);
+  }
+
   return (
     <div className="bg-pearl text-slate-600 font-sans">
-      <Header navigateTo={navigateTo} onOpenRefillModal={handleOpenRefillModal} />
-        {page === 'home' ? (
-          <main>
-            <Hero onOpenRefillModal={handleOpenRefillModal} onOpenTransferModal={handleOpenTransferModal} />
-            <Pillars />
-            <RPMBanner onJoinWaitlistClick={handleOpenWaitlistModal} />
-            <Insurance />
-            <Testimonials />
-            <Location />
-            <Contact />
-          </main>
-        ) : (
-          <AboutPage />
-        )}
-      <Footer navigateTo={navigateTo} onOpenHipaaModal={handleOpenHipaaModal} />
+      <Header onOpenRefillModal={handleOpenRefillModal} />
+      {route.render(pageActions)}
+      <Footer onOpenHipaaModal={handleOpenHipaaModal} />
       <WaitlistModal isOpen={isWaitlistModalOpen} onClose={handleCloseWaitlistModal} />
       <HipaaModal isOpen={isHipaaModalOpen} onClose={handleCloseHipaaModal} />
       <RefillRequestModal isOpen={isRefillModalOpen} onClose={handleCloseRefillModal} />
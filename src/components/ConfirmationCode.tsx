@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface ConfirmationCodeProps {
+  code?: string | null;
+}
+
+const ConfirmationCode: React.FC<ConfirmationCodeProps> = ({ code }) => {
+  if (!code) return null;
+
+  return (
+    <div className="mt-4 rounded-xl bg-rose-mist p-4 text-center">
+      <p className="text-sm text-slate-600">Your confirmation code</p>
+      <p className="mt-1 text-2xl font-bold tracking-widest text-slate-900">{code}</p>
+      <p className="mt-1 text-sm text-slate-600">Use it with your date of birth on the Check Status page to follow your request.</p>
+    </div>
+  );
+};
+
+export default ConfirmationCode;
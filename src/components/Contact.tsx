@@ -4,7 +4,6 @@ import React, { useState } from 'react';
 import { ContactFormDataSchema } from '@/lib/schemas';
 import type { ContactFormData } from '@/lib/schemas';
 import { useContactFormSubmission } from '@/lib/hooks';
-import { ZodError } from 'zod';
 
 type FormErrors = Partial<Record<keyof ContactFormData, string>>;
 
@@ -35,27 +34,24 @@ const Contact: React.FC = () => {
     }
   };
 
-  const validate = (): FormErrors => {
-    try {
-      ContactFormDataSchema.parse(formData);
-      return {};
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
-        error.errors.forEach(err => {
-          const path = err.path[0] as keyof ContactFormData;
-          newErrors[path] = err.message;
-        });
-        return newErrors;
-      }
-      return {};
+  const validate = (): { data?: ContactFormData; errors: FormErrors } => {
+    const parsed = ContactFormDataSchema.safeParse(formData);
+    if (parsed.success) {
+      return { data: parsed.data, errors: {} };
     }
+
+    const newErrors: FormErrors = {};
+    parsed.error.errors.forEach(err => {
+      const path = err.path[0] as keyof ContactFormData;
+      newErrors[path] = err.message;
+    });
+    return { errors: newErrors };
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
+    const { data, errors: validationErrors } = validate();
+    if (!data) {
       setErrors(validationErrors);
       return;
     }
@@ -63,7 +59,7 @@ const Contact: React.FC = () => {
     setStatus('submitting');
     setErrorMessage(null);
     try {
-      await submit(formData);
+      await submit(data);
       setStatus('success');
       setErrors({});
       setErrorMessage(null);
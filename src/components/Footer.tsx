@@ -1,31 +1,15 @@
 
 
 import React from 'react';
+import { followLink, toHref } from '@/lib/router';
 
 interface FooterProps {
-  navigateTo: (page: 'home' | 'about', anchor?: string) => void;
   onOpenHipaaModal: () => void;
 }
 
-const Footer: React.FC<FooterProps> = ({ navigateTo, onOpenHipaaModal }) => {
+const Footer: React.FC<FooterProps> = ({ onOpenHipaaModal }) => {
   const currentYear = new Date().getFullYear();
 
-  const handleNavClick = (event: React.MouseEvent<HTMLAnchorElement>, href: string) => {
-    event.preventDefault();
-
-    if (href.startsWith('#')) {
-      const anchor = href.substring(1);
-      navigateTo('home', anchor);
-    } else {
-      navigateTo('about');
-    }
-  };
-
-  const handleHomeClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
-    event.preventDefault();
-    navigateTo('home');
-  };
-  
   const handleHipaaClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
     event.preventDefault();
     onOpenHipaaModal();
@@ -36,7 +20,7 @@ const Footer: React.FC<FooterProps> = ({ navigateTo, onOpenHipaaModal }) => {
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <div className="grid md:grid-cols-3 gap-8">
           <div className="space-y-4">
-             <a href="/" onClick={handleHomeClick} className="flex items-center space-x-3" aria-label="Complete Healthcare Rx Home">
+             <a href={toHref('/')} onClick={(e) => followLink(e, '/')} className="flex items-center space-x-3" aria-label="Complete Healthcare Rx Home">
               <img src="https://iili.io/f7esH8u.png" alt="Complete Healthcare Rx Logo" className="h-10 w-auto rounded-md bg-white p-1" />
               <span className="text-xl tracking-tight text-white">
                 <span className="font-bold">Complete</span>Healthcare Rx
@@ -47,11 +31,12 @@ const Footer: React.FC<FooterProps> = ({ navigateTo, onOpenHipaaModal }) => {
           <nav aria-label="Footer navigation">
             <h3 className="text-lg font-semibold text-white">Quick Links</h3>
             <ul className="mt-4 space-y-2">
-              <li><a href="#services" onClick={(e) => handleNavClick(e, '#services')} className="transition-colors hover:text-rose-light">Services</a></li>
-              <li><a href="about" onClick={(e) => handleNavClick(e, 'about')} className="transition-colors hover:text-rose-light">About Us</a></li>
-              <li><a href="#rpm" onClick={(e) => handleNavClick(e, '#rpm')} className="transition-colors hover:text-rose-light">RPM</a></li>
-              <li><a href="#location" onClick={(e) => handleNavClick(e, '#location')} className="transition-colors hover:text-rose-light">Hours & Location</a></li>
-              <li><a href="#contact" onClick={(e) => handleNavClick(e, '#contact')} className="transition-colors hover:text-rose-light">Contact Us</a></li>
+              <li><a href={toHref('/#services')} onClick={(e) => followLink(e, '/#services')} className="transition-colors hover:text-rose-light">Services</a></li>
+              <li><a href={toHref('/about')} onClick={(e) => followLink(e, '/about')} className="transition-colors hover:text-rose-light">About Us</a></li>
+              <li><a href={toHref('/#rpm')} onClick={(e) => followLink(e, '/#rpm')} className="transition-colors hover:text-rose-light">RPM</a></li>
+              <li><a href={toHref('/#location')} onClick={(e) => followLink(e, '/#location')} className="transition-colors hover:text-rose-light">Hours & Location</a></li>
+              <li><a href={toHref('/#contact')} onClick={(e) => followLink(e, '/#contact')} className="transition-colors hover:text-rose-light">Contact Us</a></li>
+              <li><a href={toHref('/status')} onClick={(e) => followLink(e, '/status')} className="transition-colors hover:text-rose-light">Check Request Status</a></li>
             </ul>
           </nav>
           <div>
@@ -1,20 +1,21 @@
 import React, { useState } from 'react';
 import { MenuIcon, XIcon } from './icons';
+import { followLink, toHref } from '@/lib/router';
 
 interface HeaderProps {
-  navigateTo: (page: 'home' | 'about', anchor?: string) => void;
   onOpenRefillModal: () => void; // New prop for opening refill modal
 }
 
-const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
+const Header: React.FC<HeaderProps> = ({ onOpenRefillModal }) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   const navLinks = [
-    { name: 'Services', href: '#services' },
-    { name: 'About', href: 'about' },
-    { name: 'RPM', href: '#rpm' },
-    { name: 'Location', href: '#location' },
-    { name: 'Contact', href: '#contact' },
+    { name: 'Services', href: '/#services' },
+    { name: 'About', href: '/about' },
+    { name: 'RPM', href: '/#rpm' },
+    { name: 'Location', href: '/#location' },
+    { name: 'Contact', href: '/#contact' },
+    { name: 'Check Status', href: '/status' },
   ];
 
   const toggleMobileMenu = () => {
@@ -22,28 +23,13 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
   };
 
   const handleNavClick = (event: React.MouseEvent<HTMLAnchorElement>, href: string) => {
-    event.preventDefault();
-    
-    if (href.startsWith('#')) {
-      const anchor = href.substring(1);
-      navigateTo('home', anchor);
-    } else {
-      navigateTo('about');
-    }
+    followLink(event, href);
     
     if (isMobileMenuOpen) {
       toggleMobileMenu();
     }
   };
 
-  const handleHomeClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
-    event.preventDefault();
-    navigateTo('home');
-    if (isMobileMenuOpen) {
-      toggleMobileMenu();
-    }
-  };
-
   const handleRefillTransferClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
     event.preventDefault();
     onOpenRefillModal(); // Open the new refill modal
@@ -56,7 +42,7 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
     <header className="bg-pearl/80 backdrop-blur-lg sticky top-0 z-50 shadow-sm">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-20">
-          <a href="/" onClick={handleHomeClick} className="flex items-center space-x-3" aria-label="Complete Healthcare Rx Home">
+          <a href={toHref('/')} onClick={(e) => handleNavClick(e, '/')} className="flex items-center space-x-3" aria-label="Complete Healthcare Rx Home">
             <img src="https://iili.io/f7esH8u.png" alt="Complete Healthcare Rx Logo" className="h-10 w-auto" />
             <span className="hidden md:inline text-xl text-slate-900 tracking-tight">
               <span className="font-bold">Complete</span>Healthcare Rx
@@ -67,7 +53,7 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
               {navLinks.map((link) => (
                 <li key={link.name}>
                   <a
-                    href={link.href.startsWith('#') ? link.href : `/${link.href}`}
+                    href={toHref(link.href)}
                     onClick={(e) => handleNavClick(e, link.href)}
                     className="text-slate-700 hover:text-burgundy transition-colors font-semibold"
                   >
@@ -103,7 +89,7 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
               {navLinks.map((link) => (
                 <li key={link.name} className="w-full">
                   <a
-                    href={link.href.startsWith('#') ? link.href : `/${link.href}`}
+                    href={toHref(link.href)}
                     onClick={(e) => handleNavClick(e, link.href)}
                     className="block rounded-md px-3 py-2 text-left font-semibold text-slate-700 transition-colors hover:text-burgundy"
                   >
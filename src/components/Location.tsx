@@ -1,4 +1,5 @@
 import React from 'react';
+import { getStoreHoursRows } from '@/lib/storeHours';
 
 const Location: React.FC = () => {
   const address = "1539 W Broad St Suite C, Columbus, OH 43222";
@@ -27,8 +28,9 @@ const Location: React.FC = () => {
               <div>
                 <h3 className="font-semibold text-slate-900">Hours</h3>
                 <ul className="list-none">
-                  <li><span className="w-20 inline-block">Mon–Fri:</span> 8:30 AM – 4:30 PM</li>
-                  <li><span className="w-20 inline-block">Sat–Sun:</span> Closed</li>
+                  {getStoreHoursRows().map(row => (
+                    <li key={row.days}><span className="w-20 inline-block">{row.days}:</span> {row.hours}</li>
+                  ))}
                 </ul>
               </div>
             </div>
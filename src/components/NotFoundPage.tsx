@@ -0,0 +1,33 @@
+import React from 'react';
+import { followLink, toHref } from '@/lib/router';
+
+const NotFoundPage: React.FC = () => {
+  return (
+    <main id="not-found" className="py-16 md:py-24 bg-cream">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto text-center">
+          <p className="text-sm font-semibold text-burgundy">404</p>
+          <h2 className="mt-2 text-3xl font-bold tracking-tight text-slate-900 sm:text-4xl">
+            Page Not Found
+          </h2>
+          <p className="mt-4 text-lg text-slate-600">
+            We couldn't find the page you were looking for. It may have moved, or the link may be mistyped.
+          </p>
+          <div className="mt-10 flex flex-col sm:flex-row items-center justify-center gap-4">
+            <a href={toHref('/')} onClick={(e) => followLink(e, '/')} className="bg-burgundy text-white font-semibold px-6 py-3 rounded-2xl hover:bg-burgundy-dark transition-colors shadow-sm">
+              Go to the home page
+            </a>
+            <a href={toHref('/status')} onClick={(e) => followLink(e, '/status')} className="font-semibold text-burgundy hover:text-burgundy-dark">
+              Check a request status
+            </a>
+          </div>
+          <p className="mt-8 text-sm text-slate-500">
+            Need help? Call us at <a href="tel:614-349-5140" className="font-semibold text-burgundy hover:text-burgundy-dark">(614) 349-5140</a>.
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default NotFoundPage;
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { RefillFormDataSchema } from '@/lib/schemas';
-import type { RefillFormData } from '@/lib/schemas';
+import { MAX_REFILL_PRESCRIPTIONS, RefillFormDataSchema } from '@/lib/schemas';
+import type { NotificationChannel, RefillFormData, RefillPrescription } from '@/lib/schemas';
+import { NAME_SUFFIXES } from '@/lib/names';
 import { useRefillFormSubmission } from '@/lib/hooks';
+import type { PharmacySubmissionResult } from '@/lib/pharmacyService';
+import type { RefillRxOutcome } from '@/lib/pharmacySystems/adapter';
 import { ZodError } from 'zod';
 import { XIcon } from './icons';
+import ConfirmationCode from './ConfirmationCode';
 
 interface RefillRequestModalProps {
   isOpen: boolean;
@@ -11,42 +15,63 @@ interface RefillRequestModalProps {
 }
 
 type FormErrors = Partial<Record<keyof RefillFormData, string>>;
+type PrescriptionErrors = Record<number, Partial<Record<keyof RefillPrescription, string>>>;
+
+const OUTCOME_BADGES: Record<RefillRxOutcome, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-success/10 text-success' },
+  not_found: { label: 'Not found', className: 'bg-error/10 text-error' },
+  inactive: { label: 'Inactive', className: 'bg-error/10 text-error' },
+  too_soon: { label: 'Too soon', className: 'bg-warning/20 text-slate-700' },
+  error: { label: 'Needs review', className: 'bg-error/10 text-error' },
+};
+
+// Choosing text messages is the patient's consent to receive them
+const NOTIFICATION_OPTIONS: { value: NotificationChannel; label: string; description?: string }[] = [
+  { value: 'sms', label: 'Text message', description: 'Sent to the phone number above. Message and data rates may apply. Reply STOP to opt out.' },
+  { value: 'email', label: 'Email', description: 'Sent to the email address above. Every email has an unsubscribe link.' },
+  { value: 'none', label: 'No updates' },
+];
+
+const UPDATE_MESSAGES: Record<NotificationChannel, string> = {
+  sms: 'We will text you when your refill is ready.',
+  email: 'We will email you when your refill is ready.',
+  none: 'We will contact you if there are any issues.',
+};
+
+const createEmptyFormData = (): RefillFormData => ({
+  patientFirstName: '',
+  patientMiddleName: '',
+  patientLastName: '',
+  patientSuffix: '',
+  dob: '',
+  phone: '',
+  email: '',
+  prescriptions: [{ rxNumber: '', medicationName: '' }],
+  preferredService: 'pickup',
+  notificationChannel: 'none',
+  notes: '',
+  consent: false,
+});
 
 const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose }) => {
-  const [formData, setFormData] = useState<RefillFormData>({
-    patientName: '',
-    dob: '',
-    phone: '',
-    email: '',
-    prescriptionNumbers: '',
-    medicationNames: '',
-    preferredService: 'pickup',
-    notes: '',
-    consent: false,
-  });
+  const [formData, setFormData] = useState<RefillFormData>(createEmptyFormData);
   const [errors, setErrors] = useState<FormErrors>({});
+  const [prescriptionErrors, setPrescriptionErrors] = useState<PrescriptionErrors>({});
   const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [submission, setSubmission] = useState<PharmacySubmissionResult | null>(null);
   const { submit } = useRefillFormSubmission();
 
   // Reset form when modal is closed
   useEffect(() => {
     if (!isOpen) {
       setTimeout(() => {
-        setFormData({
-          patientName: '',
-          dob: '',
-          phone: '',
-          email: '',
-          prescriptionNumbers: '',
-          medicationNames: '',
-          preferredService: 'pickup',
-          notes: '',
-          consent: false,
-        });
+        setFormData(createEmptyFormData());
         setStatus('idle');
         setErrors({});
+        setPrescriptionErrors({});
         setErrorMessage(null);
+        setSubmission(null);
       }, 300); // match transition duration
     }
   }, [isOpen]);
@@ -64,35 +89,69 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
     }
   };
 
-  const validate = (): FormErrors => {
+  const handlePrescriptionChange = (index: number, field: keyof RefillPrescription, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      prescriptions: prev.prescriptions.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    }));
+    if (prescriptionErrors[index]?.[field] || errors.prescriptions) {
+      setPrescriptionErrors(prev => ({ ...prev, [index]: { ...prev[index], [field]: undefined } }));
+      setErrors(prev => ({ ...prev, prescriptions: undefined }));
+    }
+  };
+
+  const addPrescription = () => {
+    setFormData(prev => ({
+      ...prev,
+      prescriptions: [...prev.prescriptions, { rxNumber: '', medicationName: '' }],
+    }));
+  };
+
+  const removePrescription = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      prescriptions: prev.prescriptions.filter((_, i) => i !== index),
+    }));
+    // Row errors are keyed by position, so they are re-checked on the next submit
+    setPrescriptionErrors({});
+    setErrors(prev => ({ ...prev, prescriptions: undefined }));
+  };
+
+  const validate = (): { fieldErrors: FormErrors; rowErrors: PrescriptionErrors } => {
     try {
       RefillFormDataSchema.parse(formData);
-      return {};
+      return { fieldErrors: {}, rowErrors: {} };
     } catch (error) {
       if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
+        const fieldErrors: FormErrors = {};
+        const rowErrors: PrescriptionErrors = {};
         error.errors.forEach(err => {
-          const path = err.path[0] as keyof RefillFormData;
-          newErrors[path] = err.message;
+          const [path, index, field] = err.path;
+          if (path === 'prescriptions' && typeof index === 'number' && field) {
+            rowErrors[index] = { ...rowErrors[index], [field]: err.message };
+          } else {
+            fieldErrors[path as keyof RefillFormData] = err.message;
+          }
         });
-        return newErrors;
+        return { fieldErrors, rowErrors };
       }
-      return {};
+      return { fieldErrors: {}, rowErrors: {} };
     }
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setErrorMessage(null);
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
+    const { fieldErrors, rowErrors } = validate();
+    if (Object.keys(fieldErrors).length > 0 || Object.keys(rowErrors).length > 0) {
+      setErrors(fieldErrors);
+      setPrescriptionErrors(rowErrors);
       return;
     }
 
     setStatus('submitting');
     try {
-      await submit(formData);
+      setSubmission(await submit(formData));
       setStatus('success');
       setErrors({});
       setErrorMessage(null);
@@ -105,6 +164,15 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
   if (!isOpen) {
     return null;
   }
+
+  const results = submission?.results ?? [];
+  const acceptedCount = results.filter(result => result.outcome === 'ok').length;
+  const resultsHeading =
+    acceptedCount === results.length
+      ? 'Refill Request Sent!'
+      : acceptedCount > 0
+        ? 'Refill Request Partially Sent'
+        : 'Refill Request Needs Attention';
   
   const getInputClassName = (fieldName: keyof FormErrors) => 
     `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
@@ -142,10 +210,42 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
           </button>
         </div>
 
-        {status === 'success' ? (
+        {status === 'success' && results.length > 0 ? (
+          <div className="grow py-4 overflow-y-auto" aria-live="polite">
+            <h3 className={`text-2xl font-semibold text-center ${acceptedCount === results.length ? 'text-success' : 'text-slate-900'}`}>
+              {resultsHeading}
+            </h3>
+            <p className="mt-2 text-center text-slate-600">{submission?.message}</p>
+            <ConfirmationCode code={submission?.confirmationCode} />
+            <ul className="mt-6 space-y-3">
+              {results.map((result, index) => (
+                <li key={`${result.rxNumber}-${index}`} className="rounded-xl border border-slate-200 p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-semibold text-slate-900">Rx #{result.rxNumber}</p>
+                      {result.medicationName && <p className="text-sm text-slate-500">{result.medicationName}</p>}
+                    </div>
+                    <span className={`shrink-0 rounded-full px-3 py-1 text-xs font-semibold ${OUTCOME_BADGES[result.outcome].className}`}>
+                      {OUTCOME_BADGES[result.outcome].label}
+                    </span>
+                  </div>
+                  {result.outcome !== 'ok' && <p className="mt-2 text-sm text-slate-700">{result.message}</p>}
+                  <p className="mt-1 text-sm text-slate-600">{result.nextAction}</p>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={onClose}
+              className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
+            >
+              Close
+            </button>
+          </div>
+        ) : status === 'success' ? (
           <div className="grow text-center py-8 overflow-y-auto" aria-live="polite">
             <h3 className="text-2xl font-semibold text-success">Refill Request Sent!</h3>
-            <p className="mt-2 text-slate-600">Thank you. We have received your refill request and will process it shortly. We will contact you if there are any issues.</p>
+            <p className="mt-2 text-slate-600">Thank you. We have received your refill request and will process it shortly. {UPDATE_MESSAGES[formData.notificationChannel]}</p>
+            <ConfirmationCode code={submission?.confirmationCode} />
             <button
               onClick={onClose}
               className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
@@ -155,20 +255,72 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
           </div>
         ) : (
           <form onSubmit={handleSubmit} className="grow space-y-6 overflow-y-auto pr-2 hide-scrollbar">
-            <div>
-              <label htmlFor="refill-patientName" className="block text-sm font-medium text-slate-700">Patient Full Name</label>
-              <input 
-                type="text" 
-                name="patientName" 
-                id="refill-patientName" 
-                value={formData.patientName} 
-                onChange={handleChange} 
-                required 
-                className={getInputClassName('patientName')}
-                aria-invalid={errors.patientName ? "true" : "false"}
-                aria-describedby={errors.patientName ? 'refill-patientName-error' : undefined}
-              />
-              {errors.patientName && <p id="refill-patientName-error" className="mt-1 text-sm text-error">{errors.patientName}</p>}
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="refill-patientFirstName" className="block text-sm font-medium text-slate-700">First Name</label>
+                <input 
+                  type="text" 
+                  name="patientFirstName" 
+                  id="refill-patientFirstName" 
+                  autoComplete="given-name"
+                  value={formData.patientFirstName} 
+                  onChange={handleChange} 
+                  required 
+                  className={getInputClassName('patientFirstName')}
+                  aria-invalid={errors.patientFirstName ? "true" : "false"}
+                  aria-describedby={errors.patientFirstName ? 'refill-patientFirstName-error' : undefined}
+                />
+                {errors.patientFirstName && <p id="refill-patientFirstName-error" className="mt-1 text-sm text-error">{errors.patientFirstName}</p>}
+              </div>
+              <div>
+                <label htmlFor="refill-patientMiddleName" className="block text-sm font-medium text-slate-700">Middle Name (Optional)</label>
+                <input 
+                  type="text" 
+                  name="patientMiddleName" 
+                  id="refill-patientMiddleName" 
+                  autoComplete="additional-name"
+                  value={formData.patientMiddleName} 
+                  onChange={handleChange} 
+                  className={getInputClassName('patientMiddleName')}
+                  aria-invalid={errors.patientMiddleName ? "true" : "false"}
+                  aria-describedby={errors.patientMiddleName ? 'refill-patientMiddleName-error' : undefined}
+                />
+                {errors.patientMiddleName && <p id="refill-patientMiddleName-error" className="mt-1 text-sm text-error">{errors.patientMiddleName}</p>}
+              </div>
+            </div>
+            <div className="grid sm:grid-cols-[1fr_8rem] gap-4">
+              <div>
+                <label htmlFor="refill-patientLastName" className="block text-sm font-medium text-slate-700">Last Name</label>
+                <input 
+                  type="text" 
+                  name="patientLastName" 
+                  id="refill-patientLastName" 
+                  autoComplete="family-name"
+                  value={formData.patientLastName} 
+                  onChange={handleChange} 
+                  required 
+                  className={getInputClassName('patientLastName')}
+                  aria-invalid={errors.patientLastName ? "true" : "false"}
+                  aria-describedby={errors.patientLastName ? 'refill-patientLastName-error' : undefined}
+                />
+                {errors.patientLastName && <p id="refill-patientLastName-error" className="mt-1 text-sm text-error">{errors.patientLastName}</p>}
+              </div>
+              <div>
+                <label htmlFor="refill-patientSuffix" className="block text-sm font-medium text-slate-700">Suffix</label>
+                <select 
+                  name="patientSuffix" 
+                  id="refill-patientSuffix" 
+                  autoComplete="honorific-suffix"
+                  value={formData.patientSuffix} 
+                  onChange={handleChange} 
+                  className={getInputClassName('patientSuffix')}
+                >
+                  <option value="">None</option>
+                  {NAME_SUFFIXES.map(suffix => (
+                    <option key={suffix} value={suffix}>{suffix}</option>
+                  ))}
+                </select>
+              </div>
             </div>
             <div>
               <label htmlFor="refill-dob" className="block text-sm font-medium text-slate-700">Date of Birth</label>
@@ -214,37 +366,36 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
               />
               {errors.email && <p id="refill-email-error" className="mt-1 text-sm text-error">{errors.email}</p>}
             </div>
-            <div>
-              <label htmlFor="refill-prescriptionNumbers" className="block text-sm font-medium text-slate-700">Prescription Number(s) <span className="text-red-500">*</span></label>
-              <textarea 
-                id="refill-prescriptionNumbers" 
-                name="prescriptionNumbers" 
-                rows={3} 
-                value={formData.prescriptionNumbers} 
-                onChange={handleChange} 
-                placeholder="Enter one or more prescription numbers, separated by commas or new lines." 
-                required
-                className={getTextAreaClassName('prescriptionNumbers')}
-                aria-invalid={errors.prescriptionNumbers ? "true" : "false"}
-                aria-describedby={errors.prescriptionNumbers ? 'refill-prescriptionNumbers-error' : undefined}
-              ></textarea>
-              {errors.prescriptionNumbers && <p id="refill-prescriptionNumbers-error" className="mt-1 text-sm text-error">{errors.prescriptionNumbers}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-medicationNames" className="block text-sm font-medium text-slate-700">Medication Name(s) (Optional)</label>
-              <textarea 
-                id="refill-medicationNames" 
-                name="medicationNames" 
-                rows={2} 
-                value={formData.medicationNames} 
-                onChange={handleChange} 
-                placeholder="e.g., Metformin, Lisinopril" 
-                className={getTextAreaClassName('medicationNames')}
-                aria-invalid={errors.medicationNames ? "true" : "false"}
-                aria-describedby={errors.medicationNames ? 'refill-medicationNames-error' : undefined}
-              ></textarea>
-              {errors.medicationNames && <p id="refill-medicationNames-error" className="mt-1 text-sm text-error">{errors.medicationNames}</p>}
-            </div>
+            <fieldset>
+              <legend className="text-sm font-medium text-slate-700">Prescriptions</legend>
+              <div className="mt-2 space-y-3">
+                {formData.prescriptions.map((prescription, index) => (
+                  <div key={index} className="grid sm:grid-cols-[1fr_1fr_auto] gap-4 items-start">
+                    <div>
+                      <label htmlFor={`refill-rxNumber-${index}`} className="block text-sm font-medium text-slate-700">Prescription Number (Rx #) <span className="text-red-500">*</span></label>
+                      <input type="text" id={`refill-rxNumber-${index}`} value={prescription.rxNumber} onChange={(e) => handlePrescriptionChange(index, 'rxNumber', e.target.value)} required className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${prescriptionErrors[index]?.rxNumber ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={prescriptionErrors[index]?.rxNumber ? "true" : "false"} />
+                      {prescriptionErrors[index]?.rxNumber && <p className="mt-1 text-sm text-error">{prescriptionErrors[index]?.rxNumber}</p>}
+                    </div>
+                    <div>
+                      <label htmlFor={`refill-medicationName-${index}`} className="block text-sm font-medium text-slate-700">Medication Name (Optional)</label>
+                      <input type="text" id={`refill-medicationName-${index}`} value={prescription.medicationName ?? ''} onChange={(e) => handlePrescriptionChange(index, 'medicationName', e.target.value)} placeholder="e.g., Metformin" className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${prescriptionErrors[index]?.medicationName ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={prescriptionErrors[index]?.medicationName ? "true" : "false"} />
+                      {prescriptionErrors[index]?.medicationName && <p className="mt-1 text-sm text-error">{prescriptionErrors[index]?.medicationName}</p>}
+                    </div>
+                    {formData.prescriptions.length > 1 && (
+                      <button type="button" onClick={() => removePrescription(index)} aria-label={`Remove prescription ${index + 1}`} className="sm:mt-7 p-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors">
+                        <XIcon className="h-5 w-5" aria-hidden="true" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {errors.prescriptions && <p className="text-sm text-error">{errors.prescriptions}</p>}
+                {formData.prescriptions.length < MAX_REFILL_PRESCRIPTIONS && (
+                  <button type="button" onClick={addPrescription} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+                    + Add another prescription
+                  </button>
+                )}
+              </div>
+            </fieldset>
 
             <fieldset>
               <legend className="text-sm font-medium text-slate-700">Preferred Service</legend>
@@ -280,6 +431,31 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
               </div>
             </fieldset>
 
+            <fieldset>
+              <legend className="text-sm font-medium text-slate-700">Refill Updates</legend>
+              <p className="text-sm text-slate-500">We can let you know when your refill is ready, or if we cannot fill it.</p>
+              <div className="mt-2 space-y-2">
+                {NOTIFICATION_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-start">
+                    <input
+                      id={`notify-${option.value}`}
+                      name="notificationChannel"
+                      type="radio"
+                      value={option.value}
+                      checked={formData.notificationChannel === option.value}
+                      onChange={handleChange}
+                      aria-describedby={option.description ? `notify-${option.value}-description` : undefined}
+                      className="mt-0.5 focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300"
+                    />
+                    <div className="ml-3 text-sm">
+                      <label htmlFor={`notify-${option.value}`} className="block font-medium text-slate-700">{option.label}</label>
+                      {option.description && <p id={`notify-${option.value}-description`} className="text-slate-500">{option.description}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+
             <div>
               <label htmlFor="refill-notes" className="block text-sm font-medium text-slate-700">Additional Notes (Optional)</label>
               <textarea 
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { StatusLookupFormDataSchema } from '@/lib/schemas';
+import type { RequestStatus, RequestStatusLookup, StatusLookupFormData } from '@/lib/schemas';
+import { useRequestStatusLookup } from '@/lib/hooks';
+import { ZodError } from 'zod';
+
+type FormErrors = Partial<Record<keyof StatusLookupFormData, string>>;
+
+type LifecycleStep = { status: RequestStatus; label: string; description: string };
+
+const RECEIVED_STEPS: LifecycleStep[] = [
+  { status: 'received', label: 'Received', description: 'We have your request.' },
+  { status: 'submitted', label: 'Submitted', description: 'Your request is in our pharmacy system.' },
+  { status: 'processing', label: 'Processing', description: 'Our pharmacy team is working on your request.' },
+];
+
+const PICKUP_STEPS: LifecycleStep[] = [
+  { status: 'ready', label: 'Ready for pickup', description: 'Your prescription is ready at the pharmacy.' },
+  { status: 'picked_up', label: 'Picked up', description: 'Your prescription has been picked up.' },
+];
+
+const DELIVERY_STEPS: LifecycleStep[] = [
+  { status: 'ready', label: 'Out for delivery', description: 'Your prescription is on its way.' },
+  { status: 'delivered', label: 'Delivered', description: 'Your prescription has been delivered.' },
+];
+
+const TRANSFER_STEPS: LifecycleStep[] = [
+  { status: 'delivered', label: 'Transferred', description: 'Your prescription has been sent to the new pharmacy.' },
+];
+
+// Requests that stopped before the end of the lifecycle
+const CLOSED_MESSAGES: Partial<Record<RequestStatus, string>> = {
+  failed: 'We ran into a problem with this request. Our pharmacy team will follow up with you.',
+  cancelled: 'This request was cancelled.',
+};
+
+const getLifecycle = (result: RequestStatusLookup): LifecycleStep[] => {
+  if (result.requestType === 'transfer') return [...RECEIVED_STEPS, ...TRANSFER_STEPS];
+  return [...RECEIVED_STEPS, ...(result.preferredService === 'delivery' ? DELIVERY_STEPS : PICKUP_STEPS)];
+};
+
+const NOT_FOUND_MESSAGE =
+  'We could not find a request matching that confirmation code and date of birth. Please check both and try again.';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+const StatusPage: React.FC = () => {
+  const [formData, setFormData] = useState<StatusLookupFormData>({ confirmationCode: '', dob: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<RequestStatusLookup | null>(null);
+  const { lookup } = useRequestStatusLookup();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (errors[name as keyof StatusLookupFormData]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const validate = (): FormErrors => {
+    try {
+      StatusLookupFormDataSchema.parse(formData);
+      return {};
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const newErrors: FormErrors = {};
+        error.errors.forEach(err => {
+          const path = err.path[0] as keyof StatusLookupFormData;
+          newErrors[path] = err.message;
+        });
+        return newErrors;
+      }
+      return {};
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validationErrors = validate();
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setStatus('submitting');
+    setErrorMessage(null);
+    setResult(null);
+    try {
+      const found = await lookup(formData);
+      if (!found) {
+        setStatus('error');
+        setErrorMessage(NOT_FOUND_MESSAGE);
+        return;
+      }
+      setResult(found);
+      setStatus('success');
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unable to check status. Please try again.');
+    }
+  };
+
+  const getInputClassName = (fieldName: keyof FormErrors) =>
+    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
+
+  const steps = result ? getLifecycle(result) : [];
+  const currentIndex = result ? steps.findIndex(step => step.status === result.status) : -1;
+  const closedMessage = result ? CLOSED_MESSAGES[result.status] : undefined;
+
+  return (
+    <main id="status" className="py-16 md:py-24 bg-cream">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold tracking-tight text-slate-900 sm:text-4xl">
+              Check Request Status
+            </h2>
+            <p className="mt-4 text-lg text-slate-600">
+              Enter the confirmation code from your refill or transfer request and your date of birth.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="mt-10 bg-white p-8 rounded-2xl shadow-lg space-y-6">
+            <div className="grid sm:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="status-confirmationCode" className="block text-sm font-medium text-slate-700">Confirmation Code</label>
+                <input type="text" name="confirmationCode" id="status-confirmationCode" value={formData.confirmationCode} onChange={handleChange} required placeholder="RF-7K3M-9QX2" autoComplete="off" className={`${getInputClassName('confirmationCode')} uppercase`} aria-invalid={errors.confirmationCode ? "true" : "false"} aria-describedby={errors.confirmationCode ? 'status-confirmationCode-error' : undefined} />
+                {errors.confirmationCode && <p id="status-confirmationCode-error" className="mt-1 text-sm text-error">{errors.confirmationCode}</p>}
+              </div>
+              <div>
+                <label htmlFor="status-dob" className="block text-sm font-medium text-slate-700">Date of Birth</label>
+                <input type="date" name="dob" id="status-dob" value={formData.dob} onChange={handleChange} required className={getInputClassName('dob')} aria-invalid={errors.dob ? "true" : "false"} aria-describedby={errors.dob ? 'status-dob-error' : undefined} />
+                {errors.dob && <p id="status-dob-error" className="mt-1 text-sm text-error">{errors.dob}</p>}
+              </div>
+            </div>
+            <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+              {status === 'submitting' ? 'Checking...' : 'Check Status'}
+            </button>
+            {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+          </form>
+
+          {result && (
+            <section aria-live="polite" className="mt-8 bg-white p-8 rounded-2xl shadow-lg">
+              <p className="text-sm font-semibold text-slate-500">
+                {result.requestType === 'refill' ? 'Refill request' : 'Transfer request'} {result.confirmationCode}
+              </p>
+              {closedMessage ? (
+                <p className="mt-6 font-semibold text-slate-900">{closedMessage}</p>
+              ) : (
+                <ol className="mt-6 space-y-4">
+                  {steps.map((step, stepIndex) => {
+                    const isDone = stepIndex <= currentIndex;
+                    return (
+                      <li key={step.status} className="flex items-start gap-3">
+                        <span className={`mt-1 h-3 w-3 shrink-0 rounded-full ${isDone ? 'bg-success' : 'bg-slate-300'}`} aria-hidden="true"></span>
+                        <div>
+                          <p className={`font-semibold ${step.status === result.status ? 'text-slate-900' : isDone ? 'text-slate-700' : 'text-slate-400'}`}>
+                            {step.label}{step.status === result.status && <span className="sr-only"> (current status)</span>}
+                          </p>
+                          <p className="text-sm text-slate-600">{step.description}</p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              <p className="mt-6 text-sm text-slate-500">
+                Received {formatDateTime(result.receivedAt)} &middot; Last updated {formatDateTime(result.updatedAt)}
+              </p>
+              <p className="mt-2 text-sm text-slate-500">
+                Questions? Call us at <a href="tel:614-349-5140" className="font-semibold text-burgundy hover:text-burgundy-dark">(614) 349-5140</a>.
+              </p>
+            </section>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default StatusPage;
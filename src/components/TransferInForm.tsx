@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { TransferInFormDataSchema } from '@/lib/schemas';
+import type { TransferInFormData } from '@/lib/schemas';
+import { useTransferInFormSubmission } from '@/lib/hooks';
+
+interface TransferInFormProps {
+  onClose: () => void;
+}
+
+type FormErrors = Partial<Record<keyof TransferInFormData, string>>;
+
+const TransferInForm: React.FC<TransferInFormProps> = ({ onClose }: TransferInFormProps) => {
+  const [formData, setFormData] = useState<TransferInFormData>({
+    patientName: '',
+    dob: '',
+    phone: '',
+    email: '',
+    currentPharmacyName: '',
+    currentPharmacyPhone: '',
+    medicationNames: '',
+    prescriberName: '',
+    prescriberPhone: '',
+    preferredService: 'pickup',
+    notes: '',
+    consent: false,
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { submit } = useTransferInFormSubmission();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData((prev: TransferInFormData) => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value,
+    }));
+    if (errors[name as keyof TransferInFormData]) {
+      setErrors((prev: FormErrors) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const validate = (): { data?: TransferInFormData; errors: FormErrors } => {
+    const parsed = TransferInFormDataSchema.safeParse(formData);
+    if (parsed.success) {
+      return { data: parsed.data, errors: {} };
+    }
+
+    const newErrors: FormErrors = {};
+    parsed.error.errors.forEach(err => {
+      const path = err.path[0] as keyof TransferInFormData;
+      newErrors[path] = err.message;
+    });
+    return { errors: newErrors };
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setErrorMessage(null);
+    const { data, errors: validationErrors } = validate();
+    if (!data) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setStatus('submitting');
+    try {
+      await submit(data);
+      setStatus('success');
+      setErrors({});
+      setErrorMessage(null);
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  const getInputClassName = (fieldName: keyof FormErrors) =>
+    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
+
+  if (status === 'success') {
+    return (
+      <div className="grow text-center py-8" aria-live="polite">
+        <h3 className="text-2xl font-semibold text-success">Transfer Request Received!</h3>
+        <p className="mt-2 text-slate-600">Thank you. We will contact your current pharmacy and prescriber to move your prescriptions, and call you when they are ready.</p>
+        <button onClick={onClose} className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark">Close</button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grow space-y-4 overflow-y-auto pr-2 hide-scrollbar">
+      <fieldset>
+        <legend className="text-lg font-semibold text-slate-800">Patient Information</legend>
+        <div className="mt-2 space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transfer-in-patientName" className="block text-sm font-medium text-slate-700">Patient Full Name</label>
+              <input type="text" name="patientName" id="transfer-in-patientName" value={formData.patientName} onChange={handleChange} required className={getInputClassName('patientName')} aria-invalid={errors.patientName ? "true" : "false"} />
+              {errors.patientName && <p className="mt-1 text-sm text-error">{errors.patientName}</p>}
+            </div>
+            <div>
+              <label htmlFor="transfer-in-dob" className="block text-sm font-medium text-slate-700">Date of Birth</label>
+              <input type="date" name="dob" id="transfer-in-dob" value={formData.dob} onChange={handleChange} required className={getInputClassName('dob')} aria-invalid={errors.dob ? "true" : "false"} />
+              {errors.dob && <p className="mt-1 text-sm text-error">{errors.dob}</p>}
+            </div>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transfer-in-phone" className="block text-sm font-medium text-slate-700">Phone Number</label>
+              <input type="tel" name="phone" id="transfer-in-phone" value={formData.phone} onChange={handleChange} required className={getInputClassName('phone')} aria-invalid={errors.phone ? "true" : "false"} />
+              {errors.phone && <p className="mt-1 text-sm text-error">{errors.phone}</p>}
+            </div>
+            <div>
+              <label htmlFor="transfer-in-email" className="block text-sm font-medium text-slate-700">Email (Optional)</label>
+              <input type="email" name="email" id="transfer-in-email" value={formData.email} onChange={handleChange} className={getInputClassName('email')} aria-invalid={errors.email ? "true" : "false"} />
+              {errors.email && <p className="mt-1 text-sm text-error">{errors.email}</p>}
+            </div>
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-lg font-semibold text-slate-800">Current Pharmacy</legend>
+        <div className="grid sm:grid-cols-2 gap-4 mt-2">
+          <div>
+            <label htmlFor="transfer-in-pharmacyName" className="block text-sm font-medium text-slate-700">Pharmacy Name</label>
+            <input type="text" name="currentPharmacyName" id="transfer-in-pharmacyName" value={formData.currentPharmacyName} onChange={handleChange} required className={getInputClassName('currentPharmacyName')} aria-invalid={errors.currentPharmacyName ? "true" : "false"} />
+            {errors.currentPharmacyName && <p className="mt-1 text-sm text-error">{errors.currentPharmacyName}</p>}
+          </div>
+          <div>
+            <label htmlFor="transfer-in-pharmacyPhone" className="block text-sm font-medium text-slate-700">Pharmacy Phone</label>
+            <input type="tel" name="currentPharmacyPhone" id="transfer-in-pharmacyPhone" value={formData.currentPharmacyPhone} onChange={handleChange} required className={getInputClassName('currentPharmacyPhone')} aria-invalid={errors.currentPharmacyPhone ? "true" : "false"} />
+            {errors.currentPharmacyPhone && <p className="mt-1 text-sm text-error">{errors.currentPharmacyPhone}</p>}
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-lg font-semibold text-slate-800">Prescriptions</legend>
+        <div className="mt-2 space-y-4">
+          <div>
+            <label htmlFor="transfer-in-medicationNames" className="block text-sm font-medium text-slate-700">Medication Name(s)</label>
+            <input type="text" name="medicationNames" id="transfer-in-medicationNames" value={formData.medicationNames} onChange={handleChange} required placeholder="e.g., Lisinopril, Metformin" className={getInputClassName('medicationNames')} aria-invalid={errors.medicationNames ? "true" : "false"} />
+            {errors.medicationNames && <p className="mt-1 text-sm text-error">{errors.medicationNames}</p>}
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transfer-in-prescriberName" className="block text-sm font-medium text-slate-700">Prescriber Name</label>
+              <input type="text" name="prescriberName" id="transfer-in-prescriberName" value={formData.prescriberName} onChange={handleChange} required placeholder="e.g., Dr. Smith" className={getInputClassName('prescriberName')} aria-invalid={errors.prescriberName ? "true" : "false"} />
+              {errors.prescriberName && <p className="mt-1 text-sm text-error">{errors.prescriberName}</p>}
+            </div>
+            <div>
+              <label htmlFor="transfer-in-prescriberPhone" className="block text-sm font-medium text-slate-700">Prescriber Phone (Optional)</label>
+              <input type="tel" name="prescriberPhone" id="transfer-in-prescriberPhone" value={formData.prescriberPhone} onChange={handleChange} className={getInputClassName('prescriberPhone')} aria-invalid={errors.prescriberPhone ? "true" : "false"} />
+              {errors.prescriberPhone && <p className="mt-1 text-sm text-error">{errors.prescriberPhone}</p>}
+            </div>
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700">Preferred Service</legend>
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center">
+            <input id="transfer-in-pickup" name="preferredService" type="radio" value="pickup" checked={formData.preferredService === 'pickup'} onChange={handleChange} className="focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300" />
+            <label htmlFor="transfer-in-pickup" className="ml-3 block text-sm font-medium text-slate-700">Pickup at Pharmacy</label>
+          </div>
+          <div className="flex items-center">
+            <input id="transfer-in-delivery" name="preferredService" type="radio" value="delivery" checked={formData.preferredService === 'delivery'} onChange={handleChange} className="focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300" />
+            <label htmlFor="transfer-in-delivery" className="ml-3 block text-sm font-medium text-slate-700">Local Delivery</label>
+          </div>
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="transfer-in-notes" className="block text-sm font-medium text-slate-700">Notes (Optional)</label>
+        <textarea id="transfer-in-notes" name="notes" rows={2} value={formData.notes} onChange={handleChange} className={getInputClassName('notes')}></textarea>
+      </div>
+
+      <div className="relative flex items-start pt-2">
+        <div className="flex items-center h-5">
+          <input id="transfer-in-consent" name="consent" type="checkbox" checked={formData.consent} onChange={handleChange} required className={`focus:ring-burgundy h-4 w-4 text-burgundy rounded ${errors.consent ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={errors.consent ? "true" : "false"} />
+        </div>
+        <div className="ml-3 text-sm">
+          <label htmlFor="transfer-in-consent" className="font-medium text-slate-700">I authorize Complete Healthcare Rx to request these prescriptions from my current pharmacy on my behalf.</label>
+        </div>
+      </div>
+      {errors.consent && <p className="-mt-3 text-sm text-error">{errors.consent}</p>}
+
+      <div className="pt-4">
+        <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+          {status === 'submitting' ? 'Submitting Request...' : 'Submit Transfer Request'}
+        </button>
+      </div>
+      {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+    </form>
+  );
+};
+
+export default TransferInForm;
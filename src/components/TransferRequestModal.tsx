@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { TransferFormDataSchema } from '@/lib/schemas';
-import type { TransferFormData } from '@/lib/schemas';
+import { MAX_TRANSFER_PRESCRIPTIONS, TransferFormDataSchema } from '@/lib/schemas';
+import type { TransferFormData, TransferPrescription } from '@/lib/schemas';
 import { useTransferFormSubmission } from '@/lib/hooks';
+import type { TransferRxResult } from '@/lib/pharmacySystems/adapter';
+import type { PharmacySubmissionResult } from '@/lib/pharmacyService';
 import { ZodError } from 'zod';
 import { XIcon } from './icons';
+import TransferInForm from './TransferInForm';
+import ConfirmationCode from './ConfirmationCode';
 
 interface TransferRequestModalProps {
   isOpen: boolean;
@@ -11,48 +15,60 @@ interface TransferRequestModalProps {
 }
 
 type FormErrors = Partial<Record<keyof TransferFormData, string>>;
+type PrescriptionErrors = Record<number, Partial<Record<keyof TransferPrescription, string>>>;
+
+// 'in': from another pharmacy to us; 'out': from us to another pharmacy
+type TransferMode = 'in' | 'out';
+
+const MODE_COPY: Record<TransferMode, { title: string; description: string; tab: string }> = {
+  in: {
+    title: 'Transfer Your Prescription to Us',
+    description: 'Switching pharmacies? We will contact your current pharmacy and prescriber for you.',
+    tab: 'Transfer to us',
+  },
+  out: {
+    title: 'Transfer Your Prescription Out',
+    description: 'Request to transfer a prescription from our pharmacy to another.',
+    tab: 'Transfer away',
+  },
+};
+
+const createEmptyFormData = (): TransferFormData => ({
+  patientDob: '',
+  prescriptions: [{ rxNumber: '', rxFillDate: '' }],
+  transferToPharmacyName: '',
+  transferToPharmacyAddress1: '',
+  transferToPharmacyAddress2: '',
+  transferToPharmacyCity: '',
+  transferToPharmacyState: '',
+  transferToPharmacyZip: '',
+  transferToPharmacyPhone: '',
+  transferToPharmacyNCPDP: '',
+  transferRxRemark: '',
+  consent: false,
+});
 
 const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onClose }: TransferRequestModalProps) => {
-  const [formData, setFormData] = useState<TransferFormData>({
-    rxNumber: '',
-    rxFillDate: '',
-    transferToPharmacyName: '',
-    transferToPharmacyAddress1: '',
-    transferToPharmacyAddress2: '',
-    transferToPharmacyCity: '',
-    transferToPharmacyState: '',
-    transferToPharmacyZip: '',
-    transferToPharmacyPhone: '',
-    transferToPharmacyNCPDP: '',
-    transferRxRemark: '',
-    consent: false,
-  });
+  const [formData, setFormData] = useState<TransferFormData>(createEmptyFormData);
+  const [mode, setMode] = useState<TransferMode>('in');
   const [errors, setErrors] = useState<FormErrors>({});
+  const [prescriptionErrors, setPrescriptionErrors] = useState<PrescriptionErrors>({});
   const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [submission, setSubmission] = useState<PharmacySubmissionResult<TransferRxResult> | null>(null);
   const { submit } = useTransferFormSubmission();
 
   // Reset form when modal is closed
   useEffect(() => {
     if (!isOpen) {
       setTimeout(() => {
-        setFormData({
-          rxNumber: '',
-          rxFillDate: '',
-          transferToPharmacyName: '',
-          transferToPharmacyAddress1: '',
-          transferToPharmacyAddress2: '',
-          transferToPharmacyCity: '',
-          transferToPharmacyState: '',
-          transferToPharmacyZip: '',
-          transferToPharmacyPhone: '',
-          transferToPharmacyNCPDP: '',
-          transferRxRemark: '',
-          consent: false,
-        });
+        setFormData(createEmptyFormData());
+        setMode('in');
         setStatus('idle');
         setErrors({});
+        setPrescriptionErrors({});
         setErrorMessage(null);
+        setSubmission(null);
       }, 300); // match transition duration
     }
   }, [isOpen]);
@@ -69,37 +85,72 @@ const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onC
     }
   };
 
-  const validate = (): FormErrors => {
+  const handlePrescriptionChange = (index: number, field: keyof TransferPrescription, value: string) => {
+    setFormData((prev: TransferFormData) => ({
+      ...prev,
+      prescriptions: prev.prescriptions.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    }));
+    if (prescriptionErrors[index]?.[field] || errors.prescriptions) {
+      setPrescriptionErrors((prev: PrescriptionErrors) => ({ ...prev, [index]: { ...prev[index], [field]: undefined } }));
+      setErrors((prev: FormErrors) => ({ ...prev, prescriptions: undefined }));
+    }
+  };
+
+  const addPrescription = () => {
+    setFormData((prev: TransferFormData) => ({
+      ...prev,
+      prescriptions: [...prev.prescriptions, { rxNumber: '', rxFillDate: '' }],
+    }));
+  };
+
+  const removePrescription = (index: number) => {
+    setFormData((prev: TransferFormData) => ({
+      ...prev,
+      prescriptions: prev.prescriptions.filter((_, i) => i !== index),
+    }));
+    // Row errors are keyed by position, so they are re-checked on the next submit
+    setPrescriptionErrors({});
+    setErrors((prev: FormErrors) => ({ ...prev, prescriptions: undefined }));
+  };
+
+  const validate = (): { fieldErrors: FormErrors; rowErrors: PrescriptionErrors } => {
     try {
       TransferFormDataSchema.parse(formData);
-      return {};
+      return { fieldErrors: {}, rowErrors: {} };
     } catch (error: unknown) {
       if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
+        const fieldErrors: FormErrors = {};
+        const rowErrors: PrescriptionErrors = {};
         error.errors.forEach((err: ZodError['errors'][number]) => {
-          const path = err.path[0] as keyof TransferFormData;
-          newErrors[path] = err.message;
+          const [path, index, field] = err.path;
+          if (path === 'prescriptions' && typeof index === 'number' && field) {
+            rowErrors[index] = { ...rowErrors[index], [field]: err.message };
+          } else {
+            fieldErrors[path as keyof TransferFormData] = err.message;
+          }
         });
-        return newErrors;
+        return { fieldErrors, rowErrors };
       }
-      return {};
+      return { fieldErrors: {}, rowErrors: {} };
     }
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setErrorMessage(null);
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
+    const { fieldErrors, rowErrors } = validate();
+    if (Object.keys(fieldErrors).length > 0 || Object.keys(rowErrors).length > 0) {
+      setErrors(fieldErrors);
+      setPrescriptionErrors(rowErrors);
       return;
     }
 
     setStatus('submitting');
     try {
-      await submit(formData);
+      setSubmission(await submit(formData));
       setStatus('success');
       setErrors({});
+      setPrescriptionErrors({});
       setErrorMessage(null);
     } catch (error) {
       setStatus('error');
@@ -108,6 +159,15 @@ const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onC
   };
 
   if (!isOpen) return null;
+
+  const results = submission?.results ?? [];
+  const transferredCount = results.filter(result => result.success).length;
+  const resultsHeading =
+    transferredCount === results.length
+      ? 'Transfer Request Submitted!'
+      : transferredCount > 0
+        ? 'Transfer Request Partially Submitted'
+        : 'Transfer Request Needs Attention';
   
   const getInputClassName = (fieldName: keyof FormErrors) => 
     `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
@@ -118,35 +178,98 @@ const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onC
       <div className="relative bg-white w-full max-w-2xl p-8 rounded-2xl shadow-xl transform transition-all flex flex-col max-h-[90vh]">
         <div className="flex items-start justify-between border-b border-slate-200 pb-4 mb-4">
           <div>
-            <h2 id="transfer-modal-title" className="text-2xl font-bold text-slate-900">Transfer Your Prescription Out</h2>
-            <p className="mt-2 text-slate-600">Request to transfer a prescription from our pharmacy to another.</p>
+            <h2 id="transfer-modal-title" className="text-2xl font-bold text-slate-900">{MODE_COPY[mode].title}</h2>
+            <p className="mt-2 text-slate-600">{MODE_COPY[mode].description}</p>
           </div>
           <button onClick={onClose} aria-label="Close transfer prescription form" className="p-2 -mr-2 -mt-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors">
             <XIcon className="h-6 w-6" aria-hidden="true" />
           </button>
         </div>
 
-        {status === 'success' ? (
+        <div role="tablist" aria-label="Transfer direction" className="grid grid-cols-2 gap-2 p-1 mb-4 rounded-2xl bg-rose-mist">
+          {(['in', 'out'] as TransferMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={mode === option}
+              onClick={() => setMode(option)}
+              className={`py-2 px-4 rounded-xl text-sm font-semibold transition-colors ${mode === option ? 'bg-white text-burgundy shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
+            >
+              {MODE_COPY[option].tab}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'in' ? (
+          <TransferInForm onClose={onClose} />
+        ) : status === 'success' && results.length > 0 ? (
+          <div className="grow py-4 overflow-y-auto" aria-live="polite">
+            <h3 className={`text-2xl font-semibold text-center ${transferredCount === results.length ? 'text-success' : 'text-slate-900'}`}>
+              {resultsHeading}
+            </h3>
+            <p className="mt-2 text-center text-slate-600">{submission?.message}</p>
+            <ConfirmationCode code={submission?.confirmationCode} />
+            <ul className="mt-6 space-y-3">
+              {results.map((result, index) => (
+                <li key={`${result.rxNumber}-${index}`} className="rounded-xl border border-slate-200 p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-semibold text-slate-900">Rx #{result.rxNumber}</p>
+                      <p className="text-sm text-slate-500">Last filled {result.rxFillDate}</p>
+                    </div>
+                    <span className={`shrink-0 rounded-full px-3 py-1 text-xs font-semibold ${result.success ? 'bg-success/10 text-success' : 'bg-error/10 text-error'}`}>
+                      {result.success ? 'Submitted' : 'Not transferred'}
+                    </span>
+                  </div>
+                  {!result.success && <p className="mt-2 text-sm text-slate-700">{result.message}</p>}
+                </li>
+              ))}
+            </ul>
+            <button onClick={onClose} className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark">Close</button>
+          </div>
+        ) : status === 'success' ? (
           <div className="grow text-center py-8" aria-live="polite">
             <h3 className="text-2xl font-semibold text-success">Transfer Request Submitted!</h3>
             <p className="mt-2 text-slate-600">Thank you. We have received your request and will process the transfer. We will contact the destination pharmacy on your behalf.</p>
+            <ConfirmationCode code={submission?.confirmationCode} />
             <button onClick={onClose} className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark">Close</button>
           </div>
         ) : (
           <form onSubmit={handleSubmit} className="grow space-y-4 overflow-y-auto pr-2 hide-scrollbar">
             <fieldset>
-              <legend className="text-lg font-semibold text-slate-800">Prescription to Transfer</legend>
-              <div className="grid sm:grid-cols-2 gap-4 mt-2">
-                <div>
-                  <label htmlFor="transfer-rxNumber" className="block text-sm font-medium text-slate-700">Prescription Number (Rx #)</label>
-                  <input type="text" name="rxNumber" id="transfer-rxNumber" value={formData.rxNumber} onChange={handleChange} required className={getInputClassName('rxNumber')} aria-invalid={errors.rxNumber ? "true" : "false"} />
-                  {errors.rxNumber && <p className="mt-1 text-sm text-error">{errors.rxNumber}</p>}
-                </div>
-                <div>
-                  <label htmlFor="transfer-rxFillDate" className="block text-sm font-medium text-slate-700">Last Fill Date</label>
-                  <input type="date" name="rxFillDate" id="transfer-rxFillDate" value={formData.rxFillDate} onChange={handleChange} required className={getInputClassName('rxFillDate')} aria-invalid={errors.rxFillDate ? "true" : "false"} />
-                  {errors.rxFillDate && <p className="mt-1 text-sm text-error">{errors.rxFillDate}</p>}
+              <legend className="text-lg font-semibold text-slate-800">Prescriptions to Transfer</legend>
+              <div className="mt-2 space-y-3">
+                <div className="sm:w-1/2 sm:pr-2">
+                  <label htmlFor="transfer-patientDob" className="block text-sm font-medium text-slate-700">Patient Date of Birth</label>
+                  <input type="date" name="patientDob" id="transfer-patientDob" value={formData.patientDob} onChange={handleChange} required className={getInputClassName('patientDob')} aria-invalid={errors.patientDob ? "true" : "false"} />
+                  {errors.patientDob && <p className="mt-1 text-sm text-error">{errors.patientDob}</p>}
                 </div>
+                {formData.prescriptions.map((prescription, index) => (
+                  <div key={index} className="grid sm:grid-cols-[1fr_1fr_auto] gap-4 items-start">
+                    <div>
+                      <label htmlFor={`transfer-rxNumber-${index}`} className="block text-sm font-medium text-slate-700">Prescription Number (Rx #)</label>
+                      <input type="text" id={`transfer-rxNumber-${index}`} value={prescription.rxNumber} onChange={(e) => handlePrescriptionChange(index, 'rxNumber', e.target.value)} required className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${prescriptionErrors[index]?.rxNumber ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={prescriptionErrors[index]?.rxNumber ? "true" : "false"} />
+                      {prescriptionErrors[index]?.rxNumber && <p className="mt-1 text-sm text-error">{prescriptionErrors[index]?.rxNumber}</p>}
+                    </div>
+                    <div>
+                      <label htmlFor={`transfer-rxFillDate-${index}`} className="block text-sm font-medium text-slate-700">Last Fill Date</label>
+                      <input type="date" id={`transfer-rxFillDate-${index}`} value={prescription.rxFillDate} onChange={(e) => handlePrescriptionChange(index, 'rxFillDate', e.target.value)} required className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${prescriptionErrors[index]?.rxFillDate ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={prescriptionErrors[index]?.rxFillDate ? "true" : "false"} />
+                      {prescriptionErrors[index]?.rxFillDate && <p className="mt-1 text-sm text-error">{prescriptionErrors[index]?.rxFillDate}</p>}
+                    </div>
+                    {formData.prescriptions.length > 1 && (
+                      <button type="button" onClick={() => removePrescription(index)} aria-label={`Remove prescription ${index + 1}`} className="sm:mt-7 p-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors">
+                        <XIcon className="h-5 w-5" aria-hidden="true" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {errors.prescriptions && <p className="text-sm text-error">{errors.prescriptions}</p>}
+                {formData.prescriptions.length < MAX_TRANSFER_PRESCRIPTIONS && (
+                  <button type="button" onClick={addPrescription} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+                    + Add another prescription
+                  </button>
+                )}
               </div>
             </fieldset>
 
@@ -187,13 +310,14 @@ const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onC
                   </div>
                   <div>
                     <label htmlFor="transfer-pharmacyZip" className="block text-sm font-medium text-slate-700">ZIP Code</label>
-                    <input type="text" name="transferToPharmacyZip" id="transfer-pharmacyZip" value={formData.transferToPharmacyZip} onChange={handleChange} required className={getInputClassName('transferToPharmacyZip')} aria-invalid={errors.transferToPharmacyZip ? "true" : "false"} />
+                    <input type="text" inputMode="numeric" name="transferToPharmacyZip" id="transfer-pharmacyZip" value={formData.transferToPharmacyZip} onChange={handleChange} required className={getInputClassName('transferToPharmacyZip')} aria-invalid={errors.transferToPharmacyZip ? "true" : "false"} />
                     {errors.transferToPharmacyZip && <p className="mt-1 text-sm text-error">{errors.transferToPharmacyZip}</p>}
                   </div>
                 </div>
                  <div>
                     <label htmlFor="transfer-pharmacyNCPDP" className="block text-sm font-medium text-slate-700">NCPDP / NABP Number (Optional)</label>
-                    <input type="text" name="transferToPharmacyNCPDP" id="transfer-pharmacyNCPDP" value={formData.transferToPharmacyNCPDP} onChange={handleChange} className={getInputClassName('transferToPharmacyNCPDP')} />
+                    <input type="text" inputMode="numeric" maxLength={7} name="transferToPharmacyNCPDP" id="transfer-pharmacyNCPDP" value={formData.transferToPharmacyNCPDP} onChange={handleChange} className={getInputClassName('transferToPharmacyNCPDP')} aria-invalid={errors.transferToPharmacyNCPDP ? "true" : "false"} />
+                    {errors.transferToPharmacyNCPDP && <p className="mt-1 text-sm text-error">{errors.transferToPharmacyNCPDP}</p>}
                   </div>
               </div>
             </fieldset>
@@ -208,7 +332,7 @@ const TransferRequestModal: React.FC<TransferRequestModalProps> = ({ isOpen, onC
                 <input id="transfer-consent" name="consent" type="checkbox" checked={formData.consent} onChange={handleChange} required className={`focus:ring-burgundy h-4 w-4 text-burgundy rounded ${errors.consent ? 'border-red-500' : 'border-slate-300'}`} aria-invalid={errors.consent ? "true" : "false"} />
               </div>
               <div className="ml-3 text-sm">
-                <label htmlFor="transfer-consent" className="font-medium text-slate-700">I authorize Complete Healthcare Rx to transfer this prescription on my behalf.</label>
+                <label htmlFor="transfer-consent" className="font-medium text-slate-700">I authorize Complete Healthcare Rx to transfer these prescriptions on my behalf.</label>
               </div>
             </div>
             {errors.consent && <p id="transfer-consent-error" className="-mt-3 text-sm text-error">{errors.consent}</p>}
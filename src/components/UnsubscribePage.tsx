@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useNotificationUnsubscribe } from '@/lib/hooks';
+import { followLink, toHref } from '@/lib/router';
+
+// Patient notification emails link to /unsubscribe?token=<uuid>
+// (src/lib/notifications/patientNotifications.ts)
+const readToken = (): string | null => {
+  const token = new URLSearchParams(window.location.search).get('token');
+  return token && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(token) ? token : null;
+};
+
+const INVALID_LINK_MESSAGE =
+  'This unsubscribe link is not valid. Please use the link from your most recent refill update email, or call us at (614) 349-5140.';
+
+// Asks for a click rather than unsubscribing on load, so mail scanners that
+// open links do not unsubscribe patients by accident
+const UnsubscribePage: React.FC = () => {
+  const [token] = useState(readToken);
+  const [result, setResult] = useState<'unsubscribed' | 'invalid' | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { unsubscribe, status } = useNotificationUnsubscribe();
+
+  const handleUnsubscribe = async () => {
+    if (!token) return;
+    setErrorMessage(null);
+    try {
+      setResult((await unsubscribe(token)) ? 'unsubscribed' : 'invalid');
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Unable to unsubscribe. Please try again.');
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-cream py-16 md:py-24">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-xl mx-auto bg-white p-8 rounded-2xl shadow-lg text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 sm:text-3xl">Refill Update Emails</h1>
+          {!token || result === 'invalid' ? (
+            <p className="mt-4 text-slate-600">{INVALID_LINK_MESSAGE}</p>
+          ) : result === 'unsubscribed' ? (
+            <p className="mt-4 text-slate-600" aria-live="polite">
+              You will no longer get refill updates by email. You can still check on a request from our website with your confirmation code.
+            </p>
+          ) : (
+            <>
+              <p className="mt-4 text-slate-600">
+                Stop getting emails about your refill requests from Complete Healthcare Rx?
+              </p>
+              <button type="button" onClick={handleUnsubscribe} disabled={status === 'submitting'} className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                {status === 'submitting' ? 'Unsubscribing...' : 'Unsubscribe'}
+              </button>
+              {errorMessage && <p className="mt-4 text-sm text-error" aria-live="polite">{errorMessage}</p>}
+            </>
+          )}
+          <a href={toHref('/')} onClick={(e) => followLink(e, '/')} className="mt-8 inline-block text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+            Back to Complete Healthcare Rx
+          </a>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default UnsubscribePage;
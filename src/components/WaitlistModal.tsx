@@ -2,7 +2,6 @@ import React, { useState, useEffect } from 'react';
 import { WaitlistFormDataSchema } from '@/lib/schemas';
 import type { WaitlistFormData } from '@/lib/schemas';
 import { useWaitlistFormSubmission } from '@/lib/hooks';
-import { ZodError } from 'zod';
 import { XIcon } from './icons';
 
 interface WaitlistModalProps {
@@ -44,27 +43,24 @@ const WaitlistModal: React.FC<WaitlistModalProps> = ({ isOpen, onClose }) => {
     }
   };
   
-  const validate = (): FormErrors => {
-    try {
-      WaitlistFormDataSchema.parse(formData);
-      return {};
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
-        error.errors.forEach(err => {
-          const path = err.path[0] as keyof WaitlistFormData;
-          newErrors[path] = err.message;
-        });
-        return newErrors;
-      }
-      return {};
+  const validate = (): { data?: WaitlistFormData; errors: FormErrors } => {
+    const parsed = WaitlistFormDataSchema.safeParse(formData);
+    if (parsed.success) {
+      return { data: parsed.data, errors: {} };
     }
+
+    const newErrors: FormErrors = {};
+    parsed.error.errors.forEach(err => {
+      const path = err.path[0] as keyof WaitlistFormData;
+      newErrors[path] = err.message;
+    });
+    return { errors: newErrors };
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
+    const { data, errors: validationErrors } = validate();
+    if (!data) {
       setErrors(validationErrors);
       return;
     }
@@ -72,7 +68,7 @@ const WaitlistModal: React.FC<WaitlistModalProps> = ({ isOpen, onClose }) => {
     setStatus('submitting');
     setErrorMessage(null);
     try {
-      await submit(formData);
+      await submit(data);
       setStatus('success');
       setErrors({});
       setErrorMessage(null);
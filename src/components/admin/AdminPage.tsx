@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useStaffSession } from '@/lib/hooks';
+import { StaffRequestTypeSchema } from '@/lib/schemas';
+import type { StaffRequestType } from '@/lib/schemas';
+import type { InboxFilters, QueueFilters, WaitlistFilters } from '@/lib/staffService';
+import AdminSignIn from './AdminSignIn';
+import ContactInbox from './ContactInbox';
+import RequestQueue from './RequestQueue';
+import RequestDetail from './RequestDetail';
+import WaitlistQueue from './WaitlistQueue';
+import WaitlistEntryDetail from './WaitlistEntryDetail';
+
+type AdminSection = 'requests' | 'inbox' | 'waitlist';
+
+const SECTIONS: { id: AdminSection; label: string }[] = [
+  { id: 'requests', label: 'Refills & transfers' },
+  { id: 'inbox', label: 'Contact inbox' },
+  { id: 'waitlist', label: 'RPM waitlist' },
+];
+
+const DEFAULT_FILTERS: QueueFilters = {
+  sort: 'created_at',
+  descending: true,
+  page: 0,
+  pageSize: 25,
+};
+
+const DEFAULT_INBOX_FILTERS: InboxFilters = {
+  status: 'open',
+  assignee: 'all',
+  overdueOnly: false,
+  page: 0,
+  pageSize: 25,
+};
+
+const DEFAULT_WAITLIST_FILTERS: WaitlistFilters = {
+  status: 'active',
+  page: 0,
+  pageSize: 25,
+};
+
+// Staff alert emails link to ?request=refill&id=... or ?section=inbox
+// (src/lib/notifications/staffAlerts.ts)
+const readDeepLink = (): { section: AdminSection; selected: { requestType: StaffRequestType; id: string } | null } => {
+  const params = new URLSearchParams(window.location.search);
+  const requestType = StaffRequestTypeSchema.safeParse(params.get('request'));
+  const id = params.get('id');
+  if (requestType.success && id) {
+    return { section: 'requests', selected: { requestType: requestType.data, id } };
+  }
+  const section = SECTIONS.find(item => item.id === params.get('section'));
+  return { section: section?.id ?? 'requests', selected: null };
+};
+
+const AdminPage: React.FC = () => {
+  const { session, loading, isStaff, signIn, signOut, status, error } = useStaffSession();
+  const [deepLink] = useState(readDeepLink);
+  const [section, setSection] = useState<AdminSection>(deepLink.section);
+  // Kept here so returning from a request shows the same page of the queue
+  const [filters, setFilters] = useState<QueueFilters>(DEFAULT_FILTERS);
+  const [selected, setSelected] = useState<{ requestType: StaffRequestType; id: string } | null>(deepLink.selected);
+  const [inboxFilters, setInboxFilters] = useState<InboxFilters>(DEFAULT_INBOX_FILTERS);
+  const [waitlistFilters, setWaitlistFilters] = useState<WaitlistFilters>(DEFAULT_WAITLIST_FILTERS);
+  const [selectedEntry, setSelectedEntry] = useState<string | null>(null);
+
+  const handleSignOut = () => {
+    setSelected(null);
+    setSelectedEntry(null);
+    signOut().catch(err => console.error('Sign-out failed:', err));
+  };
+
+  let content: React.ReactNode;
+  if (loading) {
+    content = <p className="text-center text-slate-600">Loading...</p>;
+  } else if (!session) {
+    content = <AdminSignIn onSignIn={signIn} submitting={status === 'submitting'} error={error} />;
+  } else if (!isStaff) {
+    content = (
+      <div className="max-w-md mx-auto bg-white p-8 rounded-2xl shadow-lg text-center">
+        <p className="text-slate-900 font-semibold">{session.user.email} does not have staff access.</p>
+        <p className="mt-2 text-sm text-slate-600">Ask an administrator to grant the staff role, then sign in again.</p>
+      </div>
+    );
+  } else if (section === 'inbox') {
+    content = <ContactInbox filters={inboxFilters} onFiltersChange={setInboxFilters} currentUserId={session.user.id} />;
+  } else if (section === 'waitlist') {
+    content = selectedEntry
+      ? <WaitlistEntryDetail id={selectedEntry} onBack={() => setSelectedEntry(null)} />
+      : <WaitlistQueue filters={waitlistFilters} onFiltersChange={setWaitlistFilters} onSelect={setSelectedEntry} />;
+  } else if (selected) {
+    content = <RequestDetail requestType={selected.requestType} id={selected.id} onBack={() => setSelected(null)} />;
+  } else {
+    content = <RequestQueue filters={filters} onFiltersChange={setFilters} onSelect={(requestType, id) => setSelected({ requestType, id })} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-cream text-slate-600 font-sans">
+      <header className="bg-white border-b border-slate-200">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <p className="text-lg font-bold text-burgundy">Complete Healthcare RX &middot; Staff</p>
+          {session && (
+            <div className="flex items-center gap-4 text-sm">
+              <span className="hidden sm:inline">{session.user.email}</span>
+              <button type="button" onClick={handleSignOut} className="font-semibold text-burgundy hover:text-burgundy-dark">Sign out</button>
+            </div>
+          )}
+        </div>
+      </header>
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        {isStaff && (
+          <nav aria-label="Staff sections" className="mb-8 flex gap-2">
+            {SECTIONS.map(item => (
+              <button key={item.id} type="button" onClick={() => setSection(item.id)} aria-current={section === item.id ? 'page' : undefined} className={`py-2 px-4 rounded-2xl text-sm font-medium ${section === item.id ? 'bg-burgundy text-white' : 'bg-white text-burgundy hover:bg-slate-100'}`}>
+                {item.label}
+              </button>
+            ))}
+          </nav>
+        )}
+        {content}
+      </main>
+    </div>
+  );
+};
+
+export default AdminPage;
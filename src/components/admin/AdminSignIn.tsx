@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ZodError } from 'zod';
+import { StaffSignInFormDataSchema } from '@/lib/schemas';
+import type { StaffSignInFormData } from '@/lib/schemas';
+
+type FormErrors = Partial<Record<keyof StaffSignInFormData, string>>;
+
+interface AdminSignInProps {
+  onSignIn: (data: StaffSignInFormData) => Promise<void>;
+  submitting: boolean;
+  error: string | null;
+}
+
+const AdminSignIn: React.FC<AdminSignInProps> = ({ onSignIn, submitting, error }) => {
+  const [formData, setFormData] = useState<StaffSignInFormData>({ email: '', password: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (errors[name as keyof StaffSignInFormData]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      StaffSignInFormDataSchema.parse(formData);
+    } catch (validationError) {
+      if (validationError instanceof ZodError) {
+        const newErrors: FormErrors = {};
+        validationError.errors.forEach(err => {
+          newErrors[err.path[0] as keyof StaffSignInFormData] = err.message;
+        });
+        setErrors(newErrors);
+      }
+      return;
+    }
+
+    // The error is shown from the hook's state
+    await onSignIn(formData).catch(() => undefined);
+  };
+
+  const getInputClassName = (fieldName: keyof FormErrors) =>
+    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto bg-white p-8 rounded-2xl shadow-lg space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Staff sign in</h1>
+        <p className="mt-2 text-sm text-slate-600">For Complete Healthcare RX pharmacy staff only.</p>
+      </div>
+      <div>
+        <label htmlFor="admin-email" className="block text-sm font-medium text-slate-700">Email</label>
+        <input type="email" name="email" id="admin-email" value={formData.email} onChange={handleChange} required autoComplete="username" className={getInputClassName('email')} aria-invalid={errors.email ? "true" : "false"} aria-describedby={errors.email ? 'admin-email-error' : undefined} />
+        {errors.email && <p id="admin-email-error" className="mt-1 text-sm text-error">{errors.email}</p>}
+      </div>
+      <div>
+        <label htmlFor="admin-password" className="block text-sm font-medium text-slate-700">Password</label>
+        <input type="password" name="password" id="admin-password" value={formData.password} onChange={handleChange} required autoComplete="current-password" className={getInputClassName('password')} aria-invalid={errors.password ? "true" : "false"} aria-describedby={errors.password ? 'admin-password-error' : undefined} />
+        {errors.password && <p id="admin-password-error" className="mt-1 text-sm text-error">{errors.password}</p>}
+      </div>
+      <button type="submit" disabled={submitting} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+        {submitting ? 'Signing in...' : 'Sign in'}
+      </button>
+      {error && <p className="text-center text-sm text-error" aria-live="polite">{error}</p>}
+    </form>
+  );
+};
+
+export default AdminSignIn;
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { ContactMessageStatusSchema } from '@/lib/schemas';
+import type { ContactMessageStatus, ContactQueue, StaffContactMessage, StaffTeamMember } from '@/lib/schemas';
+import {
+  assignContactMessage,
+  listContactMessages,
+  listContactQueues,
+  listStaffTeam,
+  setContactMessageStatus,
+} from '@/lib/staffService';
+import type { InboxAssigneeFilter, InboxFilters } from '@/lib/staffService';
+import {
+  CONTACT_MESSAGE_STATUS_CLASSES,
+  CONTACT_MESSAGE_STATUS_LABELS,
+  CONTACT_REASON_LABELS,
+  formatDateTime,
+} from './statusLabels';
+
+interface ContactInboxProps {
+  filters: InboxFilters;
+  onFiltersChange: (filters: InboxFilters) => void;
+  currentUserId: string;
+}
+
+// Mirrors enforce_contact_message_workflow in migration 017
+const STATUS_ACTIONS: Record<ContactMessageStatus, { status: ContactMessageStatus; label: string }[]> = {
+  open: [{ status: 'replied', label: 'Mark replied' }, { status: 'closed', label: 'Close' }],
+  replied: [{ status: 'closed', label: 'Close' }, { status: 'open', label: 'Reopen' }],
+  closed: [{ status: 'open', label: 'Reopen' }],
+};
+
+const ASSIGNEE_FILTERS: { value: InboxAssigneeFilter; label: string }[] = [
+  { value: 'all', label: 'Anyone' },
+  { value: 'mine', label: 'Assigned to me' },
+  { value: 'unassigned', label: 'Unassigned' },
+];
+
+const selectClassName =
+  'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+const formatSla = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} store hour${minutes === 60 ? '' : 's'}` : `${minutes} store minutes`;
+
+const ContactInbox: React.FC<ContactInboxProps> = ({ filters, onFiltersChange, currentUserId }) => {
+  const [queues, setQueues] = useState<ContactQueue[]>([]);
+  const [team, setTeam] = useState<StaffTeamMember[]>([]);
+  const [items, setItems] = useState<StaffContactMessage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    Promise.all([listContactQueues(), listStaffTeam()])
+      .then(([foundQueues, members]) => {
+        setQueues(foundQueues);
+        setTeam(members);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unable to load the inbox queues.'));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listContactMessages(filters, currentUserId)
+      .then(page => {
+        if (cancelled) return;
+        setItems(page.items);
+        setTotal(page.total);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load messages.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, currentUserId, reloadKey]);
+
+  // Any filter change starts again at the first page
+  const updateFilters = (changes: Partial<InboxFilters>) => onFiltersChange({ ...filters, page: 0, ...changes });
+
+  const save = async (id: string, action: () => Promise<void>) => {
+    setSavingId(id);
+    setError(null);
+    try {
+      await action();
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the message.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const queueName = (id: string | null) => queues.find(queue => queue.id === id)?.name ?? 'Unrouted';
+  const pageCount = Math.max(1, Math.ceil(total / filters.pageSize));
+
+  return (
+    <section aria-labelledby="inbox-heading">
+      <h1 id="inbox-heading" className="text-2xl font-bold text-slate-900">Contact inbox</h1>
+      {queues.length > 0 && (
+        <p className="mt-2 text-sm text-slate-600">
+          First replies are due within {queues.map(queue => `${formatSla(queue.slaBusinessMinutes)} (${queue.name})`).join(', ')}.
+        </p>
+      )}
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor="inbox-queue" className="block text-sm font-medium text-slate-700">Queue</label>
+          <select id="inbox-queue" value={filters.queueId ?? ''} onChange={e => updateFilters({ queueId: e.target.value || undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {queues.map(queue => <option key={queue.id} value={queue.id}>{queue.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="inbox-status" className="block text-sm font-medium text-slate-700">Status</label>
+          <select id="inbox-status" value={filters.status ?? ''} onChange={e => updateFilters({ status: (e.target.value || undefined) as ContactMessageStatus | undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {ContactMessageStatusSchema.options.map(status => <option key={status} value={status}>{CONTACT_MESSAGE_STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="inbox-assignee" className="block text-sm font-medium text-slate-700">Assignee</label>
+          <select id="inbox-assignee" value={filters.assignee} onChange={e => updateFilters({ assignee: e.target.value as InboxAssigneeFilter })} className={selectClassName}>
+            {ASSIGNEE_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 sm:mt-6">
+          <input type="checkbox" checked={filters.overdueOnly} onChange={e => updateFilters({ overdueOnly: e.target.checked })} />
+          Overdue only
+        </label>
+      </div>
+
+      {error && <p className="mt-6 text-sm text-error" aria-live="polite">{error}</p>}
+
+      <ul className="mt-6 space-y-4">
+        {items.map(item => (
+          <li key={item.id} className={`bg-white p-6 rounded-2xl shadow-lg ${item.isOverdue ? 'border-l-4 border-error' : ''}`}>
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="font-semibold text-slate-900">{item.name ?? 'Anonymized'}</p>
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${CONTACT_MESSAGE_STATUS_CLASSES[item.status]}`}>
+                {CONTACT_MESSAGE_STATUS_LABELS[item.status]}
+              </span>
+              {item.isOverdue && <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-error">Overdue</span>}
+              <span className="text-sm text-slate-500">{queueName(item.queueId)} &middot; {CONTACT_REASON_LABELS[item.reason]}</span>
+            </div>
+            <p className="mt-1 text-sm text-slate-600">
+              {item.email && <a href={`mailto:${item.email}`} className="hover:text-burgundy">{item.email}</a>}
+              {item.phone && <> &middot; <a href={`tel:${item.phone}`} className="hover:text-burgundy">{item.phone}</a></>}
+            </p>
+            <p className="mt-3 whitespace-pre-line text-slate-900">{item.message}</p>
+            <p className="mt-3 text-sm text-slate-500">
+              Received {formatDateTime(item.createdAt)}
+              {item.firstRepliedAt
+                ? ` · first reply ${formatDateTime(item.firstRepliedAt)}`
+                : item.slaDueAt && ` · reply due ${formatDateTime(item.slaDueAt)}`}
+              {item.closedAt && ` · closed ${formatDateTime(item.closedAt)}`}
+            </p>
+
+            <div className="mt-4 flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor={`assignee-${item.id}`} className="block text-sm font-medium text-slate-700">Assigned to</label>
+                <select id={`assignee-${item.id}`} value={item.assignedTo ?? ''} disabled={savingId === item.id} onChange={e => save(item.id, () => assignContactMessage(item.id, e.target.value || null))} className={selectClassName}>
+                  <option value="">Unassigned</option>
+                  {team.map(member => <option key={member.id} value={member.id}>{member.email ?? member.id.slice(0, 8)}</option>)}
+                </select>
+              </div>
+              {STATUS_ACTIONS[item.status].map(action => (
+                <button key={action.status} type="button" disabled={savingId === item.id} onClick={() => save(item.id, () => setContactMessageStatus(item.id, action.status))} className="py-2 px-4 rounded-2xl text-sm font-medium border border-burgundy text-burgundy hover:bg-cream disabled:border-slate-300 disabled:text-slate-400">
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+        {!loading && items.length === 0 && (
+          <li className="bg-white p-8 rounded-2xl shadow-lg text-center text-slate-500">No messages match these filters.</li>
+        )}
+      </ul>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+        <p aria-live="polite">{loading ? 'Loading...' : `${total} message${total === 1 ? '' : 's'}`}</p>
+        <div className="flex items-center gap-3">
+          <button type="button" disabled={filters.page === 0} onClick={() => onFiltersChange({ ...filters, page: filters.page - 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Previous</button>
+          <span>Page {filters.page + 1} of {pageCount}</span>
+          <button type="button" disabled={filters.page + 1 >= pageCount} onClick={() => onFiltersChange({ ...filters, page: filters.page + 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Next</button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ContactInbox;
@@ -0,0 +1,275 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { mapBestRXError } from '@/lib/bestrx';
+import type {
+  PatientNotification,
+  RequestStatus,
+  RequestStatusHistoryEntry,
+  StaffRequestDetail,
+  StaffRequestType,
+  StoredRxResult,
+} from '@/lib/schemas';
+import {
+  getNextStatuses,
+  getPatientNotifications,
+  getRequest,
+  getStatusHistory,
+  setRequestStatus,
+} from '@/lib/staffService';
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  PATIENT_NOTIFICATION_EVENT_LABELS,
+  PATIENT_NOTIFICATION_STATUS_CLASSES,
+  PATIENT_NOTIFICATION_STATUS_LABELS,
+  REQUEST_STATUS_LABELS,
+  REQUEST_TYPE_LABELS,
+  SUBMISSION_STATUS_CLASSES,
+  SUBMISSION_STATUS_LABELS,
+  formatDateTime,
+} from './statusLabels';
+
+interface RequestDetailProps {
+  requestType: StaffRequestType;
+  id: string;
+  onBack: () => void;
+}
+
+const Field: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div>
+    <dt className="text-sm font-medium text-slate-500">{label}</dt>
+    <dd className="mt-1 text-slate-900">{value || '—'}</dd>
+  </div>
+);
+
+// Refills report an outcome, transfers a success flag
+const isAccepted = (result: StoredRxResult) => result.outcome ? result.outcome === 'ok' : Boolean(result.success);
+
+const RxResult: React.FC<{ result: StoredRxResult | null }> = ({ result }) => {
+  if (!result) return <span className="text-slate-500">Not sent yet</span>;
+  if (isAccepted(result)) return <span className="font-medium text-success">Accepted</span>;
+
+  return (
+    <div>
+      <p className="font-medium text-error">Not accepted{result.errorCode && ` (${result.errorCode})`}</p>
+      <p className="text-sm text-slate-600">{mapBestRXError(result.errorCode ?? undefined)}</p>
+      {result.message && result.message !== mapBestRXError(result.errorCode ?? undefined) && (
+        <p className="text-sm text-slate-500">Shown to patient: {result.message}</p>
+      )}
+    </div>
+  );
+};
+
+const RequestDetail: React.FC<RequestDetailProps> = ({ requestType, id, onBack }) => {
+  const [request, setRequest] = useState<StaffRequestDetail | null>(null);
+  const [history, setHistory] = useState<RequestStatusHistoryEntry[]>([]);
+  const [notifications, setNotifications] = useState<PatientNotification[]>([]);
+  const [nextStatuses, setNextStatuses] = useState<RequestStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newStatus, setNewStatus] = useState<RequestStatus | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [found, entries, sent] = await Promise.all([
+        getRequest(requestType, id),
+        getStatusHistory(requestType, id),
+        requestType === 'refill' ? getPatientNotifications(id) : Promise.resolve([]),
+      ]);
+      setRequest(found);
+      setHistory(entries);
+      setNotifications(sent);
+      setNextStatuses(found ? await getNextStatuses(requestType, found.status, found.preferredService) : []);
+      setNewStatus('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load this request.');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestType, id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleStatusChange = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newStatus) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await setRequestStatus(requestType, id, newStatus, note.trim());
+      setNote('');
+      await load();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Unable to change the status.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Refill results are stored on the request, transfer results on each prescription
+  const refillResults = request?.submissionResult?.results ?? [];
+  const resultFor = (rxNumber: string, stored: StoredRxResult | null) =>
+    stored ?? refillResults.find(result => result.rxNumber === rxNumber) ?? null;
+
+  return (
+    <section aria-labelledby="request-heading">
+      <button type="button" onClick={onBack} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">&larr; Back to queue</button>
+
+      {loading && <p className="mt-6 text-slate-600">Loading...</p>}
+      {error && <p className="mt-6 text-sm text-error" aria-live="polite">{error}</p>}
+      {!loading && !error && !request && <p className="mt-6 text-slate-600">This request no longer exists.</p>}
+
+      {request && (
+        <div className="mt-4 space-y-6">
+          <div className="flex flex-wrap items-baseline gap-3">
+            <h1 id="request-heading" className="text-2xl font-bold text-slate-900">
+              {REQUEST_TYPE_LABELS[requestType]} {request.confirmationCode}
+            </h1>
+            <span className="text-slate-600">{REQUEST_STATUS_LABELS[request.status]}</span>
+            {request.legalHold && <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">Legal hold</span>}
+            {request.anonymizedAt && <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">Anonymized {formatDateTime(request.anonymizedAt)}</span>}
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h2 className="text-lg font-semibold text-slate-900">Patient</h2>
+            <dl className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {requestType === 'refill' && <Field label="Name" value={request.patientName} />}
+              <Field label="Date of birth" value={request.dob} />
+              {requestType === 'refill' && (
+                <>
+                  <Field label="Phone" value={request.phone} />
+                  <Field label="Email" value={request.email} />
+                  <Field label="Service" value={request.preferredService === 'delivery' ? 'Delivery' : 'Pickup'} />
+                  <Field label="Updates by" value={request.notificationChannel && NOTIFICATION_CHANNEL_LABELS[request.notificationChannel]} />
+                  <Field label="Notes" value={request.notes} />
+                </>
+              )}
+              {request.transferToPharmacy && (
+                <>
+                  <Field label="Transfer to" value={request.transferToPharmacy.name} />
+                  <Field label="Address" value={request.transferToPharmacy.address} />
+                  <Field label="Pharmacy phone" value={request.transferToPharmacy.phone} />
+                  <Field label="NCPDP" value={request.transferToPharmacy.ncpdp} />
+                  <Field label="Remark" value={request.transferRemark} />
+                </>
+              )}
+              <Field label="Received" value={formatDateTime(request.createdAt)} />
+            </dl>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-lg font-semibold text-slate-900">BestRX submission</h2>
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${SUBMISSION_STATUS_CLASSES[request.submissionStatus]}`}>
+                {SUBMISSION_STATUS_LABELS[request.submissionStatus]}
+              </span>
+            </div>
+            <dl className="mt-4 grid gap-4 sm:grid-cols-3">
+              <Field label="Attempts" value={String(request.submissionAttempts)} />
+              <Field label="Accepted" value={request.submittedAt && formatDateTime(request.submittedAt)} />
+              <Field label="Next attempt" value={request.submissionStatus === 'pending' && formatDateTime(request.nextAttemptAt)} />
+            </dl>
+            {request.lastSubmissionError && (
+              <p className="mt-4 text-sm text-error">Last error: {request.lastSubmissionError}</p>
+            )}
+            <table className="mt-6 min-w-full text-left text-sm">
+              <thead className="border-b border-slate-200 text-slate-500">
+                <tr>
+                  <th scope="col" className="py-2 pr-4 font-semibold">Rx number</th>
+                  <th scope="col" className="py-2 pr-4 font-semibold">{requestType === 'refill' ? 'Medication' : 'Last fill'}</th>
+                  <th scope="col" className="py-2 font-semibold">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {request.prescriptions.map(item => (
+                  <tr key={item.rxNumber} className="border-b border-slate-100 last:border-0 align-top">
+                    <td className="py-3 pr-4 font-medium text-slate-900">{item.rxNumber}</td>
+                    <td className="py-3 pr-4">{(requestType === 'refill' ? item.medicationName : item.rxFillDate) || '—'}</td>
+                    <td className="py-3"><RxResult result={resultFor(item.rxNumber, item.result)} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h2 className="text-lg font-semibold text-slate-900">Status</h2>
+            {nextStatuses.length > 0 ? (
+              <form onSubmit={handleStatusChange} className="mt-4 grid gap-4 sm:grid-cols-[12rem_1fr_auto] sm:items-end">
+                <div>
+                  <label htmlFor="request-status" className="block text-sm font-medium text-slate-700">Move to</label>
+                  <select id="request-status" value={newStatus} onChange={e => setNewStatus(e.target.value as RequestStatus | '')} required className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy">
+                    <option value="">Choose a status</option>
+                    {nextStatuses.map(status => <option key={status} value={status}>{REQUEST_STATUS_LABELS[status]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="request-note" className="block text-sm font-medium text-slate-700">Note (optional)</label>
+                  <input type="text" id="request-note" value={note} onChange={e => setNote(e.target.value)} maxLength={1000} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy" />
+                </div>
+                <button type="submit" disabled={saving || !newStatus} className="py-2 px-4 rounded-2xl text-white font-medium bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                  {saving ? 'Saving...' : 'Update status'}
+                </button>
+              </form>
+            ) : (
+              <p className="mt-2 text-sm text-slate-600">This request is closed.</p>
+            )}
+            {saveError && <p className="mt-2 text-sm text-error" aria-live="polite">{saveError}</p>}
+
+            <ol className="mt-6 space-y-3">
+              {history.map(entry => (
+                <li key={entry.id} className="text-sm">
+                  <p className="text-slate-900">
+                    <span className="font-semibold">{REQUEST_STATUS_LABELS[entry.toStatus]}</span>
+                    {entry.fromStatus && <span className="text-slate-500"> from {REQUEST_STATUS_LABELS[entry.fromStatus]}</span>}
+                  </p>
+                  <p className="text-slate-500">
+                    {formatDateTime(entry.changedAt)} &middot; {entry.changedBy ? `staff ${entry.changedBy.slice(0, 8)}` : entry.changedByRole}
+                  </p>
+                  {entry.note && <p className="text-slate-600">{entry.note}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {requestType === 'refill' && (
+            <div className="bg-white p-6 rounded-2xl shadow-lg">
+              <h2 className="text-lg font-semibold text-slate-900">Patient notifications</h2>
+              {notifications.length === 0 ? (
+                <p className="mt-2 text-sm text-slate-600">
+                  {request.notificationChannel === 'none' ? 'The patient asked not to be notified.' : 'Nothing sent yet. The patient is notified when the refill is ready or cannot be filled.'}
+                </p>
+              ) : (
+                <ol className="mt-4 space-y-3">
+                  {notifications.map(item => (
+                    <li key={item.id} className="text-sm">
+                      <p className="flex flex-wrap items-center gap-2 text-slate-900">
+                        <span className="font-semibold">{PATIENT_NOTIFICATION_EVENT_LABELS[item.event]}</span>
+                        <span className="text-slate-500">by {NOTIFICATION_CHANNEL_LABELS[item.channel].toLowerCase()}</span>
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${PATIENT_NOTIFICATION_STATUS_CLASSES[item.status]}`}>
+                          {PATIENT_NOTIFICATION_STATUS_LABELS[item.status]}
+                        </span>
+                      </p>
+                      <p className="text-slate-500">
+                        {formatDateTime(item.sentAt ?? item.createdAt)}{item.attempts > 1 && ` · ${item.attempts} attempts`}
+                      </p>
+                      {item.lastError && <p className="text-slate-600">{item.lastError}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RequestDetail;
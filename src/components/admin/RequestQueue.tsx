@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { RequestStatusSchema, StaffRequestTypeSchema, SubmissionStatusSchema } from '@/lib/schemas';
+import type { RequestStatus, StaffQueueItem, StaffRequestType, SubmissionStatus } from '@/lib/schemas';
+import { listRequests } from '@/lib/staffService';
+import type { QueueFilters, QueueSortField } from '@/lib/staffService';
+import {
+  REQUEST_STATUS_LABELS,
+  REQUEST_TYPE_LABELS,
+  SUBMISSION_STATUS_CLASSES,
+  SUBMISSION_STATUS_LABELS,
+  formatDateTime,
+} from './statusLabels';
+
+interface RequestQueueProps {
+  filters: QueueFilters;
+  onFiltersChange: (filters: QueueFilters) => void;
+  onSelect: (requestType: StaffRequestType, id: string) => void;
+}
+
+const COLUMNS: { label: string; sort?: QueueSortField }[] = [
+  { label: 'Code', sort: 'confirmation_code' },
+  { label: 'Type' },
+  { label: 'Patient / destination' },
+  { label: 'Rx' },
+  { label: 'Status', sort: 'request_status' },
+  { label: 'BestRX', sort: 'submission_status' },
+  { label: 'Received', sort: 'created_at' },
+  { label: 'Updated', sort: 'updated_at' },
+];
+
+const selectClassName =
+  'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+const RequestQueue: React.FC<RequestQueueProps> = ({ filters, onFiltersChange, onSelect }) => {
+  const [items, setItems] = useState<StaffQueueItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [codeSearch, setCodeSearch] = useState(filters.confirmationCode ?? '');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listRequests(filters)
+      .then(page => {
+        if (cancelled) return;
+        setItems(page.items);
+        setTotal(page.total);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load requests.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  // Any filter change starts again at the first page
+  const updateFilters = (changes: Partial<QueueFilters>) => onFiltersChange({ ...filters, page: 0, ...changes });
+
+  const handleSort = (sort: QueueSortField) => {
+    updateFilters({ sort, descending: filters.sort === sort ? !filters.descending : true });
+  };
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    updateFilters({ confirmationCode: codeSearch.trim() || undefined });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / filters.pageSize));
+
+  return (
+    <section aria-labelledby="queue-heading">
+      <h1 id="queue-heading" className="text-2xl font-bold text-slate-900">Refill and transfer queue</h1>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor="queue-type" className="block text-sm font-medium text-slate-700">Type</label>
+          <select id="queue-type" value={filters.requestType ?? ''} onChange={e => updateFilters({ requestType: (e.target.value || undefined) as StaffRequestType | undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {StaffRequestTypeSchema.options.map(type => <option key={type} value={type}>{REQUEST_TYPE_LABELS[type]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="queue-status" className="block text-sm font-medium text-slate-700">Status</label>
+          <select id="queue-status" value={filters.status ?? ''} onChange={e => updateFilters({ status: (e.target.value || undefined) as RequestStatus | undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {RequestStatusSchema.options.map(status => <option key={status} value={status}>{REQUEST_STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="queue-submission" className="block text-sm font-medium text-slate-700">BestRX submission</label>
+          <select id="queue-submission" value={filters.submissionStatus ?? ''} onChange={e => updateFilters({ submissionStatus: (e.target.value || undefined) as SubmissionStatus | undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {SubmissionStatusSchema.options.map(status => <option key={status} value={status}>{SUBMISSION_STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+        <form onSubmit={handleSearch}>
+          <label htmlFor="queue-code" className="block text-sm font-medium text-slate-700">Confirmation code</label>
+          <input type="search" id="queue-code" value={codeSearch} onChange={e => setCodeSearch(e.target.value)} placeholder="RF-7K3M" className={`${selectClassName} uppercase`} />
+        </form>
+      </div>
+
+      {error && <p className="mt-6 text-sm text-error" aria-live="polite">{error}</p>}
+
+      <div className="mt-6 overflow-x-auto bg-white rounded-2xl shadow-lg">
+        <table className="min-w-full text-left text-sm">
+          <thead className="border-b border-slate-200 text-slate-500">
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.label} scope="col" className="px-4 py-3 font-semibold" aria-sort={column.sort && filters.sort === column.sort ? (filters.descending ? 'descending' : 'ascending') : undefined}>
+                  {column.sort ? (
+                    <button type="button" onClick={() => handleSort(column.sort!)} className="font-semibold hover:text-burgundy">
+                      {column.label}{filters.sort === column.sort ? (filters.descending ? ' ↓' : ' ↑') : ''}
+                    </button>
+                  ) : column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={`${item.requestType}-${item.id}`} className="border-b border-slate-100 last:border-0 hover:bg-cream">
+                <td className="px-4 py-3 font-semibold text-slate-900 whitespace-nowrap">
+                  <button type="button" onClick={() => onSelect(item.requestType, item.id)} className="text-burgundy hover:text-burgundy-dark underline">
+                    {item.confirmationCode ?? 'No code'}
+                  </button>
+                  {item.legalHold && <span className="ml-2 text-xs font-medium text-slate-500">Legal hold</span>}
+                </td>
+                <td className="px-4 py-3">{REQUEST_TYPE_LABELS[item.requestType]}{item.preferredService && ` (${item.preferredService})`}</td>
+                <td className="px-4 py-3">{item.patientName ?? item.transferToPharmacyName ?? '—'}</td>
+                <td className="px-4 py-3">{item.prescriptionCount}</td>
+                <td className="px-4 py-3">{REQUEST_STATUS_LABELS[item.status]}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${SUBMISSION_STATUS_CLASSES[item.submissionStatus]}`}>
+                    {SUBMISSION_STATUS_LABELS[item.submissionStatus]}
+                  </span>
+                  {item.submissionAttempts > 1 && <span className="ml-2 text-xs text-slate-500">{item.submissionAttempts} attempts</span>}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(item.createdAt)}</td>
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(item.updatedAt)}</td>
+              </tr>
+            ))}
+            {!loading && items.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} className="px-4 py-8 text-center text-slate-500">No requests match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+        <p aria-live="polite">{loading ? 'Loading...' : `${total} request${total === 1 ? '' : 's'}`}</p>
+        <div className="flex items-center gap-3">
+          <button type="button" disabled={filters.page === 0} onClick={() => onFiltersChange({ ...filters, page: filters.page - 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Previous</button>
+          <span>Page {filters.page + 1} of {pageCount}</span>
+          <button type="button" disabled={filters.page + 1 >= pageCount} onClick={() => onFiltersChange({ ...filters, page: filters.page + 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Next</button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RequestQueue;
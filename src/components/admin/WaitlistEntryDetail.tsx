@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ZodError } from 'zod';
+import {
+  WaitlistContactAttemptFormDataSchema,
+  WaitlistContactChannelSchema,
+  WaitlistContactOutcomeSchema,
+} from '@/lib/schemas';
+import type {
+  StaffWaitlistEntry,
+  WaitlistContactAttempt,
+  WaitlistContactAttemptFormData,
+  WaitlistContactChannel,
+  WaitlistContactOutcome,
+} from '@/lib/schemas';
+import {
+  enrollWaitlistEntry,
+  getWaitlistContactAttempts,
+  getWaitlistEntry,
+  recordWaitlistContact,
+} from '@/lib/staffService';
+import {
+  CONTACT_CHANNEL_LABELS,
+  CONTACT_OUTCOME_LABELS,
+  WAITLIST_STATUS_CLASSES,
+  WAITLIST_STATUS_LABELS,
+  formatDateTime,
+} from './statusLabels';
+
+interface WaitlistEntryDetailProps {
+  id: string;
+  onBack: () => void;
+}
+
+const EMPTY_ATTEMPT: WaitlistContactAttemptFormData = { channel: 'phone', outcome: 'reached', note: '' };
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+const Field: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div>
+    <dt className="text-sm font-medium text-slate-500">{label}</dt>
+    <dd className="mt-1 text-slate-900">{value || '—'}</dd>
+  </div>
+);
+
+const WaitlistEntryDetail: React.FC<WaitlistEntryDetailProps> = ({ id, onBack }) => {
+  const [entry, setEntry] = useState<StaffWaitlistEntry | null>(null);
+  const [attempts, setAttempts] = useState<WaitlistContactAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState<WaitlistContactAttemptFormData>(EMPTY_ATTEMPT);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [found, logged] = await Promise.all([getWaitlistEntry(id), getWaitlistContactAttempts(id)]);
+      setEntry(found);
+      setAttempts(logged);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load this entry.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordAttempt = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      WaitlistContactAttemptFormDataSchema.parse(attempt);
+    } catch (validationError) {
+      if (validationError instanceof ZodError) {
+        setSaveError(validationError.errors[0]?.message ?? 'Check the contact attempt.');
+      }
+      return;
+    }
+
+    await save(async () => {
+      await recordWaitlistContact(id, attempt);
+      setAttempt(EMPTY_ATTEMPT);
+    }, 'Unable to record the contact attempt.');
+  };
+
+  const handleEnroll = () => save(() => enrollWaitlistEntry(id), 'Unable to enroll this patient.');
+
+  const editable = entry !== null && entry.anonymizedAt === null;
+
+  return (
+    <section aria-labelledby="waitlist-entry-heading">
+      <button type="button" onClick={onBack} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">&larr; Back to waitlist</button>
+
+      {loading && <p className="mt-6 text-slate-600">Loading...</p>}
+      {error && <p className="mt-6 text-sm text-error" aria-live="polite">{error}</p>}
+      {!loading && !error && !entry && <p className="mt-6 text-slate-600">This entry no longer exists.</p>}
+
+      {entry && (
+        <div className="mt-4 space-y-6">
+          <div className="flex flex-wrap items-baseline gap-3">
+            <h1 id="waitlist-entry-heading" className="text-2xl font-bold text-slate-900">{entry.name ?? 'Waitlist entry'}</h1>
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${WAITLIST_STATUS_CLASSES[entry.status]}`}>
+              {WAITLIST_STATUS_LABELS[entry.status]}
+            </span>
+            {entry.legalHold && <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">Legal hold</span>}
+            {entry.anonymizedAt && <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">Anonymized {formatDateTime(entry.anonymizedAt)}</span>}
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <Field label="Email" value={entry.email} />
+              <Field label="Phone" value={entry.phone} />
+              <Field label="Joined" value={formatDateTime(entry.createdAt)} />
+              <Field label="Contacted" value={entry.contactedAt && formatDateTime(entry.contactedAt)} />
+              <Field label="Enrolled" value={entry.enrolledAt && formatDateTime(entry.enrolledAt)} />
+            </dl>
+            {editable && entry.status === 'contacted' && (
+              <button type="button" onClick={handleEnroll} disabled={saving} className="mt-6 py-2 px-4 rounded-2xl text-white font-medium bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                {saving ? 'Saving...' : 'Enroll in RPM'}
+              </button>
+            )}
+            {editable && entry.status === 'active' && (
+              <p className="mt-6 text-sm text-slate-600">A patient can be enrolled once they have been contacted.</p>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-lg">
+            <h2 className="text-lg font-semibold text-slate-900">Contact attempts</h2>
+            {editable && (
+              <form onSubmit={handleRecordAttempt} className="mt-4 grid gap-4 sm:grid-cols-[10rem_10rem_1fr_auto] sm:items-end">
+                <div>
+                  <label htmlFor="attempt-channel" className="block text-sm font-medium text-slate-700">Channel</label>
+                  <select id="attempt-channel" value={attempt.channel} onChange={e => setAttempt(prev => ({ ...prev, channel: e.target.value as WaitlistContactChannel }))} className={inputClassName}>
+                    {WaitlistContactChannelSchema.options.map(channel => <option key={channel} value={channel}>{CONTACT_CHANNEL_LABELS[channel]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="attempt-outcome" className="block text-sm font-medium text-slate-700">Outcome</label>
+                  <select id="attempt-outcome" value={attempt.outcome} onChange={e => setAttempt(prev => ({ ...prev, outcome: e.target.value as WaitlistContactOutcome }))} className={inputClassName}>
+                    {WaitlistContactOutcomeSchema.options.map(outcome => <option key={outcome} value={outcome}>{CONTACT_OUTCOME_LABELS[outcome]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="attempt-note" className="block text-sm font-medium text-slate-700">Note (optional)</label>
+                  <input type="text" id="attempt-note" value={attempt.note} onChange={e => setAttempt(prev => ({ ...prev, note: e.target.value }))} maxLength={2000} className={inputClassName} />
+                </div>
+                <button type="submit" disabled={saving} className="py-2 px-4 rounded-2xl text-white font-medium bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                  {saving ? 'Saving...' : 'Record attempt'}
+                </button>
+              </form>
+            )}
+            {saveError && <p className="mt-2 text-sm text-error" aria-live="polite">{saveError}</p>}
+
+            {attempts.length === 0 ? (
+              <p className="mt-6 text-sm text-slate-600">No contact attempts yet.</p>
+            ) : (
+              <ol className="mt-6 space-y-3">
+                {attempts.map(item => (
+                  <li key={item.id} className="text-sm">
+                    <p className="text-slate-900">
+                      <span className="font-semibold">{CONTACT_OUTCOME_LABELS[item.outcome]}</span>
+                      <span className="text-slate-500"> by {CONTACT_CHANNEL_LABELS[item.channel].toLowerCase()}</span>
+                    </p>
+                    <p className="text-slate-500">
+                      {formatDateTime(item.attemptedAt)}{item.attemptedBy && ` · staff ${item.attemptedBy.slice(0, 8)}`}
+                    </p>
+                    {item.note && <p className="text-slate-600">{item.note}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default WaitlistEntryDetail;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { WaitlistStatusSchema } from '@/lib/schemas';
+import type { StaffWaitlistItem, WaitlistStatus } from '@/lib/schemas';
+import { listWaitlist, markWaitlistContacted, toWaitlistCsv } from '@/lib/staffService';
+import type { WaitlistFilters } from '@/lib/staffService';
+import { WAITLIST_STATUS_CLASSES, WAITLIST_STATUS_LABELS, formatDateTime } from './statusLabels';
+
+interface WaitlistQueueProps {
+  filters: WaitlistFilters;
+  onFiltersChange: (filters: WaitlistFilters) => void;
+  onSelect: (id: string) => void;
+}
+
+const selectClassName =
+  'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+const downloadCsv = (items: StaffWaitlistItem[]) => {
+  const url = URL.createObjectURL(new Blob([toWaitlistCsv(items)], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rpm-waitlist-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const WaitlistQueue: React.FC<WaitlistQueueProps> = ({ filters, onFiltersChange, onSelect }) => {
+  const [items, setItems] = useState<StaffWaitlistItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState(filters.search ?? '');
+  // Keyed by id so a selection survives paging and filtering
+  const [selected, setSelected] = useState<Map<string, StaffWaitlistItem>>(new Map());
+  const [marking, setMarking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listWaitlist(filters)
+      .then(page => {
+        if (cancelled) return;
+        setItems(page.items);
+        setTotal(page.total);
+        // Keep selected rows current so an export reflects the latest status
+        setSelected(prev => {
+          const next = new Map(prev);
+          page.items.forEach(item => {
+            if (next.has(item.id)) next.set(item.id, item);
+          });
+          return next;
+        });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load the waitlist.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, reloadKey]);
+
+  // Any filter change starts again at the first page
+  const updateFilters = (changes: Partial<WaitlistFilters>) => onFiltersChange({ ...filters, page: 0, ...changes });
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    updateFilters({ search: search.trim() || undefined });
+  };
+
+  const toggle = (item: StaffWaitlistItem) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.set(item.id, item);
+      }
+      return next;
+    });
+  };
+
+  const allOnPageSelected = items.length > 0 && items.every(item => selected.has(item.id));
+
+  const togglePage = () => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      items.forEach(item => {
+        if (allOnPageSelected) {
+          next.delete(item.id);
+        } else {
+          next.set(item.id, item);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleMarkContacted = async () => {
+    setMarking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const moved = await markWaitlistContacted([...selected.keys()]);
+      const skipped = selected.size - moved;
+      setNotice(`Marked ${moved} ${moved === 1 ? 'entry' : 'entries'} as contacted${skipped > 0 ? `; ${skipped} already contacted or enrolled` : ''}.`);
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the selected entries.');
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / filters.pageSize));
+
+  return (
+    <section aria-labelledby="waitlist-heading">
+      <h1 id="waitlist-heading" className="text-2xl font-bold text-slate-900">RPM waitlist</h1>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor="waitlist-status" className="block text-sm font-medium text-slate-700">Status</label>
+          <select id="waitlist-status" value={filters.status ?? ''} onChange={e => updateFilters({ status: (e.target.value || undefined) as WaitlistStatus | undefined })} className={selectClassName}>
+            <option value="">All</option>
+            {WaitlistStatusSchema.options.map(status => <option key={status} value={status}>{WAITLIST_STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+        <form onSubmit={handleSearch} className="lg:col-span-2">
+          <label htmlFor="waitlist-search" className="block text-sm font-medium text-slate-700">Name, email or phone</label>
+          <input type="search" id="waitlist-search" value={search} onChange={e => setSearch(e.target.value)} className={selectClassName} />
+        </form>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-slate-600">{selected.size} selected</span>
+        <button type="button" disabled={selected.size === 0 || marking} onClick={handleMarkContacted} className="py-2 px-4 rounded-2xl text-white font-medium bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+          {marking ? 'Saving...' : 'Mark as contacted'}
+        </button>
+        <button type="button" disabled={selected.size === 0} onClick={() => downloadCsv([...selected.values()])} className="py-2 px-4 rounded-2xl font-medium border border-burgundy text-burgundy hover:bg-cream disabled:border-slate-300 disabled:text-slate-400">
+          Export CSV
+        </button>
+        {selected.size > 0 && (
+          <button type="button" onClick={() => setSelected(new Map())} className="font-semibold text-burgundy hover:text-burgundy-dark">Clear selection</button>
+        )}
+      </div>
+
+      {notice && <p className="mt-4 text-sm text-success" aria-live="polite">{notice}</p>}
+      {error && <p className="mt-4 text-sm text-error" aria-live="polite">{error}</p>}
+
+      <div className="mt-6 overflow-x-auto bg-white rounded-2xl shadow-lg">
+        <table className="min-w-full text-left text-sm">
+          <thead className="border-b border-slate-200 text-slate-500">
+            <tr>
+              <th scope="col" className="px-4 py-3">
+                <input type="checkbox" checked={allOnPageSelected} onChange={togglePage} disabled={items.length === 0} aria-label="Select all on this page" />
+              </th>
+              <th scope="col" className="px-4 py-3 font-semibold">Name</th>
+              <th scope="col" className="px-4 py-3 font-semibold">Email</th>
+              <th scope="col" className="px-4 py-3 font-semibold">Phone</th>
+              <th scope="col" className="px-4 py-3 font-semibold">Status</th>
+              <th scope="col" className="px-4 py-3 font-semibold">Attempts</th>
+              <th scope="col" className="px-4 py-3 font-semibold">Joined</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className="border-b border-slate-100 last:border-0 hover:bg-cream">
+                <td className="px-4 py-3">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item)} aria-label={`Select ${item.name ?? item.email ?? 'entry'}`} />
+                </td>
+                <td className="px-4 py-3 font-semibold whitespace-nowrap">
+                  <button type="button" onClick={() => onSelect(item.id)} className="text-burgundy hover:text-burgundy-dark underline">
+                    {item.name ?? 'No name'}
+                  </button>
+                </td>
+                <td className="px-4 py-3">{item.email ?? '—'}</td>
+                <td className="px-4 py-3 whitespace-nowrap">{item.phone ?? '—'}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${WAITLIST_STATUS_CLASSES[item.status]}`}>
+                    {WAITLIST_STATUS_LABELS[item.status]}
+                  </span>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {item.attemptCount}
+                  {item.lastAttemptAt && <span className="ml-2 text-xs text-slate-500">last {formatDateTime(item.lastAttemptAt)}</span>}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(item.createdAt)}</td>
+              </tr>
+            ))}
+            {!loading && items.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-slate-500">No waitlist entries match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+        <p aria-live="polite">{loading ? 'Loading...' : `${total} ${total === 1 ? 'entry' : 'entries'}`}</p>
+        <div className="flex items-center gap-3">
+          <button type="button" disabled={filters.page === 0} onClick={() => onFiltersChange({ ...filters, page: filters.page - 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Previous</button>
+          <span>Page {filters.page + 1} of {pageCount}</span>
+          <button type="button" disabled={filters.page + 1 >= pageCount} onClick={() => onFiltersChange({ ...filters, page: filters.page + 1 })} className="px-3 py-1 rounded-md border border-slate-300 bg-white disabled:text-slate-400">Next</button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default WaitlistQueue;
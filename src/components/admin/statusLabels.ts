@@ -0,0 +1,123 @@
+import type {
+  ContactMessageStatus,
+  ContactReason,
+  NotificationChannel,
+  PatientNotificationEvent,
+  PatientNotificationStatus,
+  RequestStatus,
+  StaffRequestType,
+  SubmissionStatus,
+  WaitlistContactChannel,
+  WaitlistContactOutcome,
+  WaitlistStatus,
+} from '@/lib/schemas';
+
+export const REQUEST_TYPE_LABELS: Record<StaffRequestType, string> = {
+  refill: 'Refill',
+  transfer: 'Transfer out',
+};
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  received: 'Received',
+  submitted: 'Submitted',
+  processing: 'Processing',
+  ready: 'Ready',
+  picked_up: 'Picked up',
+  delivered: 'Delivered',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  pending: 'Pending',
+  processing: 'Sending',
+  succeeded: 'Accepted by BestRX',
+  rejected: 'Rejected by BestRX',
+  failed: 'Needs review',
+};
+
+export const SUBMISSION_STATUS_CLASSES: Record<SubmissionStatus, string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  processing: 'bg-slate-100 text-slate-700',
+  succeeded: 'bg-seafoam text-slate-900',
+  rejected: 'bg-red-100 text-error',
+  failed: 'bg-gold text-slate-900',
+};
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  active: 'Waiting',
+  contacted: 'Contacted',
+  enrolled: 'Enrolled',
+};
+
+export const WAITLIST_STATUS_CLASSES: Record<WaitlistStatus, string> = {
+  active: 'bg-slate-100 text-slate-700',
+  contacted: 'bg-gold text-slate-900',
+  enrolled: 'bg-seafoam text-slate-900',
+};
+
+export const CONTACT_CHANNEL_LABELS: Record<WaitlistContactChannel, string> = {
+  phone: 'Phone',
+  email: 'Email',
+  sms: 'Text message',
+  in_person: 'In person',
+};
+
+export const CONTACT_OUTCOME_LABELS: Record<WaitlistContactOutcome, string> = {
+  reached: 'Reached',
+  left_message: 'Left message',
+  no_answer: 'No answer',
+  wrong_number: 'Wrong number',
+  declined: 'Declined',
+};
+
+export const CONTACT_REASON_LABELS: Record<ContactReason, string> = {
+  general: 'General inquiry',
+  new: 'New prescription',
+  transfer: 'Transfer prescription',
+  refill: 'Refill question',
+  rpm: 'RPM waitlist',
+};
+
+export const CONTACT_MESSAGE_STATUS_LABELS: Record<ContactMessageStatus, string> = {
+  open: 'Open',
+  replied: 'Replied',
+  closed: 'Closed',
+};
+
+export const CONTACT_MESSAGE_STATUS_CLASSES: Record<ContactMessageStatus, string> = {
+  open: 'bg-slate-100 text-slate-700',
+  replied: 'bg-seafoam text-slate-900',
+  closed: 'bg-slate-100 text-slate-500',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: 'Text message',
+  email: 'Email',
+  none: 'No notifications',
+};
+
+export const PATIENT_NOTIFICATION_EVENT_LABELS: Record<PatientNotificationEvent, string> = {
+  ready_for_pickup: 'Ready for pickup',
+  out_for_delivery: 'Out for delivery',
+  refill_rejected: 'Refill not filled',
+};
+
+export const PATIENT_NOTIFICATION_STATUS_LABELS: Record<PatientNotificationStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Not sent',
+};
+
+export const PATIENT_NOTIFICATION_STATUS_CLASSES: Record<PatientNotificationStatus, string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  sending: 'bg-slate-100 text-slate-700',
+  sent: 'bg-seafoam text-slate-900',
+  failed: 'bg-red-100 text-error',
+  skipped: 'bg-slate-100 text-slate-500',
+};
+
+export const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : '—';
@@ -0,0 +1,138 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BESTRX_TIMEOUT, resolveBestRXEndpoints, submitRefillToBestRX, submitTransferToBestRX } from './bestrx.ts';
+import type { BestRXEndpoints, BestRXRequestOptions } from './bestrx.ts';
+import type { SendRefillRequest, SubmitRxTransferRequest } from './bestrxSchemas.ts';
+import { createBestRXSimulator } from './simulator/bestrxSimulator.ts';
+import type { BestRXSimulator } from './simulator/bestrxSimulator.ts';
+
+const OPTIONS: BestRXRequestOptions = { timeoutMs: 200, maxRetries: 2, retryBaseDelayMs: 1 };
+
+const REFILL_PAYLOAD: SendRefillRequest = {
+  userName: 'user',
+  APIKey: 'key',
+  PharmacyNumber: '1234567',
+  LastName: 'Doe',
+  DOB: '1980-01-01',
+  Phone: '6145550123',
+  DeliveryOption: 'Pickup',
+  RxInRefillRequest: [{ RxNumber: '1234567', MedicationName: 'Lisinopril' }],
+};
+
+const TRANSFER_PAYLOAD: SubmitRxTransferRequest = {
+  PharmacyNumber: '1234567',
+  RxNo: '1234567',
+  RxFillDate: '2024-01-01',
+  TransferToPharmacy: {
+    Name: 'Other Pharmacy',
+    Address: '1 Main St',
+    Address2: '',
+    City: 'Columbus',
+    State: 'OH',
+    Zip: '43222',
+    Phone: '6145550199',
+    NCPDP: '',
+  },
+  TransferDate: '2024-02-01',
+  Comments: '',
+};
+
+describe('BestRX requests', () => {
+  let simulator: BestRXSimulator;
+  let endpoints: BestRXEndpoints;
+
+  beforeAll(async () => {
+    simulator = await createBestRXSimulator();
+    endpoints = resolveBestRXEndpoints(simulator.url);
+  });
+
+  afterAll(() => simulator.close());
+
+  beforeEach(() => {
+    simulator.reset();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('retries a 5xx up to maxRetries and reports it as retryable', async () => {
+      simulator.queueScenario('refill', 'http-500', 'http-500', 'http-500');
+
+      const result = await submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, retryable: true });
+      expect(simulator.getRequests('refill')).toHaveLength(OPTIONS.maxRetries + 1);
+    });
+
+    it('succeeds when a retried 5xx is followed by an answer', async () => {
+      simulator.queueScenario('transfer', 'http-500', 'success');
+
+      const result = await submitTransferToBestRX(TRANSFER_PAYLOAD, 'Basic dGVzdA==', endpoints.transfer, OPTIONS);
+
+      expect(result.success).toBe(true);
+      expect(simulator.getRequests('transfer')).toHaveLength(2);
+    });
+
+    it.each(['http-400', 'http-403'])('does not retry %s', async (scenario) => {
+      simulator.queueScenario('refill', scenario);
+
+      const result = await submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, retryable: false });
+      expect(simulator.getRequests('refill')).toHaveLength(1);
+    });
+
+    it('does not retry after a timeout', async () => {
+      simulator.queueScenario('transfer', 'slow');
+
+      const result = await submitTransferToBestRX(TRANSFER_PAYLOAD, 'Basic dGVzdA==', endpoints.transfer, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_TIMEOUT.code });
+      expect(result.retryable).toBeUndefined();
+      expect(simulator.getRequests('transfer')).toHaveLength(1);
+    });
+
+    it('retries a network error', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const result = await submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(simulator.getRequests('refill')).toHaveLength(1);
+    });
+
+    it('reports a network error that outlasts the retries as retryable', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+
+      const result = await submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, retryable: true });
+      expect(fetchSpy).toHaveBeenCalledTimes(OPTIONS.maxRetries + 1);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('times out a refill whose body stalls after the headers, without resending it', async () => {
+      simulator.queueScenario('refill', 'slow-body');
+
+      const result = await submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_TIMEOUT.code });
+      expect(result.retryable).toBeUndefined();
+      expect(simulator.getRequests('refill')).toHaveLength(1);
+    });
+
+    it('times out a transfer whose body stalls after the headers, without resending it', async () => {
+      simulator.queueScenario('transfer', 'slow-body');
+
+      const result = await submitTransferToBestRX(TRANSFER_PAYLOAD, 'Basic dGVzdA==', endpoints.transfer, OPTIONS);
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_TIMEOUT.code });
+      expect(simulator.getRequests('transfer')).toHaveLength(1);
+    });
+  });
+});
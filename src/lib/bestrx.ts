@@ -1,9 +1,33 @@
 /**
  * BestRX API utility functions
  * Handles payload construction, API calls, and error handling for BestRX integration
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
  */
 
-import type { RefillFormData, TransferFormData } from './schemas';
+import type { RefillFormData, TransferFormData, TransferPrescription } from './schemas.ts';
+import {
+  PHARMACY_TIMEOUT_CODE,
+  REFILL_OUTCOME_DETAILS,
+  summarizeRefillResults,
+} from './pharmacySystems/adapter.ts';
+import type {
+  RefillRxOutcome,
+  RefillRxResult,
+  RefillSubmissionResult,
+  TransferSubmissionResult,
+} from './pharmacySystems/adapter.ts';
+import {
+  BestRXErrorBodySchema,
+  SendRefillResponseSchema,
+  SubmitRxTransferResponseSchema,
+} from './bestrxSchemas.ts';
+import type {
+  SendRefillRequest,
+  SendRefillResponse,
+  SubmitRxTransferRequest,
+  SubmitRxTransferResponse,
+} from './bestrxSchemas.ts';
 
 // BestRX API Endpoints
 export const BESTRX_ENDPOINTS = {
@@ -11,6 +35,22 @@ export const BESTRX_ENDPOINTS = {
   transfer: 'https://dataservice.bestrxconnect.com/prescription/submitrxtransferrequest',
 } as const;
 
+export type BestRXEndpoints = Record<keyof typeof BESTRX_ENDPOINTS, string>;
+
+/**
+ * Resolves the BestRX endpoints to call.
+ * When a simulator base URL is configured, the production paths are served from it instead.
+ */
+export function resolveBestRXEndpoints(simulatorUrl?: string): BestRXEndpoints {
+  if (!simulatorUrl) return BESTRX_ENDPOINTS;
+
+  const baseUrl = simulatorUrl.replace(/\/+$/, '');
+  return {
+    refill: `${baseUrl}${new URL(BESTRX_ENDPOINTS.refill).pathname}`,
+    transfer: `${baseUrl}${new URL(BESTRX_ENDPOINTS.transfer).pathname}`,
+  };
+}
+
 // BestRX Error Code Mappings
 export const BESTRX_ERROR_CODES: Record<string, string> = {
   // Refill errors
@@ -30,11 +70,127 @@ export const BESTRX_ERROR_CODES: Record<string, string> = {
   'ERROR0082': 'Transfer limit exceeded. Please try again later.',
 };
 
+// Returned when BestRX does not answer within the configured timeout
+export const BESTRX_TIMEOUT = {
+  code: PHARMACY_TIMEOUT_CODE,
+  message:
+    'The pharmacy service is taking longer than expected. Please wait a few minutes before trying again so your request is not sent twice.',
+} as const;
+
+// Returned when a BestRX response does not match the contracts in bestrxSchemas.ts
+export const BESTRX_UNEXPECTED_RESPONSE = {
+  code: 'UNEXPECTED_RESPONSE_SHAPE',
+  message:
+    'The pharmacy service returned an unexpected response. Please call us at (614) 349-5140 to confirm your request.',
+} as const;
+
+/**
+ * Timeout and retry settings for BestRX calls
+ */
+export interface BestRXRequestOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+export const DEFAULT_BESTRX_REQUEST_OPTIONS: BestRXRequestOptions = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500,
+};
+
+const TIMEOUT_ERROR_NAME = 'BestRXTimeoutError';
+
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === TIMEOUT_ERROR_NAME;
+}
+
+function getRetryDelay(attempt: number, baseDelayMs: number): number {
+  // Exponential backoff with jitter: base, 2x base, 4x base, ...
+  return baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+}
+
+/**
+ * A BestRX response with its body already read
+ */
+export interface BestRXResponse {
+  status: number;
+  ok: boolean;
+  // False when the body is not valid JSON; body is then the raw text
+  isJson: boolean;
+  body: unknown;
+}
+
+/**
+ * Reads a response body as JSON without throwing on malformed content
+ */
+async function readJsonBody(response: Response): Promise<{ isJson: boolean; body: unknown }> {
+  const text = await response.text();
+  try {
+    return { isJson: true, body: JSON.parse(text) as unknown };
+  } catch {
+    return { isJson: false, body: text };
+  }
+}
+
+/**
+ * Calls a BestRX endpoint and reads its body, both under a per-attempt timeout.
+ * Connection failures and 5xx responses are retried with exponential backoff.
+ * Timeouts, including a body that stalls or breaks off, are not retried:
+ * BestRX may already have accepted the request.
+ */
+export async function fetchBestRX(
+  endpoint: string,
+  init: RequestInit,
+  options: BestRXRequestOptions = DEFAULT_BESTRX_REQUEST_OPTIONS
+): Promise<BestRXResponse> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    let responded = false;
+
+    try {
+      const response = await fetch(endpoint, { ...init, signal: controller.signal });
+      responded = true;
+
+      if (response.status >= 500 && attempt < options.maxRetries) {
+        await response.body?.cancel();
+        await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, options.retryBaseDelayMs)));
+        continue;
+      }
+
+      // Still under the timeout: BestRX can send the headers and then stall the body
+      return { status: response.status, ok: response.ok, ...(await readJsonBody(response)) };
+    } catch (error) {
+      // Once BestRX has answered it may have accepted the request, so a broken
+      // body is reported like a timeout rather than retried
+      if (controller.signal.aborted || responded) {
+        const timeoutError = new Error(
+          controller.signal.aborted
+            ? `BestRX did not respond within ${options.timeoutMs}ms`
+            : `BestRX response could not be read: ${error instanceof Error ? error.message : error}`
+        );
+        timeoutError.name = TIMEOUT_ERROR_NAME;
+        throw timeoutError;
+      }
+      if (attempt >= options.maxRetries) {
+        throw error;
+      }
+      console.warn(`BestRX request failed (attempt ${attempt + 1}), retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, options.retryBaseDelayMs)));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
 /**
- * Formats phone number to match BestRX requirements (remove non-numeric)
+ * Formats phone number to match BestRX requirements: 10 digits, no country code.
+ * Form phones arrive in E.164 ("+16145550123").
  */
 export function formatPhoneForBestRX(phone: string): string {
-  return phone.replace(/\D/g, '');
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
 }
 
 /**
@@ -46,29 +202,17 @@ export function buildRefillRequestPayload(
   pharmacyNumber: string,
   apiKey: string,
   username: string
-): Record<string, unknown> {
-  // Parse prescription numbers and medication names
-  const rxNumbers = formData.prescriptionNumbers
-    .split(',')
-    .map((num: string) => num.trim())
-    .filter((num: string) => num.length > 0);
-
-  const medications = formData.medicationNames
-    .split(',')
-    .map((name: string) => name.trim())
-    .filter((name: string) => name.length > 0);
-
-  // Build RxInRefillRequest array
-  const rxInRefillRequest = rxNumbers.map((rxNumber: string, index: number) => ({
-    RxNumber: rxNumber,
-    MedicationName: medications[index] || '',
+): SendRefillRequest {
+  const rxInRefillRequest = formData.prescriptions.map((prescription) => ({
+    RxNumber: prescription.rxNumber,
+    MedicationName: prescription.medicationName || '',
   }));
 
   return {
     userName: username,
     APIKey: apiKey,
     PharmacyNumber: pharmacyNumber,
-    LastName: formData.patientName.split(' ').pop() || formData.patientName,
+    LastName: formData.patientLastName,
     DOB: formData.dob, // Expected format: YYYY-MM-DD
     Phone: formatPhoneForBestRX(formData.phone),
     DeliveryOption: formData.preferredService || 'Pickup',
@@ -79,18 +223,20 @@ export function buildRefillRequestPayload(
 /**
  * Constructs payload for BestRX Transfer Request
  * For endpoint: https://dataservice.bestrxconnect.com/prescription/submitrxtransferrequest
+ * BestRX transfers one Rx per call, so this is built once per prescription.
  */
 export function buildTransferRequestPayload(
   formData: TransferFormData,
+  prescription: TransferPrescription,
   pharmacyNumber: string
-): Record<string, unknown> {
+): SubmitRxTransferRequest {
   // Parse date for BestRX (YYYY-MM-DD format)
   const transferDate = new Date().toISOString().split('T')[0];
 
   return {
     PharmacyNumber: pharmacyNumber,
-    RxNo: formData.rxNumber,
-    RxFillDate: formData.rxFillDate, // Expected format: YYYY-MM-DD
+    RxNo: prescription.rxNumber,
+    RxFillDate: prescription.rxFillDate, // Expected format: YYYY-MM-DD
     TransferToPharmacy: {
       Name: formData.transferToPharmacyName,
       Address: formData.transferToPharmacyAddress1,
@@ -128,189 +274,241 @@ export function mapBestRXError(errorCode: string | undefined, httpStatus?: numbe
   return BESTRX_ERROR_CODES[errorCode] || BESTRX_ERROR_CODES['ERROR_GENERIC'];
 }
 
+const REFILL_OUTCOME_BY_ERROR_CODE: Record<string, RefillRxOutcome> = {
+  'ERROR_RX_NOT_FOUND': 'not_found',
+  'ERROR_RX_INACTIVE': 'inactive',
+  'ERROR_RX_REFILLED': 'too_soon',
+};
+
 /**
- * Validates BestRX Refill Response
+ * Builds per-prescription results from a parsed BestRX Refill Response.
+ * Entries are matched to the request by RxNumber, falling back to position.
  */
-export function validateRefillResponse(response: unknown): boolean {
-  if (!response || typeof response !== 'object') return false;
+export function parseRefillResults(
+  response: SendRefillResponse,
+  payload: SendRefillRequest
+): RefillRxResult[] {
+  const requested = payload.RxInRefillRequest;
+
+  return response.RxInRefillResponse.map((entry, index) => {
+    const rxNumber = entry.RxNumber ?? requested[index]?.RxNumber ?? '';
+    const match = requested.find((item) => item.RxNumber === rxNumber) ?? requested[index];
+    const errorCode = entry.ErrorCode || null;
+
+    const outcome: RefillRxOutcome =
+      entry.Status === 'OK'
+        ? 'ok'
+        : (errorCode && REFILL_OUTCOME_BY_ERROR_CODE[errorCode]) || 'error';
 
-  const data = response as Record<string, unknown>;
-  const rxResponses = data.RxInRefillResponse;
-
-  if (!Array.isArray(rxResponses)) return false;
-
-  // Check if at least one prescription was successfully processed
-  return rxResponses.some(
-    (rx: unknown) =>
-      typeof rx === 'object' &&
-      rx !== null &&
-      (rx as Record<string, unknown>).Status === 'OK'
-  );
+    return {
+      rxNumber,
+      medicationName: match?.MedicationName ?? '',
+      outcome,
+      errorCode,
+      message:
+        outcome === 'error' && errorCode
+          ? mapBestRXError(errorCode)
+          : REFILL_OUTCOME_DETAILS[outcome].message,
+      nextAction: REFILL_OUTCOME_DETAILS[outcome].nextAction,
+    };
+  });
 }
 
 /**
- * Validates BestRX Transfer Response
+ * Validates a parsed BestRX Transfer Response
  */
-export function validateTransferResponse(response: unknown): boolean {
-  if (!response || typeof response !== 'object') return false;
-
-  const data = response as Record<string, unknown>;
-  return data.IsValid === true && data.RxTransferred === true;
+export function validateTransferResponse(response: SubmitRxTransferResponse): boolean {
+  return response.IsValid && response.RxTransferred;
 }
 
 /**
- * Extracts error message from BestRX Refill Response
+ * Extracts error message from a BestRX Refill Response body
  */
 export function extractRefillErrorMessage(response: unknown): string | null {
-  if (!response || typeof response !== 'object') return null;
-
-  const data = response as Record<string, unknown>;
-  const rxResponses = data.RxInRefillResponse;
-
-  if (Array.isArray(rxResponses) && rxResponses.length > 0) {
-    const firstError = rxResponses.find(
-      (rx: unknown) =>
-        typeof rx === 'object' &&
-        rx !== null &&
-        (rx as Record<string, unknown>).Status !== 'OK'
-    );
+  const parsed = BestRXErrorBodySchema.safeParse(response);
+  if (!parsed.success) return null;
 
-    if (firstError && typeof firstError === 'object') {
-      const errorCode = (firstError as Record<string, unknown>).ErrorCode;
-      const errorMessage = (firstError as Record<string, unknown>).ErrorMessage;
+  const firstError = parsed.data.RxInRefillResponse?.find((rx) => rx.Status !== 'OK');
+  const errorCode = firstError?.ErrorCode || parsed.data.ErrorCode;
+  const errorMessage = firstError?.ErrorMessage || parsed.data.ErrorMessage;
 
-      if (errorCode) {
-        return mapBestRXError(String(errorCode));
-      }
-      if (errorMessage) {
-        return String(errorMessage);
-      }
-    }
+  if (errorCode) {
+    return mapBestRXError(errorCode);
+  }
+  if (errorMessage) {
+    return errorMessage;
   }
 
   return null;
 }
 
 /**
- * Extracts error message from BestRX Transfer Response
+ * Extracts error message from a BestRX Transfer Response body
  */
 export function extractTransferErrorMessage(response: unknown): string | null {
-  if (!response || typeof response !== 'object') return null;
+  const parsed = BestRXErrorBodySchema.safeParse(response);
+  if (!parsed.success) return null;
 
-  const data = response as Record<string, unknown>;
-  const errorCode = data.ErrorCode as string | undefined;
-  const errorMessage = data.ErrorMessage as string | undefined;
-
-  if (errorCode) {
-    return mapBestRXError(errorCode);
+  if (parsed.data.ErrorCode) {
+    return mapBestRXError(parsed.data.ErrorCode);
   }
-  if (errorMessage) {
-    return errorMessage;
+  if (parsed.data.ErrorMessage) {
+    return parsed.data.ErrorMessage;
   }
 
-  return mapBestRXError(undefined);
+  return null;
 }
 
 /**
  * Makes a BestRX Refill Request
- * Note: This should ideally be called from a backend/Edge Function to protect API credentials
+ * Server-side only: called from the send-refill-request Edge Function
  */
 export async function submitRefillToBestRX(
-  payload: Record<string, unknown>
-): Promise<{ success: boolean; message: string; data?: unknown }> {
+  payload: SendRefillRequest,
+  endpoint: string = BESTRX_ENDPOINTS.refill,
+  options: BestRXRequestOptions = DEFAULT_BESTRX_REQUEST_OPTIONS
+): Promise<RefillSubmissionResult> {
   try {
-    const response = await fetch(BESTRX_ENDPOINTS.refill, {
-      method: 'POST' as const,
-      headers: {
-        'Content-Type': 'application/json',
+    const { status, ok, isJson, body } = await fetchBestRX(
+      endpoint,
+      {
+        method: 'POST' as const,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
       },
-      body: JSON.stringify(payload),
-    });
-
-    const responseData = (await response.json()) as unknown;
+      options
+    );
 
-    if (!response.ok) {
-      const errorMessage = extractRefillErrorMessage(responseData);
+    if (!ok) {
+      const errorMessage = extractRefillErrorMessage(body);
       return {
         success: false,
         message:
           errorMessage ||
-          mapBestRXError(undefined, response.status),
+          mapBestRXError(undefined, status),
+        results: [],
+        retryable: status >= 500,
+      };
+    }
+
+    const parsed = SendRefillResponseSchema.safeParse(body);
+    if (!isJson || !parsed.success) {
+      console.error(
+        'BestRX Refill response did not match contract:',
+        isJson ? parsed.error?.issues : 'malformed JSON'
+      );
+      return {
+        success: false,
+        message: BESTRX_UNEXPECTED_RESPONSE.message,
+        errorCode: BESTRX_UNEXPECTED_RESPONSE.code,
+        results: [],
       };
     }
 
-    if (!validateRefillResponse(responseData)) {
-      const errorMessage = extractRefillErrorMessage(responseData);
+    const results = parseRefillResults(parsed.data, payload);
+    if (results.length === 0) {
       return {
         success: false,
-        message: errorMessage || 'Unable to process refill request. Please try again.',
+        message: 'Unable to process refill request. Please try again.',
+        results: [],
       };
     }
 
     return {
-      success: true,
-      message: 'Refill request submitted successfully',
-      data: responseData,
+      success: results.some((result) => result.outcome === 'ok'),
+      message: summarizeRefillResults(results),
+      results,
+      data: parsed.data,
     };
   } catch (error) {
     console.error('BestRX Refill Error:', error);
+    if (isTimeoutError(error)) {
+      return { success: false, message: BESTRX_TIMEOUT.message, errorCode: BESTRX_TIMEOUT.code, results: [] };
+    }
     return {
       success: false,
       message: 'Unable to connect to pharmacy service. Please try again later.',
+      results: [],
+      retryable: true,
     };
   }
 }
 
 /**
  * Makes a BestRX Transfer Request
- * Note: This should ideally be called from a backend/Edge Function to protect API credentials
+ * Server-side only: called from the submit-transfer-request Edge Function
  */
 export async function submitTransferToBestRX(
-  payload: Record<string, unknown>,
-  basicAuthHeader: string
-): Promise<{ success: boolean; message: string; data?: unknown }> {
+  payload: SubmitRxTransferRequest,
+  basicAuthHeader: string,
+  endpoint: string = BESTRX_ENDPOINTS.transfer,
+  options: BestRXRequestOptions = DEFAULT_BESTRX_REQUEST_OPTIONS
+): Promise<TransferSubmissionResult> {
   try {
-    const response = await fetch(BESTRX_ENDPOINTS.transfer, {
-      method: 'POST' as const,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': basicAuthHeader,
+    const { status, ok, isJson, body } = await fetchBestRX(
+      endpoint,
+      {
+        method: 'POST' as const,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': basicAuthHeader,
+        },
+        body: JSON.stringify(payload),
       },
-      body: JSON.stringify(payload),
-    });
-
-    const responseData = (await response.json()) as unknown;
+      options
+    );
 
-    if (!response.ok) {
-      const errorMessage = extractTransferErrorMessage(responseData);
+    if (!ok) {
+      const errorMessage = extractTransferErrorMessage(body);
       return {
         success: false,
         message:
           errorMessage ||
-          mapBestRXError(undefined, response.status),
+          mapBestRXError(undefined, status),
+        retryable: status >= 500,
+      };
+    }
+
+    const parsed = SubmitRxTransferResponseSchema.safeParse(body);
+    if (!isJson || !parsed.success) {
+      console.error(
+        'BestRX Transfer response did not match contract:',
+        isJson ? parsed.error?.issues : 'malformed JSON'
+      );
+      return {
+        success: false,
+        message: BESTRX_UNEXPECTED_RESPONSE.message,
+        errorCode: BESTRX_UNEXPECTED_RESPONSE.code,
       };
     }
 
-    if (!validateTransferResponse(responseData)) {
-      const errorMessage = extractTransferErrorMessage(responseData);
+    if (!validateTransferResponse(parsed.data)) {
+      const errorMessage = extractTransferErrorMessage(parsed.data);
       return {
         success: false,
         message:
           errorMessage ||
           'Unable to process transfer request. Please try again.',
+        errorCode: parsed.data.ErrorCode || undefined,
       };
     }
 
     return {
       success: true,
       message: 'Transfer request submitted successfully',
-      data: responseData,
+      data: parsed.data,
     };
   } catch (error) {
     console.error('BestRX Transfer Error:', error);
+    if (isTimeoutError(error)) {
+      return { success: false, message: BESTRX_TIMEOUT.message, errorCode: BESTRX_TIMEOUT.code };
+    }
     return {
       success: false,
       message: 'Unable to connect to pharmacy service. Please try again later.',
+      retryable: true,
     };
   }
 }
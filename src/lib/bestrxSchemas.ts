@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+/**
+ * Request and response contracts for the BestRX APIs.
+ * Responses are parsed with these schemas so upstream drift is caught
+ * instead of silently treated as a failed submission.
+ */
+
+/* ============================================
+   SendRefillRequest
+   ============================================ */
+
+export const RxInRefillRequestItemSchema = z.object({
+  RxNumber: z.string().min(1),
+  MedicationName: z.string(),
+});
+
+export type RxInRefillRequestItem = z.infer<typeof RxInRefillRequestItemSchema>;
+
+export const SendRefillRequestSchema = z.object({
+  userName: z.string().min(1),
+  APIKey: z.string().min(1),
+  PharmacyNumber: z.string().min(1),
+  LastName: z.string().min(1),
+  DOB: z.string(), // YYYY-MM-DD
+  Phone: z.string(),
+  DeliveryOption: z.string(),
+  RxInRefillRequest: z.array(RxInRefillRequestItemSchema).min(1),
+});
+
+export type SendRefillRequest = z.infer<typeof SendRefillRequestSchema>;
+
+export const RxInRefillResponseItemSchema = z
+  .object({
+    RxNumber: z.union([z.string(), z.number()]).transform(String).optional(),
+    Status: z.string(),
+    ErrorCode: z.string().nullish(),
+    ErrorMessage: z.string().nullish(),
+  })
+  .passthrough();
+
+export type RxInRefillResponseItem = z.infer<typeof RxInRefillResponseItemSchema>;
+
+export const SendRefillResponseSchema = z
+  .object({
+    RxInRefillResponse: z.array(RxInRefillResponseItemSchema),
+  })
+  .passthrough();
+
+export type SendRefillResponse = z.infer<typeof SendRefillResponseSchema>;
+
+/* ============================================
+   SubmitRxTransferRequest
+   ============================================ */
+
+export const TransferToPharmacySchema = z.object({
+  Name: z.string().min(1),
+  Address: z.string().min(1),
+  Address2: z.string(),
+  City: z.string().min(1),
+  State: z.string().min(1),
+  Zip: z.string().min(1),
+  Phone: z.string(),
+  NCPDP: z.string(),
+});
+
+export const SubmitRxTransferRequestSchema = z.object({
+  PharmacyNumber: z.string().min(1),
+  RxNo: z.string().min(1),
+  RxFillDate: z.string(), // YYYY-MM-DD
+  TransferToPharmacy: TransferToPharmacySchema,
+  TransferDate: z.string(), // YYYY-MM-DD
+  Comments: z.string(),
+});
+
+export type SubmitRxTransferRequest = z.infer<typeof SubmitRxTransferRequestSchema>;
+
+export const SubmitRxTransferResponseSchema = z
+  .object({
+    IsValid: z.boolean(),
+    RxTransferred: z.boolean().optional().default(false),
+    ErrorCode: z.string().nullish(),
+    ErrorMessage: z.string().nullish(),
+  })
+  .passthrough();
+
+export type SubmitRxTransferResponse = z.infer<typeof SubmitRxTransferResponseSchema>;
+
+/* ============================================
+   Error bodies (non-2xx responses)
+   ============================================ */
+
+export const BestRXErrorBodySchema = z
+  .object({
+    ErrorCode: z.string().nullish(),
+    ErrorMessage: z.string().nullish(),
+    RxInRefillResponse: z.array(RxInRefillResponseItemSchema).optional(),
+  })
+  .passthrough();
+
+export type BestRXErrorBody = z.infer<typeof BestRXErrorBodySchema>;
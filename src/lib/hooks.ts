@@ -1,19 +1,24 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
 import { supabase } from "./supabaseClient";
 import {
   ContactFormData,
   WaitlistFormData,
   RefillFormData,
   TransferFormData,
+  TransferInFormData,
   SplashModalFormData,
+  StatusLookupFormData,
+  RequestStatusLookup,
+  RequestStatusLookupSchema,
+  StaffSignInFormData,
 } from "./schemas";
 import {
-  buildRefillRequestPayload,
-  buildTransferRequestPayload,
-  buildBasicAuthHeader,
-  submitRefillToBestRX,
-  submitTransferToBestRX,
-} from "./bestrx";
+  createIdempotencyKey,
+  sendRefillRequest,
+  sendTransferRequest,
+} from "./pharmacyService";
+import { isStaffUser, signInStaff, signOutStaff } from "./staffService";
 
 type SubmissionStatus = "idle" | "submitting" | "success" | "error";
 
@@ -93,61 +98,26 @@ export function useWaitlistFormSubmission() {
 export function useRefillFormSubmission() {
   const [status, setStatus] = useState<SubmissionStatus>("idle");
   const [error, setError] = useState<string | null>(null);
+  // Kept across retries so a re-sent submission is recognized as a duplicate
+  const idempotencyKey = useRef(createIdempotencyKey());
 
   const submit = async (data: RefillFormData) => {
     setStatus("submitting");
     setError(null);
 
     try {
-      // Get BestRX credentials from environment (defined in vite.config.ts)
-      const username = process.env.BESTRX_USERNAME;
-      const apiKey = process.env.BESTRX_API_KEY;
-      const pharmacyNumber = process.env.BESTRX_PHARMACY_NUMBER;
-
-      if (!username || !apiKey || !pharmacyNumber) {
-        throw new Error(
-          "Pharmacy service is not properly configured. Please contact support."
-        );
-      }
-
-      // Step 1: Build BestRX payload
-      const payload = buildRefillRequestPayload(
-        data,
-        pharmacyNumber,
-        apiKey,
-        username
-      );
-
-      // Step 2: Submit to BestRX API
-      // IMPORTANT: In production, this should be called from a backend/Edge Function
-      // to keep API credentials secure. This frontend call is for development only.
-      const result = await submitRefillToBestRX(payload);
+      // BestRX submission and audit logging happen in the send-refill-request Edge Function
+      const result = await sendRefillRequest(data, idempotencyKey.current);
 
-      if (!result.success) {
+      // Per-Rx results are shown to the patient even if no prescription was accepted
+      if (!result.success && !result.results?.length) {
         throw new Error(result.message);
       }
 
-      // Step 3: Persist to Supabase for audit trail
-      // This is a secondary operation; failure here doesn't prevent the refill submission
-      try {
-        await supabase.rpc("submit_refill_request", {
-          p_patient_name: data.patientName,
-          p_dob: data.dob,
-          p_phone: data.phone,
-          p_email: data.email || "",
-          p_prescription_numbers: data.prescriptionNumbers,
-          p_medication_names: data.medicationNames,
-          p_preferred_service: data.preferredService,
-          p_notes: data.notes || "",
-          p_consent: data.consent,
-        });
-      } catch (supabaseError) {
-        console.warn("Failed to save refill request to database:", supabaseError);
-        // Don't throw - BestRX submission succeeded, which is the primary goal
-      }
-
+      // The next submission is a new request
+      idempotencyKey.current = createIdempotencyKey();
       setStatus("success");
-      return result.data;
+      return result;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Submission failed";
       setError(errorMessage);
@@ -162,62 +132,71 @@ export function useRefillFormSubmission() {
 export function useTransferFormSubmission() {
   const [status, setStatus] = useState<SubmissionStatus>("idle");
   const [error, setError] = useState<string | null>(null);
+  // Kept across retries so a re-sent submission is recognized as a duplicate
+  const idempotencyKey = useRef(createIdempotencyKey());
 
   const submit = async (data: TransferFormData) => {
     setStatus("submitting");
     setError(null);
 
     try {
-      // Get BestRX credentials from environment (defined in vite.config.ts)
-      const username = process.env.BESTRX_USERNAME;
-      const password = process.env.BESTRX_PASSWORD;
-      const pharmacyNumber = process.env.BESTRX_PHARMACY_NUMBER;
-
-      if (!username || !password || !pharmacyNumber) {
-        throw new Error(
-          "Pharmacy service is not properly configured. Please contact support."
-        );
+      // BestRX submission and audit logging happen in the submit-transfer-request Edge Function
+      const result = await sendTransferRequest(data, idempotencyKey.current);
+
+      // Per-Rx results are shown to the patient even if no prescription was transferred
+      if (!result.success && !result.results?.length) {
+        throw new Error(result.message);
       }
 
-      // Step 1: Build BestRX payload
-      const payload = buildTransferRequestPayload(data, pharmacyNumber);
+      // The next submission is a new request
+      idempotencyKey.current = createIdempotencyKey();
+      setStatus("success");
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Submission failed";
+      setError(errorMessage);
+      setStatus("error");
+      throw err;
+    }
+  };
 
-      // Step 2: Build Basic Auth header
-      const authHeader = buildBasicAuthHeader(username, password);
+  return { submit, status, error };
+}
 
-      // Step 3: Submit to BestRX API
-      // IMPORTANT: In production, this should be called from a backend/Edge Function
-      // to keep API credentials secure. This frontend call is for development only.
-      const result = await submitTransferToBestRX(payload, authHeader);
+export function useTransferInFormSubmission() {
+  const [status, setStatus] = useState<SubmissionStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
 
-      if (!result.success) {
-        throw new Error(result.message);
-      }
+  const submit = async (data: TransferInFormData) => {
+    setStatus("submitting");
+    setError(null);
 
-      // Step 4: Persist to Supabase for audit trail
-      // This is a secondary operation; failure here doesn't prevent the transfer submission
-      try {
-        await supabase.rpc("submit_transfer_request", {
-          p_rx_number: data.rxNumber,
-          p_rx_fill_date: data.rxFillDate,
-          p_transfer_to_pharmacy_name: data.transferToPharmacyName,
-          p_transfer_to_pharmacy_address1: data.transferToPharmacyAddress1,
-          p_transfer_to_pharmacy_address2: data.transferToPharmacyAddress2 || "",
-          p_transfer_to_pharmacy_city: data.transferToPharmacyCity,
-          p_transfer_to_pharmacy_state: data.transferToPharmacyState,
-          p_transfer_to_pharmacy_zip: data.transferToPharmacyZip,
-          p_transfer_to_pharmacy_phone: data.transferToPharmacyPhone,
-          p_transfer_to_pharmacy_ncpdp: data.transferToPharmacyNCPDP || "",
-          p_transfer_rx_remark: data.transferRxRemark || "",
+    try {
+      // Transfers in are handled by staff, so this goes straight to the database
+      const { data: id, error: rpcError } = await supabase.rpc(
+        "submit_transfer_in_request",
+        {
+          p_patient_name: data.patientName,
+          p_dob: data.dob,
+          p_phone: data.phone,
+          p_email: data.email || "",
+          p_current_pharmacy_name: data.currentPharmacyName,
+          p_current_pharmacy_phone: data.currentPharmacyPhone,
+          p_medication_names: data.medicationNames,
+          p_prescriber_name: data.prescriberName,
+          p_prescriber_phone: data.prescriberPhone || "",
+          p_preferred_service: data.preferredService,
+          p_notes: data.notes || "",
           p_consent: data.consent,
-        });
-      } catch (supabaseError) {
-        console.warn("Failed to save transfer request to database:", supabaseError);
-        // Don't throw - BestRX submission succeeded, which is the primary goal
+        }
+      );
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
       }
 
       setStatus("success");
-      return result.data;
+      return id;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Submission failed";
       setError(errorMessage);
@@ -261,3 +240,116 @@ export function useSplashModalFormSubmission() {
 
   return { submit, status, error };
 }
+
+export function useRequestStatusLookup() {
+  const [status, setStatus] = useState<SubmissionStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves to null when no request matches the code and date of birth
+  const lookup = async (data: StatusLookupFormData): Promise<RequestStatusLookup | null> => {
+    setStatus("submitting");
+    setError(null);
+
+    try {
+      const { data: result, error: rpcError } = await supabase.rpc(
+        "lookup_request_status",
+        {
+          p_confirmation_code: data.confirmationCode,
+          p_dob: data.dob,
+        }
+      );
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
+
+      setStatus("success");
+      return result ? RequestStatusLookupSchema.parse(result) : null;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Status check failed";
+      setError(errorMessage);
+      setStatus("error");
+      throw err;
+    }
+  };
+
+  return { lookup, status, error };
+}
+
+export function useNotificationUnsubscribe() {
+  const [status, setStatus] = useState<SubmissionStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves to false when the token from the email link is not recognized
+  const unsubscribe = async (token: string): Promise<boolean> => {
+    setStatus("submitting");
+    setError(null);
+
+    try {
+      const { data: found, error: rpcError } = await supabase.rpc(
+        "unsubscribe_patient_notifications",
+        { p_token: token }
+      );
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
+
+      setStatus("success");
+      return found === true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unsubscribe failed";
+      setError(errorMessage);
+      setStatus("error");
+      throw err;
+    }
+  };
+
+  return { unsubscribe, status, error };
+}
+
+export function useStaffSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<SubmissionStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const signIn = async (data: StaffSignInFormData) => {
+    setStatus("submitting");
+    setError(null);
+
+    try {
+      await signInStaff(data);
+      setStatus("success");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Sign-in failed";
+      setError(errorMessage);
+      setStatus("error");
+      throw err;
+    }
+  };
+
+  return {
+    session,
+    loading,
+    // The role claim comes from app_metadata, which only the service role can set
+    isStaff: isStaffUser(session?.user),
+    signIn,
+    signOut: signOutStaff,
+    status,
+    error,
+  };
+}
@@ -0,0 +1,11 @@
+-- Reverts 001_init_schema.sql: drops every table and enum it created, with their data.
+
+DROP TABLE IF EXISTS splash_modal_submissions;
+DROP TABLE IF EXISTS transfer_requests;
+DROP TABLE IF EXISTS refill_requests;
+DROP TABLE IF EXISTS waitlist_entries;
+DROP TABLE IF EXISTS contact_messages;
+
+DROP TYPE IF EXISTS service_preference;
+DROP TYPE IF EXISTS waitlist_status;
+DROP TYPE IF EXISTS contact_reason;
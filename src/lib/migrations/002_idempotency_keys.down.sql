@@ -0,0 +1,12 @@
+-- Reverts 002_idempotency_keys.sql
+
+DROP INDEX IF EXISTS idx_refill_requests_idempotency_key;
+DROP INDEX IF EXISTS idx_transfer_requests_idempotency_key;
+
+ALTER TABLE refill_requests
+  DROP COLUMN IF EXISTS idempotency_key,
+  DROP COLUMN IF EXISTS submission_result;
+
+ALTER TABLE transfer_requests
+  DROP COLUMN IF EXISTS idempotency_key,
+  DROP COLUMN IF EXISTS submission_result;
@@ -0,0 +1,23 @@
+-- ============================================
+-- Idempotency keys for BestRX submissions
+-- ============================================
+-- Each refill/transfer submission carries a client-generated key. The Edge
+-- Functions store it with the audit row, together with the result that was
+-- returned to the patient, so a retried submission can return the original
+-- result instead of submitting to BestRX twice.
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS idempotency_key UUID,
+  ADD COLUMN IF NOT EXISTS submission_result JSONB;
+
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS idempotency_key UUID,
+  ADD COLUMN IF NOT EXISTS submission_result JSONB;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refill_requests_idempotency_key
+  ON refill_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transfer_requests_idempotency_key
+  ON transfer_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,45 @@
+-- Reverts 003_submission_outbox.sql. Requests still pending in the outbox are
+-- kept, but lose their submission status.
+
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'process-submission-outbox';
+  END IF;
+END;
+$do$;
+
+DROP FUNCTION IF EXISTS record_submission_outcome(TEXT, UUID, submission_status, JSONB, TEXT, INTERVAL);
+DROP FUNCTION IF EXISTS claim_pending_submissions(TEXT, INTEGER, UUID, INTERVAL);
+DROP FUNCTION IF EXISTS submission_table(TEXT);
+
+DROP INDEX IF EXISTS idx_refill_requests_outbox;
+DROP INDEX IF EXISTS idx_transfer_requests_outbox;
+
+DROP INDEX IF EXISTS idx_refill_requests_idempotency_key;
+DROP INDEX IF EXISTS idx_transfer_requests_idempotency_key;
+
+ALTER TABLE refill_requests
+  DROP COLUMN IF EXISTS submission_status,
+  DROP COLUMN IF EXISTS submission_attempts,
+  DROP COLUMN IF EXISTS next_attempt_at,
+  DROP COLUMN IF EXISTS last_submission_error,
+  DROP COLUMN IF EXISTS submitted_at;
+
+ALTER TABLE transfer_requests
+  DROP COLUMN IF EXISTS submission_status,
+  DROP COLUMN IF EXISTS submission_attempts,
+  DROP COLUMN IF EXISTS next_attempt_at,
+  DROP COLUMN IF EXISTS last_submission_error,
+  DROP COLUMN IF EXISTS submitted_at;
+
+-- Back to one row per key, as in 002
+CREATE UNIQUE INDEX idx_refill_requests_idempotency_key
+  ON refill_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_transfer_requests_idempotency_key
+  ON transfer_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+DROP TYPE IF EXISTS submission_status;
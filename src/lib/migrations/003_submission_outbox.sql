@@ -0,0 +1,194 @@
+-- ============================================
+-- Submission outbox for BestRX
+-- ============================================
+-- Refill and transfer requests are stored with status 'pending' before BestRX
+-- is called. The Edge Function tries once immediately; anything still pending
+-- is drained by the process-submission-outbox worker with backoff.
+--
+--   pending     waiting for (another) attempt
+--   processing  claimed by the Edge Function or the worker
+--   succeeded   accepted by BestRX
+--   rejected    BestRX answered and refused it (patient can correct and resubmit)
+--   failed      gave up or outcome unknown; staff must review before resubmitting
+
+CREATE TYPE submission_status AS ENUM ('pending', 'processing', 'succeeded', 'rejected', 'failed');
+
+-- Rows written before this migration were only stored after BestRX accepted them,
+-- so they are backfilled as 'succeeded' before the default switches to 'pending'.
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS submission_status submission_status NOT NULL DEFAULT 'succeeded',
+  ADD COLUMN IF NOT EXISTS submission_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS last_submission_error TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE refill_requests ALTER COLUMN submission_status SET DEFAULT 'pending';
+
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS submission_status submission_status NOT NULL DEFAULT 'succeeded',
+  ADD COLUMN IF NOT EXISTS submission_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS last_submission_error TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE transfer_requests ALTER COLUMN submission_status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_outbox
+  ON refill_requests(next_attempt_at)
+  WHERE submission_status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_outbox
+  ON transfer_requests(next_attempt_at)
+  WHERE submission_status IN ('pending', 'processing');
+
+-- A rejected submission may be corrected and re-sent with the same idempotency key
+DROP INDEX IF EXISTS idx_refill_requests_idempotency_key;
+CREATE UNIQUE INDEX idx_refill_requests_idempotency_key
+  ON refill_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND submission_status <> 'rejected';
+
+DROP INDEX IF EXISTS idx_transfer_requests_idempotency_key;
+CREATE UNIQUE INDEX idx_transfer_requests_idempotency_key
+  ON transfer_requests(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND submission_status <> 'rejected';
+
+-- ============================================
+-- Outbox functions (service role only)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION submission_table(p_request_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_request_type
+    WHEN 'refill' THEN 'refill_requests'
+    WHEN 'transfer' THEN 'transfer_requests'
+  END;
+$$;
+
+-- Claims due submissions for processing. Pass p_request_id to claim a single row.
+-- Rows stuck in 'processing' longer than p_stale_after are marked 'failed',
+-- because BestRX may already have accepted them.
+CREATE OR REPLACE FUNCTION claim_pending_submissions(
+  p_request_type TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_request_id UUID DEFAULT NULL,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = 'failed',
+        last_submission_error = 'Interrupted while submitting to BestRX. Verify in BestRX before resubmitting.',
+        updated_at = CURRENT_TIMESTAMP
+    WHERE submission_status = 'processing'
+      AND updated_at < CURRENT_TIMESTAMP - $1
+  $q$, v_table)
+  USING p_stale_after;
+
+  RETURN QUERY EXECUTE format($q$
+    UPDATE %1$I AS r
+    SET submission_status = 'processing',
+        submission_attempts = r.submission_attempts + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE r.id IN (
+      SELECT id
+      FROM %1$I
+      WHERE submission_status = 'pending'
+        AND next_attempt_at <= CURRENT_TIMESTAMP
+        AND ($1::UUID IS NULL OR id = $1)
+      ORDER BY created_at
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING to_jsonb(r.*)
+  $q$, v_table)
+  USING p_request_id, p_limit;
+END;
+$$;
+
+-- Records the outcome of a submission attempt. p_retry_in reschedules a pending row.
+CREATE OR REPLACE FUNCTION record_submission_outcome(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status submission_status,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_in INTERVAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = $2,
+        submission_result = COALESCE($3, submission_result),
+        last_submission_error = $4,
+        next_attempt_at = CASE WHEN $5 IS NULL THEN next_attempt_at ELSE CURRENT_TIMESTAMP + $5 END,
+        submitted_at = CASE WHEN $2 = 'succeeded' THEN CURRENT_TIMESTAMP ELSE submitted_at END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  $q$, v_table)
+  USING p_request_id, p_status, p_result, p_error, p_retry_in;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_submissions(TEXT, INTEGER, UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_submission_outcome(TEXT, UUID, submission_status, JSONB, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_pending_submissions(TEXT, INTEGER, UUID, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION record_submission_outcome(TEXT, UUID, submission_status, JSONB, TEXT, INTERVAL) TO service_role;
+
+-- ============================================
+-- Worker schedule (Supabase: pg_cron + pg_net)
+-- ============================================
+-- Calls the process-submission-outbox Edge Function every minute. Store the
+-- project URL and worker token in Vault first:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<OUTBOX_WORKER_TOKEN>', 'outbox_worker_token');
+-- Skipped on databases without pg_cron (e.g. a plain local Postgres).
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+
+    PERFORM cron.schedule(
+      'process-submission-outbox',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/process-submission-outbox',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'outbox_worker_token')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$do$;
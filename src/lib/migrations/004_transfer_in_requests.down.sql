@@ -0,0 +1,4 @@
+-- Reverts 004_transfer_in_requests.sql: drops the table with its data.
+
+DROP FUNCTION IF EXISTS submit_transfer_in_request(TEXT, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, service_preference, TEXT, BOOLEAN);
+DROP TABLE IF EXISTS transfer_in_requests;
@@ -0,0 +1,91 @@
+-- ============================================
+-- Transfer-In Requests Table
+-- ============================================
+-- Prescriptions moving from another pharmacy to us. Staff contact the current
+-- pharmacy and prescriber, so these rows are not part of the BestRX outbox.
+CREATE TABLE IF NOT EXISTS transfer_in_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_name VARCHAR(255) NOT NULL,
+  dob DATE NOT NULL,
+  phone VARCHAR(30) NOT NULL,
+  email VARCHAR(255),
+
+  current_pharmacy_name VARCHAR(255) NOT NULL,
+  current_pharmacy_phone VARCHAR(30) NOT NULL,
+
+  medication_names TEXT NOT NULL,
+  prescriber_name VARCHAR(255) NOT NULL,
+  prescriber_phone VARCHAR(30),
+
+  preferred_service service_preference NOT NULL,
+  notes TEXT,
+  consent BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_transfer_in_requests_patient_name ON transfer_in_requests(patient_name);
+CREATE INDEX idx_transfer_in_requests_created_at ON transfer_in_requests(created_at);
+
+-- Patient data is only written through submit_transfer_in_request, so no
+-- public policies are created.
+ALTER TABLE transfer_in_requests ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- submit_transfer_in_request RPC
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_in_request(
+  p_patient_name TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_medication_names TEXT,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT COALESCE(p_consent, FALSE) THEN
+    RAISE EXCEPTION 'Consent is required to transfer a prescription';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_phone), '') = ''
+     OR COALESCE(btrim(p_medication_names), '') = ''
+     OR COALESCE(btrim(p_prescriber_name), '') = ''
+     OR COALESCE(btrim(p_phone), '') = '' THEN
+    RAISE EXCEPTION 'Missing required transfer-in fields';
+  END IF;
+
+  INSERT INTO transfer_in_requests (
+    patient_name, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone,
+    medication_names, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  )
+  VALUES (
+    btrim(p_patient_name), p_dob, btrim(p_phone), NULLIF(btrim(p_email), ''),
+    btrim(p_current_pharmacy_name), btrim(p_current_pharmacy_phone),
+    btrim(p_medication_names), btrim(p_prescriber_name), NULLIF(btrim(p_prescriber_phone), ''),
+    p_preferred_service, NULLIF(btrim(p_notes), ''), p_consent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_transfer_in_request(TEXT, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, service_preference, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_transfer_in_request(TEXT, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, service_preference, TEXT, BOOLEAN) TO anon, authenticated, service_role;
@@ -0,0 +1,26 @@
+-- Reverts 005_transfer_request_prescriptions.sql. Only the first prescription
+-- of each request fits back into the single rx_number / rx_fill_date columns;
+-- any others are dropped with the child table.
+
+DROP FUNCTION IF EXISTS submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID);
+
+ALTER TABLE transfer_requests
+  ADD COLUMN rx_number VARCHAR(50),
+  ADD COLUMN rx_fill_date DATE;
+
+UPDATE transfer_requests AS t
+SET rx_number = p.rx_number,
+    rx_fill_date = p.rx_fill_date
+FROM transfer_request_prescriptions AS p
+WHERE p.transfer_request_id = t.id
+  AND p.position = (
+    SELECT min(position) FROM transfer_request_prescriptions WHERE transfer_request_id = t.id
+  );
+
+ALTER TABLE transfer_requests
+  ALTER COLUMN rx_number SET NOT NULL,
+  ALTER COLUMN rx_fill_date SET NOT NULL;
+
+CREATE INDEX idx_transfer_requests_rx_number ON transfer_requests(rx_number);
+
+DROP TABLE IF EXISTS transfer_request_prescriptions;
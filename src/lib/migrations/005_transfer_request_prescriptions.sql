@@ -0,0 +1,92 @@
+-- ============================================
+-- Multiple prescriptions per transfer request
+-- ============================================
+-- A transfer request names one destination pharmacy and one or more
+-- prescriptions. BestRX transfers one Rx per call, so each prescription keeps
+-- its own result; a retry from the outbox skips those already transferred.
+
+CREATE TABLE IF NOT EXISTS transfer_request_prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_request_id UUID NOT NULL REFERENCES transfer_requests(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  rx_number VARCHAR(50) NOT NULL,
+  rx_fill_date DATE NOT NULL,
+  transferred BOOLEAN NOT NULL DEFAULT FALSE,
+  submission_result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (transfer_request_id, position)
+);
+
+CREATE INDEX idx_transfer_request_prescriptions_rx_number ON transfer_request_prescriptions(rx_number);
+
+ALTER TABLE transfer_request_prescriptions ENABLE ROW LEVEL SECURITY;
+
+-- Move the single prescription of existing requests into the child table
+INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date, transferred, created_at)
+SELECT id, 1, rx_number, rx_fill_date, submission_status = 'succeeded', created_at
+FROM transfer_requests;
+
+DROP INDEX IF EXISTS idx_transfer_requests_rx_number;
+ALTER TABLE transfer_requests
+  DROP COLUMN rx_number,
+  DROP COLUMN rx_fill_date;
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Stores the request and its prescriptions in one transaction. Called by the
+-- submit-transfer-request Edge Function with the service role.
+-- p_prescriptions: [{ "rxNumber": "...", "rxFillDate": "YYYY-MM-DD" }, ...]
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) TO service_role;
@@ -0,0 +1,120 @@
+-- Reverts 006_confirmation_codes.sql. Confirmation codes, patient-facing
+-- statuses, transfer dates of birth and the lookup log are dropped.
+
+DROP FUNCTION IF EXISTS lookup_request_status(TEXT, DATE);
+DROP FUNCTION IF EXISTS request_client_ip();
+DROP TABLE IF EXISTS status_lookup_attempts;
+
+-- ============================================
+-- submit_transfer_request without the date of birth (as in 005)
+-- ============================================
+DROP FUNCTION IF EXISTS submit_transfer_request(DATE, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID);
+
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) TO service_role;
+
+-- ============================================
+-- record_submission_outcome (as in 003)
+-- ============================================
+CREATE OR REPLACE FUNCTION record_submission_outcome(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status submission_status,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_in INTERVAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = $2,
+        submission_result = COALESCE($3, submission_result),
+        last_submission_error = $4,
+        next_attempt_at = CASE WHEN $5 IS NULL THEN next_attempt_at ELSE CURRENT_TIMESTAMP + $5 END,
+        submitted_at = CASE WHEN $2 = 'succeeded' THEN CURRENT_TIMESTAMP ELSE submitted_at END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  $q$, v_table)
+  USING p_request_id, p_status, p_result, p_error, p_retry_in;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refill_requests_confirmation_code ON refill_requests;
+DROP TRIGGER IF EXISTS transfer_requests_confirmation_code ON transfer_requests;
+DROP FUNCTION IF EXISTS assign_confirmation_code();
+DROP FUNCTION IF EXISTS generate_confirmation_code(TEXT);
+
+DROP INDEX IF EXISTS idx_refill_requests_confirmation_code;
+DROP INDEX IF EXISTS idx_transfer_requests_confirmation_code;
+
+ALTER TABLE refill_requests
+  DROP COLUMN IF EXISTS confirmation_code,
+  DROP COLUMN IF EXISTS request_status;
+
+ALTER TABLE transfer_requests
+  DROP COLUMN IF EXISTS confirmation_code,
+  DROP COLUMN IF EXISTS request_status,
+  DROP COLUMN IF EXISTS patient_dob;
+
+DROP TYPE IF EXISTS request_status;
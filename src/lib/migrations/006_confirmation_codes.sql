@@ -0,0 +1,299 @@
+-- ============================================
+-- Confirmation codes and patient status lookup
+-- ============================================
+-- Every refill and transfer request gets a short confirmation code
+-- (e.g. RF-7K3M-9QX2) that the patient can use with their date of birth to
+-- check progress on the "Check status" page.
+
+CREATE TYPE request_status AS ENUM ('received', 'submitted', 'ready_for_pickup', 'out_for_delivery');
+
+-- Transfers out had no patient identifier; the date of birth is needed to
+-- verify status lookups. Older rows keep NULL and cannot be looked up.
+ALTER TABLE transfer_requests ADD COLUMN IF NOT EXISTS patient_dob DATE;
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS confirmation_code VARCHAR(12),
+  ADD COLUMN IF NOT EXISTS request_status request_status NOT NULL DEFAULT 'received';
+
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS confirmation_code VARCHAR(12),
+  ADD COLUMN IF NOT EXISTS request_status request_status NOT NULL DEFAULT 'received';
+
+UPDATE refill_requests SET request_status = 'submitted' WHERE submission_status = 'succeeded';
+UPDATE transfer_requests SET request_status = 'submitted' WHERE submission_status = 'succeeded';
+
+-- ============================================
+-- Code generation
+-- ============================================
+-- Alphabet without look-alike characters (0/O, 1/I/L). Eight characters give
+-- ~10^12 combinations; lookups are rate-limited and also require the DOB.
+CREATE OR REPLACE FUNCTION generate_confirmation_code(p_prefix TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_bytes BYTEA := uuid_send(gen_random_uuid());
+  v_code TEXT := '';
+  v_index INTEGER;
+BEGIN
+  -- Bytes 6 and 8 of a v4 UUID carry version/variant bits, so skip them
+  FOREACH v_index IN ARRAY ARRAY[0, 1, 2, 3, 4, 5, 10, 11] LOOP
+    v_code := v_code || substr(v_alphabet, get_byte(v_bytes, v_index) % length(v_alphabet) + 1, 1);
+  END LOOP;
+
+  RETURN p_prefix || '-' || substr(v_code, 1, 4) || '-' || substr(v_code, 5, 4);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_confirmation_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_prefix TEXT := CASE TG_TABLE_NAME WHEN 'refill_requests' THEN 'RF' ELSE 'TR' END;
+  v_taken BOOLEAN;
+BEGIN
+  IF NEW.confirmation_code IS NULL THEN
+    LOOP
+      NEW.confirmation_code := generate_confirmation_code(v_prefix);
+      EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE confirmation_code = $1)', TG_TABLE_NAME)
+        INTO v_taken
+        USING NEW.confirmation_code;
+      EXIT WHEN NOT v_taken;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_confirmation_code
+  BEFORE INSERT ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION assign_confirmation_code();
+
+CREATE TRIGGER transfer_requests_confirmation_code
+  BEFORE INSERT ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION assign_confirmation_code();
+
+UPDATE refill_requests SET confirmation_code = generate_confirmation_code('RF') WHERE confirmation_code IS NULL;
+UPDATE transfer_requests SET confirmation_code = generate_confirmation_code('TR') WHERE confirmation_code IS NULL;
+
+ALTER TABLE refill_requests ALTER COLUMN confirmation_code SET NOT NULL;
+ALTER TABLE transfer_requests ALTER COLUMN confirmation_code SET NOT NULL;
+
+CREATE UNIQUE INDEX idx_refill_requests_confirmation_code ON refill_requests(confirmation_code);
+CREATE UNIQUE INDEX idx_transfer_requests_confirmation_code ON transfer_requests(confirmation_code);
+
+-- ============================================
+-- Submitted to BestRX
+-- ============================================
+-- Same as 003, plus moving the patient-facing status to 'submitted'.
+-- 'ready_for_pickup' and 'out_for_delivery' are set by staff.
+CREATE OR REPLACE FUNCTION record_submission_outcome(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status submission_status,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_in INTERVAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = $2,
+        submission_result = COALESCE($3, submission_result),
+        last_submission_error = $4,
+        next_attempt_at = CASE WHEN $5 IS NULL THEN next_attempt_at ELSE CURRENT_TIMESTAMP + $5 END,
+        submitted_at = CASE WHEN $2 = 'succeeded' THEN CURRENT_TIMESTAMP ELSE submitted_at END,
+        request_status = CASE
+          WHEN $2 = 'succeeded' AND request_status = 'received' THEN 'submitted'
+          ELSE request_status
+        END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  $q$, v_table)
+  USING p_request_id, p_status, p_result, p_error, p_retry_in;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request: patient date of birth
+-- ============================================
+DROP FUNCTION IF EXISTS submit_transfer_request(JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID);
+
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_transfer_request(DATE, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_transfer_request(DATE, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) TO service_role;
+
+-- ============================================
+-- Status lookup (rate-limited)
+-- ============================================
+-- Every lookup is logged. A client IP gets 10 lookups per 15 minutes, and 5
+-- failed lookups per hour for any one confirmation code, so codes cannot be
+-- enumerated and a known code cannot be used to guess a date of birth. The
+-- code limit is per IP: failures from someone else cannot lock the patient out.
+CREATE TABLE IF NOT EXISTS status_lookup_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  client_ip TEXT NOT NULL,
+  confirmation_code VARCHAR(12) NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_status_lookup_attempts_client_ip ON status_lookup_attempts(client_ip, attempted_at);
+CREATE INDEX idx_status_lookup_attempts_code ON status_lookup_attempts(confirmation_code, client_ip, attempted_at);
+
+ALTER TABLE status_lookup_attempts ENABLE ROW LEVEL SECURITY;
+
+-- The caller's IP as seen by the Supabase API gateway. The gateway appends
+-- the address it received the request from to X-Forwarded-For, so only the
+-- last entry is trustworthy; anything before it was sent by the caller.
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    NULLIF(btrim(regexp_replace(
+      COALESCE(NULLIF(current_setting('request.headers', true), '')::json->>'x-forwarded-for', ''),
+      '^.*,', ''
+    )), ''),
+    'unknown'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_client_ip() FROM PUBLIC, anon, authenticated;
+
+-- Returns NULL when no request matches; the caller cannot tell whether the
+-- code or the date of birth was wrong.
+CREATE OR REPLACE FUNCTION lookup_request_status(
+  p_confirmation_code TEXT,
+  p_dob DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stripped TEXT := upper(regexp_replace(COALESCE(p_confirmation_code, ''), '[^A-Za-z0-9]', '', 'g'));
+  v_code TEXT;
+  v_client_ip TEXT := request_client_ip();
+  v_result JSONB;
+BEGIN
+  IF length(v_stripped) <> 10 THEN
+    RETURN NULL;
+  END IF;
+  v_code := substr(v_stripped, 1, 2) || '-' || substr(v_stripped, 3, 4) || '-' || substr(v_stripped, 7, 4);
+
+  DELETE FROM status_lookup_attempts WHERE attempted_at < CURRENT_TIMESTAMP - INTERVAL '1 day';
+
+  IF (SELECT count(*) FROM status_lookup_attempts
+      WHERE client_ip = v_client_ip
+        AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '15 minutes') >= 10
+     OR (SELECT count(*) FROM status_lookup_attempts
+         WHERE confirmation_code = v_code AND client_ip = v_client_ip AND NOT succeeded
+           AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') >= 5 THEN
+    RAISE EXCEPTION 'Too many status checks. Please try again later or call us at (614) 349-5140.';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'requestType', 'refill',
+    'confirmationCode', confirmation_code,
+    'status', request_status,
+    'preferredService', preferred_service,
+    'receivedAt', created_at,
+    'updatedAt', updated_at
+  )
+  INTO v_result
+  FROM refill_requests
+  WHERE confirmation_code = v_code AND dob = p_dob;
+
+  IF v_result IS NULL THEN
+    SELECT jsonb_build_object(
+      'requestType', 'transfer',
+      'confirmationCode', confirmation_code,
+      'status', request_status,
+      'preferredService', NULL,
+      'receivedAt', created_at,
+      'updatedAt', updated_at
+    )
+    INTO v_result
+    FROM transfer_requests
+    WHERE confirmation_code = v_code AND patient_dob = p_dob;
+  END IF;
+
+  INSERT INTO status_lookup_attempts (client_ip, confirmation_code, succeeded)
+  VALUES (v_client_ip, v_code, v_result IS NOT NULL);
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lookup_request_status(TEXT, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION lookup_request_status(TEXT, DATE) TO anon, authenticated, service_role;
@@ -0,0 +1,18 @@
+-- Reverts 007_structured_patient_names.sql. patient_name keeps the display
+-- name it was generating and becomes a plain column again.
+
+ALTER TABLE refill_requests ALTER COLUMN patient_name DROP EXPRESSION;
+
+ALTER TABLE refill_requests
+  ALTER COLUMN patient_name TYPE VARCHAR(255),
+  ALTER COLUMN patient_name SET NOT NULL;
+
+CREATE INDEX idx_refill_requests_patient_name ON refill_requests(patient_name);
+DROP INDEX IF EXISTS idx_refill_requests_patient_last_name;
+
+ALTER TABLE refill_requests
+  DROP CONSTRAINT IF EXISTS refill_requests_patient_suffix_check,
+  DROP COLUMN IF EXISTS patient_first_name,
+  DROP COLUMN IF EXISTS patient_middle_name,
+  DROP COLUMN IF EXISTS patient_last_name,
+  DROP COLUMN IF EXISTS patient_suffix;
@@ -0,0 +1,137 @@
+-- ============================================
+-- Structured patient names on refill requests
+-- ============================================
+-- BestRX matches refills on LastName. Guessing it from the last word of a
+-- single name field broke "Maria de la Cruz" and "John Smith Jr.", so the
+-- name is now stored as first / middle / last / suffix. patient_name stays
+-- as a generated display column so existing reads keep working.
+
+CREATE OR REPLACE FUNCTION normalize_name_suffix(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(regexp_replace(COALESCE(p_value, ''), '[.[:space:]]', '', 'g'))
+    WHEN 'jr' THEN 'Jr'
+    WHEN 'sr' THEN 'Sr'
+    WHEN 'ii' THEN 'II'
+    WHEN '2nd' THEN 'II'
+    WHEN 'iii' THEN 'III'
+    WHEN '3rd' THEN 'III'
+    WHEN 'iv' THEN 'IV'
+    WHEN '4th' THEN 'IV'
+    WHEN 'v' THEN 'V'
+  END;
+$$;
+
+-- Mirrors splitFullName in src/lib/names.ts: "Last, First Middle", a trailing
+-- suffix and surname particles ("de la Cruz"). A single word becomes the last name.
+CREATE OR REPLACE FUNCTION split_patient_name(p_full_name TEXT)
+RETURNS TABLE (first_name TEXT, middle_name TEXT, last_name TEXT, suffix TEXT)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_name TEXT := btrim(regexp_replace(
+    regexp_replace(COALESCE(p_full_name, ''), '[[:space:]]+', ' ', 'g'),
+    ' ?- ?', '-', 'g'
+  ));
+  v_parts TEXT[];
+  v_tokens TEXT[];
+  v_start INTEGER;
+BEGIN
+  v_parts := ARRAY(
+    SELECT btrim(part)
+    FROM unnest(string_to_array(v_name, ',')) AS part
+    WHERE btrim(part) <> ''
+  );
+
+  IF cardinality(v_parts) > 1 THEN
+    suffix := normalize_name_suffix(v_parts[cardinality(v_parts)]);
+    IF suffix IS NOT NULL THEN
+      v_parts := v_parts[1:cardinality(v_parts) - 1];
+    END IF;
+    IF cardinality(v_parts) > 1 THEN
+      last_name := v_parts[1];
+      v_parts := v_parts[2:];
+    END IF;
+  END IF;
+
+  v_tokens := ARRAY(
+    SELECT token
+    FROM unnest(string_to_array(array_to_string(v_parts, ' '), ' ')) AS token
+    WHERE token <> ''
+  );
+
+  -- Keep at least the first name, plus the last name when no "Last," part was taken
+  IF suffix IS NULL AND cardinality(v_tokens) > (CASE WHEN last_name IS NULL THEN 2 ELSE 1 END) THEN
+    suffix := normalize_name_suffix(v_tokens[cardinality(v_tokens)]);
+    IF suffix IS NOT NULL THEN
+      v_tokens := v_tokens[1:cardinality(v_tokens) - 1];
+    END IF;
+  END IF;
+
+  IF last_name IS NOT NULL THEN
+    first_name := COALESCE(v_tokens[1], '');
+    middle_name := NULLIF(array_to_string(v_tokens[2:], ' '), '');
+  ELSIF cardinality(v_tokens) <= 1 THEN
+    first_name := '';
+    last_name := COALESCE(v_tokens[1], '');
+  ELSE
+    v_start := cardinality(v_tokens);
+    WHILE v_start > 2 AND lower(v_tokens[v_start - 1]) = ANY (ARRAY[
+      'bin', 'da', 'das', 'de', 'del', 'della', 'den', 'der', 'di', 'dos', 'du',
+      'ibn', 'la', 'le', 'st', 'st.', 'ten', 'ter', 'van', 'von'
+    ]) LOOP
+      v_start := v_start - 1;
+    END LOOP;
+
+    first_name := v_tokens[1];
+    middle_name := NULLIF(array_to_string(v_tokens[2:v_start - 1], ' '), '');
+    last_name := array_to_string(v_tokens[v_start:], ' ');
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- ============================================
+-- Split existing rows
+-- ============================================
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS patient_first_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_middle_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_last_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_suffix VARCHAR(10);
+
+UPDATE refill_requests
+SET (patient_first_name, patient_middle_name, patient_last_name, patient_suffix) = (
+  SELECT s.first_name, s.middle_name, s.last_name, s.suffix
+  FROM split_patient_name(patient_name) AS s
+);
+
+ALTER TABLE refill_requests
+  ALTER COLUMN patient_first_name SET NOT NULL,
+  ALTER COLUMN patient_last_name SET NOT NULL,
+  ADD CONSTRAINT refill_requests_patient_suffix_check
+    CHECK (patient_suffix IN ('Jr', 'Sr', 'II', 'III', 'IV', 'V'));
+
+DROP INDEX IF EXISTS idx_refill_requests_patient_name;
+ALTER TABLE refill_requests DROP COLUMN patient_name;
+
+ALTER TABLE refill_requests
+  ADD COLUMN patient_name TEXT GENERATED ALWAYS AS (
+    btrim(
+      patient_first_name
+      || COALESCE(' ' || patient_middle_name, '')
+      || ' ' || patient_last_name
+      || COALESCE(' ' || patient_suffix, '')
+    )
+  ) STORED;
+
+CREATE INDEX idx_refill_requests_patient_last_name
+  ON refill_requests(patient_last_name, patient_first_name);
+
+DROP FUNCTION split_patient_name(TEXT);
+DROP FUNCTION normalize_name_suffix(TEXT);
@@ -0,0 +1,24 @@
+-- Reverts 008_refill_request_prescriptions.sql. Line items are joined back
+-- into the comma-separated columns in position order; a prescription without
+-- a medication name leaves an empty entry so the two lists stay aligned.
+
+DROP FUNCTION IF EXISTS submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID);
+
+ALTER TABLE refill_requests
+  ADD COLUMN prescription_numbers TEXT,
+  ADD COLUMN medication_names TEXT;
+
+UPDATE refill_requests AS r
+SET (prescription_numbers, medication_names) = (
+  SELECT
+    COALESCE(string_agg(p.rx_number, ', ' ORDER BY p.position), ''),
+    COALESCE(string_agg(COALESCE(p.medication_name, ''), ', ' ORDER BY p.position), '')
+  FROM refill_request_prescriptions AS p
+  WHERE p.refill_request_id = r.id
+);
+
+ALTER TABLE refill_requests
+  ALTER COLUMN prescription_numbers SET NOT NULL,
+  ALTER COLUMN medication_names SET NOT NULL;
+
+DROP TABLE IF EXISTS refill_request_prescriptions;
@@ -0,0 +1,111 @@
+-- ============================================
+-- Prescription line items on refill requests
+-- ============================================
+-- Refill prescriptions used to be two comma-separated TEXT columns zipped by
+-- position, so one missing comma shifted every medication name. Each
+-- prescription is now its own row with its medication name alongside.
+
+CREATE TABLE IF NOT EXISTS refill_request_prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refill_request_id UUID NOT NULL REFERENCES refill_requests(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  rx_number VARCHAR(50) NOT NULL,
+  medication_name VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (refill_request_id, position)
+);
+
+CREATE INDEX idx_refill_request_prescriptions_rx_number ON refill_request_prescriptions(rx_number);
+
+ALTER TABLE refill_request_prescriptions ENABLE ROW LEVEL SECURITY;
+
+-- Split existing requests the same way buildRefillRequestPayload used to:
+-- blanks dropped from both lists, then names paired with numbers by position
+INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name, created_at)
+SELECT r.id, rx.position, rx.value, med.value, r.created_at
+FROM refill_requests AS r
+CROSS JOIN LATERAL (
+  SELECT row_number() OVER (ORDER BY item.ordinality) AS position, btrim(item.value) AS value
+  FROM unnest(string_to_array(r.prescription_numbers, ',')) WITH ORDINALITY AS item(value, ordinality)
+  WHERE btrim(item.value) <> ''
+) AS rx
+LEFT JOIN LATERAL (
+  SELECT row_number() OVER (ORDER BY item.ordinality) AS position, btrim(item.value) AS value
+  FROM unnest(string_to_array(r.medication_names, ',')) WITH ORDINALITY AS item(value, ordinality)
+  WHERE btrim(item.value) <> ''
+) AS med ON med.position = rx.position;
+
+ALTER TABLE refill_requests
+  DROP COLUMN prescription_numbers,
+  DROP COLUMN medication_names;
+
+-- ============================================
+-- submit_refill_request RPC
+-- ============================================
+-- Stores the request and its prescriptions in one transaction. Called by the
+-- send-refill-request Edge Function with the service role.
+-- p_prescriptions: [{ "rxNumber": "...", "medicationName": "..." }, ...]
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE COALESCE(btrim(item.value->>'rxNumber'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every prescription needs an Rx number';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT upper(btrim(item.value->>'rxNumber'))) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''), p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID) TO service_role;
@@ -0,0 +1,188 @@
+-- Reverts 009_domain_validators.sql: the submission RPCs go back to their
+-- earlier definitions and the validator functions are dropped. Values that
+-- were normalized on the way in (E.164 phones, ZIPs, Rx numbers) stay as stored.
+
+-- ============================================
+-- submit_refill_request (as in 008)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE COALESCE(btrim(item.value->>'rxNumber'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every prescription needs an Rx number';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT upper(btrim(item.value->>'rxNumber'))) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''), p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request (as in 006)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, btrim(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_in_request (as in 004)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_in_request(
+  p_patient_name TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_medication_names TEXT,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT COALESCE(p_consent, FALSE) THEN
+    RAISE EXCEPTION 'Consent is required to transfer a prescription';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_phone), '') = ''
+     OR COALESCE(btrim(p_medication_names), '') = ''
+     OR COALESCE(btrim(p_prescriber_name), '') = ''
+     OR COALESCE(btrim(p_phone), '') = '' THEN
+    RAISE EXCEPTION 'Missing required transfer-in fields';
+  END IF;
+
+  INSERT INTO transfer_in_requests (
+    patient_name, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone,
+    medication_names, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  )
+  VALUES (
+    btrim(p_patient_name), p_dob, btrim(p_phone), NULLIF(btrim(p_email), ''),
+    btrim(p_current_pharmacy_name), btrim(p_current_pharmacy_phone),
+    btrim(p_medication_names), btrim(p_prescriber_name), NULLIF(btrim(p_prescriber_phone), ''),
+    p_preferred_service, NULLIF(btrim(p_notes), ''), p_consent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS is_valid_rx_number(TEXT);
+DROP FUNCTION IF EXISTS normalize_rx_number(TEXT);
+DROP FUNCTION IF EXISTS is_valid_ncpdp(TEXT);
+DROP FUNCTION IF EXISTS normalize_zip(TEXT);
+DROP FUNCTION IF EXISTS is_us_state_code(TEXT);
+DROP FUNCTION IF EXISTS is_valid_dob(DATE);
+DROP FUNCTION IF EXISTS normalize_us_phone(TEXT);
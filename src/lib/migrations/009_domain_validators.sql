@@ -0,0 +1,336 @@
+-- ============================================
+-- Domain validators
+-- ============================================
+-- SQL versions of the rules in src/lib/validators.ts, so the submission RPCs
+-- reject what the forms would reject even when called directly. Phones are
+-- stored in E.164 and ZIPs as "12345" or "12345-6789".
+--
+-- Invalid input raises invalid_parameter_value (22023), which the submission
+-- Edge Functions return to the patient as a 400.
+
+CREATE OR REPLACE FUNCTION normalize_us_phone(p_value TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(COALESCE(p_value, ''), '[^0-9]', '', 'g');
+BEGIN
+  IF length(v_digits) = 11 AND left(v_digits, 1) = '1' THEN
+    v_digits := substr(v_digits, 2);
+  END IF;
+
+  -- Area code and exchange cannot start with 0 or 1
+  IF v_digits ~ '^[2-9][0-9]{2}[2-9][0-9]{6}$' THEN
+    RETURN '+1' || v_digits;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- In the past and at most 120 years ago
+CREATE OR REPLACE FUNCTION is_valid_dob(p_dob DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_dob IS NOT NULL
+    AND p_dob <= CURRENT_DATE
+    AND p_dob >= (CURRENT_DATE - INTERVAL '120 years')::DATE;
+$$;
+
+-- USPS codes: states, DC, territories and military post offices
+CREATE OR REPLACE FUNCTION is_us_state_code(p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_value = ANY (ARRAY[
+    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL',
+    'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE',
+    'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD',
+    'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+    'AS', 'GU', 'MP', 'PR', 'VI',
+    'AA', 'AE', 'AP'
+  ]), FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION normalize_zip(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN btrim(p_value) ~ '^[0-9]{5}$' THEN btrim(p_value)
+    WHEN btrim(p_value) ~ '^[0-9]{5}[ -]?[0-9]{4}$'
+      THEN left(btrim(p_value), 5) || '-' || right(btrim(p_value), 4)
+  END;
+$$;
+
+-- 7 digits; the last is (d1 + d3 + d5) + 2 * (d2 + d4 + d6), units digit
+CREATE OR REPLACE FUNCTION is_valid_ncpdp(p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_total INTEGER;
+BEGIN
+  IF p_value IS NULL OR p_value !~ '^[0-9]{7}$' THEN
+    RETURN FALSE;
+  END IF;
+
+  v_total := substr(p_value, 1, 1)::INTEGER + substr(p_value, 3, 1)::INTEGER + substr(p_value, 5, 1)::INTEGER
+    + 2 * (substr(p_value, 2, 1)::INTEGER + substr(p_value, 4, 1)::INTEGER + substr(p_value, 6, 1)::INTEGER);
+  RETURN v_total % 10 = substr(p_value, 7, 1)::INTEGER;
+END;
+$$;
+
+-- Strips "Rx", "#" and spaces; BestRX Rx numbers are 4 to 12 digits
+CREATE OR REPLACE FUNCTION normalize_rx_number(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    regexp_replace(btrim(COALESCE(p_value, '')), '^[Rr][Xx][[:space:]]*#?|^#', ''),
+    '[[:space:]]', '', 'g'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_rx_number(p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_value ~ '^[0-9]{4,12}$', FALSE);
+$$;
+
+-- ============================================
+-- submit_refill_request
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, v_phone, NULLIF(p_email, ''), p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_state TEXT := upper(btrim(p_transfer_to_pharmacy_state));
+  v_zip TEXT := normalize_zip(p_transfer_to_pharmacy_zip);
+  v_phone TEXT := normalize_us_phone(p_transfer_to_pharmacy_phone);
+  v_ncpdp TEXT := NULLIF(btrim(p_transfer_to_pharmacy_ncpdp), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT is_valid_dob(p_patient_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+       OR COALESCE(item.value->>'rxFillDate', '') !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number or fill date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_us_state_code(v_state) THEN
+    RAISE EXCEPTION 'Invalid state' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_zip IS NULL THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid pharmacy phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_ncpdp IS NOT NULL AND NOT is_valid_ncpdp(v_ncpdp) THEN
+    RAISE EXCEPTION 'Invalid NCPDP number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, v_state, v_zip,
+    v_phone, v_ncpdp,
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_in_request
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_in_request(
+  p_patient_name TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_medication_names TEXT,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_pharmacy_phone TEXT := normalize_us_phone(p_current_pharmacy_phone);
+  v_prescriber_phone TEXT := normalize_us_phone(p_prescriber_phone);
+BEGIN
+  IF NOT COALESCE(p_consent, FALSE) THEN
+    RAISE EXCEPTION 'Consent is required to transfer a prescription';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_medication_names), '') = ''
+     OR COALESCE(btrim(p_prescriber_name), '') = '' THEN
+    RAISE EXCEPTION 'Missing required transfer-in fields';
+  END IF;
+
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL OR v_pharmacy_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_prescriber_phone), '') <> '' AND v_prescriber_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid prescriber phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_in_requests (
+    patient_name, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone,
+    medication_names, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  )
+  VALUES (
+    btrim(p_patient_name), p_dob, v_phone, NULLIF(btrim(p_email), ''),
+    btrim(p_current_pharmacy_name), v_pharmacy_phone,
+    btrim(p_medication_names), btrim(p_prescriber_name), v_prescriber_phone,
+    p_preferred_service, NULLIF(btrim(p_notes), ''), p_consent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
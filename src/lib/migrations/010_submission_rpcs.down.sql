@@ -0,0 +1,171 @@
+-- Reverts 010_submission_rpcs.sql
+
+DROP FUNCTION IF EXISTS submit_splash_modal_signup(TEXT);
+DROP FUNCTION IF EXISTS submit_waitlist_entry(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN);
+
+ALTER TABLE transfer_requests RENAME COLUMN transfer_to_pharmacy_ncpdp TO transfer_to_pharmacy_ncdp;
+
+-- ============================================
+-- submit_refill_request (as in 009)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, v_phone, NULLIF(p_email, ''), p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request (as in 009)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_state TEXT := upper(btrim(p_transfer_to_pharmacy_state));
+  v_zip TEXT := normalize_zip(p_transfer_to_pharmacy_zip);
+  v_phone TEXT := normalize_us_phone(p_transfer_to_pharmacy_phone);
+  v_ncpdp TEXT := NULLIF(btrim(p_transfer_to_pharmacy_ncpdp), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT is_valid_dob(p_patient_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+       OR COALESCE(item.value->>'rxFillDate', '') !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number or fill date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_us_state_code(v_state) THEN
+    RAISE EXCEPTION 'Invalid state' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_zip IS NULL THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid pharmacy phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_ncpdp IS NOT NULL AND NOT is_valid_ncpdp(v_ncpdp) THEN
+    RAISE EXCEPTION 'Invalid NCPDP number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, v_state, v_zip,
+    v_phone, v_ncpdp,
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS is_valid_email(TEXT);
@@ -0,0 +1,333 @@
+-- ============================================
+-- Submission RPCs for the public forms
+-- ============================================
+-- hooks.ts calls submit_contact_form, submit_waitlist_entry and
+-- submit_splash_modal_signup directly with the anon key; refills and
+-- transfers go through the Edge Functions. Every function validates its
+-- input the way schemas.ts does and returns the row id. Invalid input raises
+-- invalid_parameter_value (22023).
+
+-- The column was misspelled in 001
+ALTER TABLE transfer_requests RENAME COLUMN transfer_to_pharmacy_ncdp TO transfer_to_pharmacy_ncpdp;
+
+-- Deliberately loose (one @, a dot in the domain, no spaces); the forms
+-- apply the stricter zod check before calling
+CREATE OR REPLACE FUNCTION is_valid_email(p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(btrim(p_value), '') ~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$';
+$$;
+
+-- ============================================
+-- submit_contact_form
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_contact_form(
+  p_name TEXT,
+  p_phone TEXT,
+  p_email TEXT,
+  p_reason contact_reason,
+  p_message TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+BEGIN
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_email(p_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_reason IS NULL OR p_consent IS NULL THEN
+    RAISE EXCEPTION 'Missing required contact fields' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_message), '') = '' THEN
+    RAISE EXCEPTION 'Message is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO contact_messages (name, phone, email, reason, message, consent)
+  VALUES (btrim(p_name), v_phone, lower(btrim(p_email)), p_reason, btrim(p_message), p_consent)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_waitlist_entry
+-- ============================================
+-- Signing up again with the same email returns the existing entry unchanged
+-- (emails are compared case-insensitively), so the form can always show success.
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_email TEXT := lower(btrim(p_email));
+  v_phone TEXT := normalize_us_phone(p_phone);
+BEGIN
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO waitlist_entries (name, email, phone)
+  SELECT btrim(p_name), v_email, v_phone
+  WHERE NOT EXISTS (SELECT 1 FROM waitlist_entries WHERE lower(email) = v_email)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM waitlist_entries WHERE lower(email) = v_email ORDER BY created_at LIMIT 1;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_splash_modal_signup
+-- ============================================
+-- Same duplicate handling as the waitlist
+CREATE OR REPLACE FUNCTION submit_splash_modal_signup(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_email TEXT := lower(btrim(p_email));
+BEGIN
+  IF NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO splash_modal_submissions (email)
+  SELECT v_email
+  WHERE NOT EXISTS (SELECT 1 FROM splash_modal_submissions WHERE lower(email) = v_email)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM splash_modal_submissions WHERE lower(email) = v_email ORDER BY created_at LIMIT 1;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION submit_waitlist_entry(TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION submit_splash_modal_signup(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry(TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION submit_splash_modal_signup(TEXT) TO anon, authenticated, service_role;
+
+-- ============================================
+-- submit_refill_request
+-- ============================================
+-- Same as 009, plus the optional email and the name rules from namePartSchema
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF concat(p_patient_first_name, p_patient_middle_name, p_patient_last_name) !~ '^[[:alpha:]'' .-]*$'
+     OR greatest(length(btrim(p_patient_first_name)), length(btrim(p_patient_middle_name)), length(btrim(p_patient_last_name))) > 100 THEN
+    RAISE EXCEPTION 'Names can only contain letters, spaces, hyphens and apostrophes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_email IS NOT NULL AND NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, v_phone, v_email, p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request
+-- ============================================
+-- Same as 009 with the renamed column, plus the required pharmacy fields and
+-- the duplicate prescription check from TransferFormDataSchema
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_state TEXT := upper(btrim(p_transfer_to_pharmacy_state));
+  v_zip TEXT := normalize_zip(p_transfer_to_pharmacy_zip);
+  v_phone TEXT := normalize_us_phone(p_transfer_to_pharmacy_phone);
+  v_ncpdp TEXT := NULLIF(btrim(p_transfer_to_pharmacy_ncpdp), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT is_valid_dob(p_patient_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+       OR COALESCE(item.value->>'rxFillDate', '') !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number or fill date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_transfer_to_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_address1), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_city), '') = '' THEN
+    RAISE EXCEPTION 'Pharmacy name, address and city are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_us_state_code(v_state) THEN
+    RAISE EXCEPTION 'Invalid state' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_zip IS NULL THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid pharmacy phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_ncpdp IS NOT NULL AND NOT is_valid_ncpdp(v_ncpdp) THEN
+    RAISE EXCEPTION 'Invalid NCPDP number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncpdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    btrim(p_transfer_to_pharmacy_name), btrim(p_transfer_to_pharmacy_address1), NULLIF(btrim(p_transfer_to_pharmacy_address2), ''),
+    btrim(p_transfer_to_pharmacy_city), v_state, v_zip,
+    v_phone, v_ncpdp,
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
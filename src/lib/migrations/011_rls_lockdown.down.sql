@@ -0,0 +1,41 @@
+-- Reverts 011_rls_lockdown.sql, reopening the public policies from 001.
+
+DROP POLICY IF EXISTS "Staff can read" ON contact_messages;
+DROP POLICY IF EXISTS "Staff can update" ON contact_messages;
+DROP POLICY IF EXISTS "Staff can read" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff can update" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff can read" ON splash_modal_submissions;
+DROP POLICY IF EXISTS "Staff can read" ON refill_requests;
+DROP POLICY IF EXISTS "Staff can update" ON refill_requests;
+DROP POLICY IF EXISTS "Staff can read" ON refill_request_prescriptions;
+DROP POLICY IF EXISTS "Staff can read" ON transfer_requests;
+DROP POLICY IF EXISTS "Staff can update" ON transfer_requests;
+DROP POLICY IF EXISTS "Staff can read" ON transfer_request_prescriptions;
+DROP POLICY IF EXISTS "Staff can read" ON transfer_in_requests;
+DROP POLICY IF EXISTS "Staff can update" ON transfer_in_requests;
+
+DROP FUNCTION IF EXISTS is_staff();
+
+-- Supabase's default grants
+GRANT ALL ON
+  contact_messages, waitlist_entries, splash_modal_submissions,
+  refill_requests, refill_request_prescriptions,
+  transfer_requests, transfer_request_prescriptions,
+  transfer_in_requests, status_lookup_attempts
+TO anon, authenticated;
+
+CREATE POLICY "Enable insert for all users" ON contact_messages FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable read for all users" ON contact_messages FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert for all users" ON waitlist_entries FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable read for all users" ON waitlist_entries FOR SELECT USING (true);
+CREATE POLICY "Enable update for all users" ON waitlist_entries FOR UPDATE USING (true);
+
+CREATE POLICY "Enable insert for all users" ON refill_requests FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable read for all users" ON refill_requests FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert for all users" ON transfer_requests FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable read for all users" ON transfer_requests FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert for all users" ON splash_modal_submissions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable read for all users" ON splash_modal_submissions FOR SELECT USING (true);
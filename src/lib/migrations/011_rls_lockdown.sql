@@ -0,0 +1,78 @@
+-- ============================================
+-- Row Level Security lockdown
+-- ============================================
+-- 001 let anyone holding the anon key (which ships in the bundle) read every
+-- table and update the waitlist. Public access is now write-only through the
+-- submission RPCs (010); reading and updating is limited to staff.
+--
+-- Staff are authenticated users whose app_metadata has "role": "staff". Only
+-- the service role can set app_metadata, e.g.
+--   UPDATE auth.users
+--   SET raw_app_meta_data = raw_app_meta_data || '{"role": "staff"}'
+--   WHERE email = 'pharmacist@elevatedwellnessrx.com';
+-- The claim is read from the JWT, so it takes effect at the next sign-in.
+
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'staff';
+$$;
+
+DROP POLICY IF EXISTS "Enable insert for all users" ON contact_messages;
+DROP POLICY IF EXISTS "Enable read for all users" ON contact_messages;
+DROP POLICY IF EXISTS "Enable insert for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable read for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable update for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable insert for all users" ON refill_requests;
+DROP POLICY IF EXISTS "Enable read for all users" ON refill_requests;
+DROP POLICY IF EXISTS "Enable insert for all users" ON transfer_requests;
+DROP POLICY IF EXISTS "Enable read for all users" ON transfer_requests;
+DROP POLICY IF EXISTS "Enable insert for all users" ON splash_modal_submissions;
+DROP POLICY IF EXISTS "Enable read for all users" ON splash_modal_submissions;
+
+-- Supabase grants every privilege on new public tables to anon and
+-- authenticated; RLS was the only thing in the way. Take the grants away too,
+-- so a forgotten policy cannot reopen a table.
+REVOKE ALL ON
+  contact_messages, waitlist_entries, splash_modal_submissions,
+  refill_requests, refill_request_prescriptions,
+  transfer_requests, transfer_request_prescriptions,
+  transfer_in_requests, status_lookup_attempts
+FROM anon, authenticated;
+
+GRANT SELECT ON
+  contact_messages, waitlist_entries, splash_modal_submissions,
+  refill_requests, refill_request_prescriptions,
+  transfer_requests, transfer_request_prescriptions,
+  transfer_in_requests
+TO authenticated;
+
+GRANT UPDATE ON
+  contact_messages, waitlist_entries,
+  refill_requests, transfer_requests, transfer_in_requests
+TO authenticated;
+
+-- ============================================
+-- Staff policies
+-- ============================================
+
+CREATE POLICY "Staff can read" ON contact_messages FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON contact_messages FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can read" ON waitlist_entries FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON waitlist_entries FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can read" ON splash_modal_submissions FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Staff can read" ON refill_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON refill_requests FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON refill_request_prescriptions FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Staff can read" ON transfer_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON transfer_requests FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON transfer_request_prescriptions FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Staff can read" ON transfer_in_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON transfer_in_requests FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
@@ -0,0 +1,473 @@
+-- Reverts 012_phi_encryption.sql: PHI is decrypted back into plaintext
+-- columns, so the keys must still be configured. pgcrypto stays installed.
+
+DROP FUNCTION IF EXISTS staff_find_requests(TEXT, DATE);
+DROP FUNCTION IF EXISTS staff_get_request(TEXT, UUID);
+DROP FUNCTION IF EXISTS get_refill_prescriptions(UUID);
+
+-- ============================================
+-- Decrypt existing rows
+-- ============================================
+
+ALTER TABLE refill_requests
+  ADD COLUMN patient_first_name VARCHAR(100),
+  ADD COLUMN patient_middle_name VARCHAR(100),
+  ADD COLUMN patient_last_name VARCHAR(100),
+  ADD COLUMN dob DATE,
+  ADD COLUMN phone VARCHAR(30),
+  ADD COLUMN email VARCHAR(255),
+  ADD COLUMN notes TEXT;
+
+UPDATE refill_requests
+SET patient_first_name = decrypt_phi(patient_first_name_encrypted),
+    patient_middle_name = decrypt_phi(patient_middle_name_encrypted),
+    patient_last_name = decrypt_phi(patient_last_name_encrypted),
+    dob = decrypt_phi(dob_encrypted)::DATE,
+    phone = decrypt_phi(phone_encrypted),
+    email = decrypt_phi(email_encrypted),
+    notes = decrypt_phi(notes_encrypted);
+
+ALTER TABLE refill_requests
+  ALTER COLUMN patient_first_name SET NOT NULL,
+  ALTER COLUMN patient_last_name SET NOT NULL,
+  ALTER COLUMN dob SET NOT NULL,
+  ALTER COLUMN phone SET NOT NULL,
+  DROP COLUMN patient_first_name_encrypted,
+  DROP COLUMN patient_middle_name_encrypted,
+  DROP COLUMN patient_last_name_encrypted,
+  DROP COLUMN dob_encrypted,
+  DROP COLUMN phone_encrypted,
+  DROP COLUMN email_encrypted,
+  DROP COLUMN notes_encrypted,
+  DROP COLUMN dob_hash,
+  DROP COLUMN phone_hash;
+
+ALTER TABLE refill_requests
+  ADD COLUMN patient_name TEXT GENERATED ALWAYS AS (
+    btrim(
+      patient_first_name
+      || COALESCE(' ' || patient_middle_name, '')
+      || ' ' || patient_last_name
+      || COALESCE(' ' || patient_suffix, '')
+    )
+  ) STORED;
+
+CREATE INDEX idx_refill_requests_email ON refill_requests(email);
+CREATE INDEX idx_refill_requests_patient_last_name
+  ON refill_requests(patient_last_name, patient_first_name);
+
+ALTER TABLE refill_request_prescriptions ADD COLUMN medication_name VARCHAR(255);
+UPDATE refill_request_prescriptions SET medication_name = decrypt_phi(medication_name_encrypted);
+ALTER TABLE refill_request_prescriptions DROP COLUMN medication_name_encrypted;
+
+ALTER TABLE transfer_requests ADD COLUMN patient_dob DATE;
+UPDATE transfer_requests SET patient_dob = decrypt_phi(patient_dob_encrypted)::DATE;
+ALTER TABLE transfer_requests
+  DROP COLUMN patient_dob_encrypted,
+  DROP COLUMN patient_dob_hash;
+
+ALTER TABLE transfer_in_requests
+  ADD COLUMN patient_name VARCHAR(255),
+  ADD COLUMN dob DATE,
+  ADD COLUMN phone VARCHAR(30),
+  ADD COLUMN email VARCHAR(255),
+  ADD COLUMN medication_names TEXT,
+  ADD COLUMN notes TEXT;
+
+UPDATE transfer_in_requests
+SET patient_name = decrypt_phi(patient_name_encrypted),
+    dob = decrypt_phi(dob_encrypted)::DATE,
+    phone = decrypt_phi(phone_encrypted),
+    email = decrypt_phi(email_encrypted),
+    medication_names = decrypt_phi(medication_names_encrypted),
+    notes = decrypt_phi(notes_encrypted);
+
+ALTER TABLE transfer_in_requests
+  ALTER COLUMN patient_name SET NOT NULL,
+  ALTER COLUMN dob SET NOT NULL,
+  ALTER COLUMN phone SET NOT NULL,
+  ALTER COLUMN medication_names SET NOT NULL,
+  DROP COLUMN patient_name_encrypted,
+  DROP COLUMN dob_encrypted,
+  DROP COLUMN phone_encrypted,
+  DROP COLUMN email_encrypted,
+  DROP COLUMN medication_names_encrypted,
+  DROP COLUMN notes_encrypted,
+  DROP COLUMN dob_hash,
+  DROP COLUMN phone_hash;
+
+CREATE INDEX idx_transfer_in_requests_patient_name ON transfer_in_requests(patient_name);
+
+-- ============================================
+-- submit_refill_request (as in 010)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF concat(p_patient_first_name, p_patient_middle_name, p_patient_last_name) !~ '^[[:alpha:]'' .-]*$'
+     OR greatest(length(btrim(p_patient_first_name)), length(btrim(p_patient_middle_name)), length(btrim(p_patient_last_name))) > 100 THEN
+    RAISE EXCEPTION 'Names can only contain letters, spaces, hyphens and apostrophes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_email IS NOT NULL AND NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    dob, phone, email, preferred_service, notes, consent, idempotency_key
+  )
+  VALUES (
+    btrim(p_patient_first_name), NULLIF(btrim(p_patient_middle_name), ''),
+    btrim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_dob, v_phone, v_email, p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), NULLIF(btrim(item.value->>'medicationName'), '')
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request (as in 010)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_state TEXT := upper(btrim(p_transfer_to_pharmacy_state));
+  v_zip TEXT := normalize_zip(p_transfer_to_pharmacy_zip);
+  v_phone TEXT := normalize_us_phone(p_transfer_to_pharmacy_phone);
+  v_ncpdp TEXT := NULLIF(btrim(p_transfer_to_pharmacy_ncpdp), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT is_valid_dob(p_patient_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+       OR COALESCE(item.value->>'rxFillDate', '') !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number or fill date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_transfer_to_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_address1), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_city), '') = '' THEN
+    RAISE EXCEPTION 'Pharmacy name, address and city are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_us_state_code(v_state) THEN
+    RAISE EXCEPTION 'Invalid state' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_zip IS NULL THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid pharmacy phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_ncpdp IS NOT NULL AND NOT is_valid_ncpdp(v_ncpdp) THEN
+    RAISE EXCEPTION 'Invalid NCPDP number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncpdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    p_patient_dob,
+    btrim(p_transfer_to_pharmacy_name), btrim(p_transfer_to_pharmacy_address1), NULLIF(btrim(p_transfer_to_pharmacy_address2), ''),
+    btrim(p_transfer_to_pharmacy_city), v_state, v_zip,
+    v_phone, v_ncpdp,
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_in_request (as in 009)
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_transfer_in_request(
+  p_patient_name TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_medication_names TEXT,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_pharmacy_phone TEXT := normalize_us_phone(p_current_pharmacy_phone);
+  v_prescriber_phone TEXT := normalize_us_phone(p_prescriber_phone);
+BEGIN
+  IF NOT COALESCE(p_consent, FALSE) THEN
+    RAISE EXCEPTION 'Consent is required to transfer a prescription';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_medication_names), '') = ''
+     OR COALESCE(btrim(p_prescriber_name), '') = '' THEN
+    RAISE EXCEPTION 'Missing required transfer-in fields';
+  END IF;
+
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL OR v_pharmacy_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_prescriber_phone), '') <> '' AND v_prescriber_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid prescriber phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_in_requests (
+    patient_name, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone,
+    medication_names, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  )
+  VALUES (
+    btrim(p_patient_name), p_dob, v_phone, NULLIF(btrim(p_email), ''),
+    btrim(p_current_pharmacy_name), v_pharmacy_phone,
+    btrim(p_medication_names), btrim(p_prescriber_name), v_prescriber_phone,
+    p_preferred_service, NULLIF(btrim(p_notes), ''), p_consent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- claim_pending_submissions (as in 003)
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_pending_submissions(
+  p_request_type TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_request_id UUID DEFAULT NULL,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = 'failed',
+        last_submission_error = 'Interrupted while submitting to BestRX. Verify in BestRX before resubmitting.',
+        updated_at = CURRENT_TIMESTAMP
+    WHERE submission_status = 'processing'
+      AND updated_at < CURRENT_TIMESTAMP - $1
+  $q$, v_table)
+  USING p_stale_after;
+
+  RETURN QUERY EXECUTE format($q$
+    UPDATE %1$I AS r
+    SET submission_status = 'processing',
+        submission_attempts = r.submission_attempts + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE r.id IN (
+      SELECT id
+      FROM %1$I
+      WHERE submission_status = 'pending'
+        AND next_attempt_at <= CURRENT_TIMESTAMP
+        AND ($1::UUID IS NULL OR id = $1)
+      ORDER BY created_at
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING to_jsonb(r.*)
+  $q$, v_table)
+  USING p_request_id, p_limit;
+END;
+$$;
+
+-- ============================================
+-- lookup_request_status (as in 006)
+-- ============================================
+CREATE OR REPLACE FUNCTION lookup_request_status(
+  p_confirmation_code TEXT,
+  p_dob DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stripped TEXT := upper(regexp_replace(COALESCE(p_confirmation_code, ''), '[^A-Za-z0-9]', '', 'g'));
+  v_code TEXT;
+  v_client_ip TEXT := request_client_ip();
+  v_result JSONB;
+BEGIN
+  IF length(v_stripped) <> 10 THEN
+    RETURN NULL;
+  END IF;
+  v_code := substr(v_stripped, 1, 2) || '-' || substr(v_stripped, 3, 4) || '-' || substr(v_stripped, 7, 4);
+
+  DELETE FROM status_lookup_attempts WHERE attempted_at < CURRENT_TIMESTAMP - INTERVAL '1 day';
+
+  IF (SELECT count(*) FROM status_lookup_attempts
+      WHERE client_ip = v_client_ip
+        AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '15 minutes') >= 10
+     OR (SELECT count(*) FROM status_lookup_attempts
+         WHERE confirmation_code = v_code AND client_ip = v_client_ip AND NOT succeeded
+           AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') >= 5 THEN
+    RAISE EXCEPTION 'Too many status checks. Please try again later or call us at (614) 349-5140.';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'requestType', 'refill',
+    'confirmationCode', confirmation_code,
+    'status', request_status,
+    'preferredService', preferred_service,
+    'receivedAt', created_at,
+    'updatedAt', updated_at
+  )
+  INTO v_result
+  FROM refill_requests
+  WHERE confirmation_code = v_code AND dob = p_dob;
+
+  IF v_result IS NULL THEN
+    SELECT jsonb_build_object(
+      'requestType', 'transfer',
+      'confirmationCode', confirmation_code,
+      'status', request_status,
+      'preferredService', NULL,
+      'receivedAt', created_at,
+      'updatedAt', updated_at
+    )
+    INTO v_result
+    FROM transfer_requests
+    WHERE confirmation_code = v_code AND patient_dob = p_dob;
+  END IF;
+
+  INSERT INTO status_lookup_attempts (client_ip, confirmation_code, succeeded)
+  VALUES (v_client_ip, v_code, v_result IS NOT NULL);
+
+  RETURN v_result;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS decrypt_phi_row(JSONB);
+DROP FUNCTION IF EXISTS blind_index(TEXT);
+DROP FUNCTION IF EXISTS decrypt_phi(BYTEA);
+DROP FUNCTION IF EXISTS encrypt_phi(TEXT);
+DROP FUNCTION IF EXISTS phi_secret(TEXT);
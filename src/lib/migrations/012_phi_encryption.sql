@@ -0,0 +1,722 @@
+-- ============================================
+-- Column-level encryption for PHI
+-- ============================================
+-- Patient names, dates of birth, phones, emails, notes and medication names
+-- are stored encrypted with pgcrypto (pgp_sym_encrypt) in *_encrypted BYTEA
+-- columns. Lookups by phone or date of birth use *_hash columns: an HMAC
+-- blind index with a separate key, so equal values match without decrypting.
+--
+-- The keys are not stored in any table. On Supabase, add them to Vault before
+-- running this migration:
+--   SELECT vault.create_secret('<random 32+ byte secret>', 'phi_encryption_key');
+--   SELECT vault.create_secret('<another random secret>', 'phi_blind_index_key');
+-- On a plain local Postgres, set them as database settings instead:
+--   ALTER DATABASE postgres SET app.phi_encryption_key = '...';
+--   ALTER DATABASE postgres SET app.phi_blind_index_key = '...';
+-- Losing the encryption key loses the data; changing the blind index key
+-- requires recomputing every *_hash column.
+--
+-- Only SECURITY DEFINER functions can use the keys. The submission RPCs
+-- encrypt on insert, the outbox claim decrypts for the service role, and
+-- staff read PHI through staff_get_request / staff_find_requests.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- Key access and helpers (not callable by API roles)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION phi_secret(p_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF to_regclass('vault.decrypted_secrets') IS NOT NULL THEN
+    EXECUTE 'SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = $1'
+      INTO v_secret
+      USING p_name;
+  END IF;
+
+  v_secret := COALESCE(v_secret, NULLIF(current_setting('app.' || p_name, true), ''));
+  IF v_secret IS NULL THEN
+    RAISE EXCEPTION 'PHI key % is not configured', p_name;
+  END IF;
+
+  RETURN v_secret;
+END;
+$$;
+
+-- pgcrypto lives in the extensions schema on Supabase and in public elsewhere
+CREATE OR REPLACE FUNCTION encrypt_phi(p_value TEXT)
+RETURNS BYTEA
+LANGUAGE sql
+VOLATILE
+STRICT
+SET search_path = public, extensions
+AS $$
+  SELECT pgp_sym_encrypt(p_value, phi_secret('phi_encryption_key'));
+$$;
+
+CREATE OR REPLACE FUNCTION decrypt_phi(p_value BYTEA)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+STRICT
+SET search_path = public, extensions
+AS $$
+  SELECT pgp_sym_decrypt(p_value, phi_secret('phi_encryption_key'));
+$$;
+
+-- Values are normalized before hashing (E.164 phones, YYYY-MM-DD dates)
+CREATE OR REPLACE FUNCTION blind_index(p_value TEXT)
+RETURNS BYTEA
+LANGUAGE sql
+STABLE
+STRICT
+SET search_path = public, extensions
+AS $$
+  SELECT hmac(p_value, phi_secret('phi_blind_index_key'), 'sha256');
+$$;
+
+-- Turns a row's JSON into what callers expect: each foo_encrypted key
+-- becomes foo with the decrypted value, and *_hash keys are dropped
+CREATE OR REPLACE FUNCTION decrypt_phi_row(p_row JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(
+    CASE WHEN item.key LIKE '%\_encrypted' THEN left(item.key, -length('_encrypted')) ELSE item.key END,
+    CASE
+      WHEN item.key LIKE '%\_encrypted' AND jsonb_typeof(item.value) = 'string'
+        THEN to_jsonb(decrypt_phi(decode(substr(item.value #>> '{}', 3), 'hex')))
+      ELSE item.value
+    END
+  ), '{}'::jsonb)
+  FROM jsonb_each(p_row) AS item
+  WHERE item.key NOT LIKE '%\_hash';
+$$;
+
+REVOKE EXECUTE ON FUNCTION phi_secret(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION encrypt_phi(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decrypt_phi(BYTEA) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION blind_index(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decrypt_phi_row(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Encrypt existing rows
+-- ============================================
+
+ALTER TABLE refill_requests
+  ADD COLUMN patient_first_name_encrypted BYTEA,
+  ADD COLUMN patient_middle_name_encrypted BYTEA,
+  ADD COLUMN patient_last_name_encrypted BYTEA,
+  ADD COLUMN dob_encrypted BYTEA,
+  ADD COLUMN phone_encrypted BYTEA,
+  ADD COLUMN email_encrypted BYTEA,
+  ADD COLUMN notes_encrypted BYTEA,
+  ADD COLUMN dob_hash BYTEA,
+  ADD COLUMN phone_hash BYTEA;
+
+UPDATE refill_requests
+SET patient_first_name_encrypted = encrypt_phi(patient_first_name),
+    patient_middle_name_encrypted = encrypt_phi(patient_middle_name),
+    patient_last_name_encrypted = encrypt_phi(patient_last_name),
+    dob_encrypted = encrypt_phi(to_char(dob, 'YYYY-MM-DD')),
+    phone_encrypted = encrypt_phi(phone),
+    email_encrypted = encrypt_phi(email),
+    notes_encrypted = encrypt_phi(notes),
+    dob_hash = blind_index(to_char(dob, 'YYYY-MM-DD')),
+    phone_hash = blind_index(phone);
+
+ALTER TABLE refill_requests
+  ALTER COLUMN patient_first_name_encrypted SET NOT NULL,
+  ALTER COLUMN patient_last_name_encrypted SET NOT NULL,
+  ALTER COLUMN dob_encrypted SET NOT NULL,
+  ALTER COLUMN phone_encrypted SET NOT NULL,
+  ALTER COLUMN dob_hash SET NOT NULL,
+  ALTER COLUMN phone_hash SET NOT NULL;
+
+ALTER TABLE refill_requests
+  DROP COLUMN patient_name,
+  DROP COLUMN patient_first_name,
+  DROP COLUMN patient_middle_name,
+  DROP COLUMN patient_last_name,
+  DROP COLUMN dob,
+  DROP COLUMN phone,
+  DROP COLUMN email,
+  DROP COLUMN notes;
+
+CREATE INDEX idx_refill_requests_dob_hash ON refill_requests(dob_hash);
+CREATE INDEX idx_refill_requests_phone_hash ON refill_requests(phone_hash);
+
+ALTER TABLE refill_request_prescriptions ADD COLUMN medication_name_encrypted BYTEA;
+UPDATE refill_request_prescriptions SET medication_name_encrypted = encrypt_phi(medication_name);
+ALTER TABLE refill_request_prescriptions DROP COLUMN medication_name;
+
+ALTER TABLE transfer_requests
+  ADD COLUMN patient_dob_encrypted BYTEA,
+  ADD COLUMN patient_dob_hash BYTEA;
+
+UPDATE transfer_requests
+SET patient_dob_encrypted = encrypt_phi(to_char(patient_dob, 'YYYY-MM-DD')),
+    patient_dob_hash = blind_index(to_char(patient_dob, 'YYYY-MM-DD'));
+
+ALTER TABLE transfer_requests DROP COLUMN patient_dob;
+
+CREATE INDEX idx_transfer_requests_patient_dob_hash ON transfer_requests(patient_dob_hash);
+
+ALTER TABLE transfer_in_requests
+  ADD COLUMN patient_name_encrypted BYTEA,
+  ADD COLUMN dob_encrypted BYTEA,
+  ADD COLUMN phone_encrypted BYTEA,
+  ADD COLUMN email_encrypted BYTEA,
+  ADD COLUMN medication_names_encrypted BYTEA,
+  ADD COLUMN notes_encrypted BYTEA,
+  ADD COLUMN dob_hash BYTEA,
+  ADD COLUMN phone_hash BYTEA;
+
+UPDATE transfer_in_requests
+SET patient_name_encrypted = encrypt_phi(patient_name),
+    dob_encrypted = encrypt_phi(to_char(dob, 'YYYY-MM-DD')),
+    phone_encrypted = encrypt_phi(phone),
+    email_encrypted = encrypt_phi(email),
+    medication_names_encrypted = encrypt_phi(medication_names),
+    notes_encrypted = encrypt_phi(notes),
+    dob_hash = blind_index(to_char(dob, 'YYYY-MM-DD')),
+    phone_hash = blind_index(phone);
+
+ALTER TABLE transfer_in_requests
+  ALTER COLUMN patient_name_encrypted SET NOT NULL,
+  ALTER COLUMN dob_encrypted SET NOT NULL,
+  ALTER COLUMN phone_encrypted SET NOT NULL,
+  ALTER COLUMN medication_names_encrypted SET NOT NULL,
+  ALTER COLUMN dob_hash SET NOT NULL,
+  ALTER COLUMN phone_hash SET NOT NULL;
+
+ALTER TABLE transfer_in_requests
+  DROP COLUMN patient_name,
+  DROP COLUMN dob,
+  DROP COLUMN phone,
+  DROP COLUMN email,
+  DROP COLUMN medication_names,
+  DROP COLUMN notes;
+
+CREATE INDEX idx_transfer_in_requests_dob_hash ON transfer_in_requests(dob_hash);
+CREATE INDEX idx_transfer_in_requests_phone_hash ON transfer_in_requests(phone_hash);
+
+-- ============================================
+-- submit_refill_request
+-- ============================================
+-- Same validation as 010; PHI is encrypted on insert
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+  v_dob TEXT := to_char(p_dob, 'YYYY-MM-DD');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF concat(p_patient_first_name, p_patient_middle_name, p_patient_last_name) !~ '^[[:alpha:]'' .-]*$'
+     OR greatest(length(btrim(p_patient_first_name)), length(btrim(p_patient_middle_name)), length(btrim(p_patient_last_name))) > 100 THEN
+    RAISE EXCEPTION 'Names can only contain letters, spaces, hyphens and apostrophes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_email IS NOT NULL AND NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name_encrypted, patient_middle_name_encrypted, patient_last_name_encrypted, patient_suffix,
+    dob_encrypted, dob_hash, phone_encrypted, phone_hash, email_encrypted,
+    preferred_service, notes_encrypted, consent, idempotency_key
+  )
+  VALUES (
+    encrypt_phi(btrim(p_patient_first_name)), encrypt_phi(NULLIF(btrim(p_patient_middle_name), '')),
+    encrypt_phi(btrim(p_patient_last_name)), NULLIF(p_patient_suffix, ''),
+    encrypt_phi(v_dob), blind_index(v_dob), encrypt_phi(v_phone), blind_index(v_phone), encrypt_phi(v_email),
+    p_preferred_service, encrypt_phi(NULLIF(p_notes, '')), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name_encrypted)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'),
+    encrypt_phi(NULLIF(btrim(item.value->>'medicationName'), ''))
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_request
+-- ============================================
+-- Same validation as 010; the date of birth is encrypted on insert
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_dob DATE,
+  p_prescriptions JSONB,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_dob TEXT := to_char(p_patient_dob, 'YYYY-MM-DD');
+  v_state TEXT := upper(btrim(p_transfer_to_pharmacy_state));
+  v_zip TEXT := normalize_zip(p_transfer_to_pharmacy_zip);
+  v_phone TEXT := normalize_us_phone(p_transfer_to_pharmacy_phone);
+  v_ncpdp TEXT := NULLIF(btrim(p_transfer_to_pharmacy_ncpdp), '');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A transfer must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT is_valid_dob(p_patient_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+       OR COALESCE(item.value->>'rxFillDate', '') !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number or fill date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_transfer_to_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_address1), '') = ''
+     OR COALESCE(btrim(p_transfer_to_pharmacy_city), '') = '' THEN
+    RAISE EXCEPTION 'Pharmacy name, address and city are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_us_state_code(v_state) THEN
+    RAISE EXCEPTION 'Invalid state' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_zip IS NULL THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid pharmacy phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_ncpdp IS NOT NULL AND NOT is_valid_ncpdp(v_ncpdp) THEN
+    RAISE EXCEPTION 'Invalid NCPDP number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_dob_encrypted, patient_dob_hash,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncpdp,
+    transfer_rx_remark, consent, idempotency_key
+  )
+  VALUES (
+    encrypt_phi(v_dob), blind_index(v_dob),
+    btrim(p_transfer_to_pharmacy_name), btrim(p_transfer_to_pharmacy_address1), NULLIF(btrim(p_transfer_to_pharmacy_address2), ''),
+    btrim(p_transfer_to_pharmacy_city), v_state, v_zip,
+    v_phone, v_ncpdp,
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transfer_request_prescriptions (transfer_request_id, position, rx_number, rx_fill_date)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'), (item.value->>'rxFillDate')::DATE
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- submit_transfer_in_request
+-- ============================================
+-- Same validation as 009; PHI is encrypted on insert
+CREATE OR REPLACE FUNCTION submit_transfer_in_request(
+  p_patient_name TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_medication_names TEXT,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_dob TEXT := to_char(p_dob, 'YYYY-MM-DD');
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_pharmacy_phone TEXT := normalize_us_phone(p_current_pharmacy_phone);
+  v_prescriber_phone TEXT := normalize_us_phone(p_prescriber_phone);
+BEGIN
+  IF NOT COALESCE(p_consent, FALSE) THEN
+    RAISE EXCEPTION 'Consent is required to transfer a prescription';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_name), '') = ''
+     OR COALESCE(btrim(p_current_pharmacy_name), '') = ''
+     OR COALESCE(btrim(p_medication_names), '') = ''
+     OR COALESCE(btrim(p_prescriber_name), '') = '' THEN
+    RAISE EXCEPTION 'Missing required transfer-in fields';
+  END IF;
+
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL OR v_pharmacy_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF COALESCE(btrim(p_prescriber_phone), '') <> '' AND v_prescriber_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid prescriber phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO transfer_in_requests (
+    patient_name_encrypted, dob_encrypted, dob_hash, phone_encrypted, phone_hash, email_encrypted,
+    current_pharmacy_name, current_pharmacy_phone,
+    medication_names_encrypted, prescriber_name, prescriber_phone,
+    preferred_service, notes_encrypted, consent
+  )
+  VALUES (
+    encrypt_phi(btrim(p_patient_name)), encrypt_phi(v_dob), blind_index(v_dob),
+    encrypt_phi(v_phone), blind_index(v_phone), encrypt_phi(NULLIF(btrim(p_email), '')),
+    btrim(p_current_pharmacy_name), v_pharmacy_phone,
+    encrypt_phi(btrim(p_medication_names)), btrim(p_prescriber_name), v_prescriber_phone,
+    p_preferred_service, encrypt_phi(NULLIF(btrim(p_notes), '')), p_consent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- Outbox: decrypted rows for the service role
+-- ============================================
+-- Same as 003, but claimed rows come back decrypted so the Edge Functions
+-- can rebuild the form data for the pharmacy system
+CREATE OR REPLACE FUNCTION claim_pending_submissions(
+  p_request_type TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_request_id UUID DEFAULT NULL,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = 'failed',
+        last_submission_error = 'Interrupted while submitting to BestRX. Verify in BestRX before resubmitting.',
+        updated_at = CURRENT_TIMESTAMP
+    WHERE submission_status = 'processing'
+      AND updated_at < CURRENT_TIMESTAMP - $1
+  $q$, v_table)
+  USING p_stale_after;
+
+  RETURN QUERY EXECUTE format($q$
+    UPDATE %1$I AS r
+    SET submission_status = 'processing',
+        submission_attempts = r.submission_attempts + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE r.id IN (
+      SELECT id
+      FROM %1$I
+      WHERE submission_status = 'pending'
+        AND next_attempt_at <= CURRENT_TIMESTAMP
+        AND ($1::UUID IS NULL OR id = $1)
+      ORDER BY created_at
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING decrypt_phi_row(to_jsonb(r.*))
+  $q$, v_table)
+  USING p_request_id, p_limit;
+END;
+$$;
+
+-- Prescriptions of a refill, in order, with medication names decrypted
+CREATE OR REPLACE FUNCTION get_refill_prescriptions(p_refill_request_id UUID)
+RETURNS TABLE (rx_number TEXT, medication_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.rx_number::TEXT, decrypt_phi(p.medication_name_encrypted)
+  FROM refill_request_prescriptions AS p
+  WHERE p.refill_request_id = p_refill_request_id
+  ORDER BY p.position;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_refill_prescriptions(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_refill_prescriptions(UUID) TO service_role;
+
+-- ============================================
+-- lookup_request_status
+-- ============================================
+-- Same as 006, matching the date of birth through the blind index
+CREATE OR REPLACE FUNCTION lookup_request_status(
+  p_confirmation_code TEXT,
+  p_dob DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stripped TEXT := upper(regexp_replace(COALESCE(p_confirmation_code, ''), '[^A-Za-z0-9]', '', 'g'));
+  v_code TEXT;
+  v_client_ip TEXT := request_client_ip();
+  v_dob_hash BYTEA;
+  v_result JSONB;
+BEGIN
+  IF length(v_stripped) <> 10 OR p_dob IS NULL THEN
+    RETURN NULL;
+  END IF;
+  v_code := substr(v_stripped, 1, 2) || '-' || substr(v_stripped, 3, 4) || '-' || substr(v_stripped, 7, 4);
+  v_dob_hash := blind_index(to_char(p_dob, 'YYYY-MM-DD'));
+
+  DELETE FROM status_lookup_attempts WHERE attempted_at < CURRENT_TIMESTAMP - INTERVAL '1 day';
+
+  IF (SELECT count(*) FROM status_lookup_attempts
+      WHERE client_ip = v_client_ip
+        AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '15 minutes') >= 10
+     OR (SELECT count(*) FROM status_lookup_attempts
+         WHERE confirmation_code = v_code AND client_ip = v_client_ip AND NOT succeeded
+           AND attempted_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') >= 5 THEN
+    RAISE EXCEPTION 'Too many status checks. Please try again later or call us at (614) 349-5140.';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'requestType', 'refill',
+    'confirmationCode', confirmation_code,
+    'status', request_status,
+    'preferredService', preferred_service,
+    'receivedAt', created_at,
+    'updatedAt', updated_at
+  )
+  INTO v_result
+  FROM refill_requests
+  WHERE confirmation_code = v_code AND dob_hash = v_dob_hash;
+
+  IF v_result IS NULL THEN
+    SELECT jsonb_build_object(
+      'requestType', 'transfer',
+      'confirmationCode', confirmation_code,
+      'status', request_status,
+      'preferredService', NULL,
+      'receivedAt', created_at,
+      'updatedAt', updated_at
+    )
+    INTO v_result
+    FROM transfer_requests
+    WHERE confirmation_code = v_code AND patient_dob_hash = v_dob_hash;
+  END IF;
+
+  INSERT INTO status_lookup_attempts (client_ip, confirmation_code, succeeded)
+  VALUES (v_client_ip, v_code, v_result IS NOT NULL);
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- Staff access to PHI
+-- ============================================
+
+-- One request with PHI decrypted. p_request_type: refill, transfer or transfer_in.
+CREATE OR REPLACE FUNCTION staff_get_request(p_request_type TEXT, p_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  CASE p_request_type
+    WHEN 'refill' THEN
+      SELECT decrypt_phi_row(to_jsonb(r.*)) || jsonb_build_object('prescriptions', COALESCE((
+        SELECT jsonb_agg(decrypt_phi_row(to_jsonb(p.*) - 'refill_request_id') ORDER BY p.position)
+        FROM refill_request_prescriptions AS p
+        WHERE p.refill_request_id = r.id
+      ), '[]'::jsonb))
+      INTO v_result
+      FROM refill_requests AS r
+      WHERE r.id = p_id;
+    WHEN 'transfer' THEN
+      SELECT decrypt_phi_row(to_jsonb(t.*)) || jsonb_build_object('prescriptions', COALESCE((
+        SELECT jsonb_agg(to_jsonb(p.*) - 'transfer_request_id' ORDER BY p.position)
+        FROM transfer_request_prescriptions AS p
+        WHERE p.transfer_request_id = t.id
+      ), '[]'::jsonb))
+      INTO v_result
+      FROM transfer_requests AS t
+      WHERE t.id = p_id;
+    WHEN 'transfer_in' THEN
+      SELECT decrypt_phi_row(to_jsonb(t.*))
+      INTO v_result
+      FROM transfer_in_requests AS t
+      WHERE t.id = p_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown request type: %', p_request_type USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Requests matching a phone number and/or date of birth, newest first.
+-- Transfers out only carry a date of birth, so a phone search skips them.
+CREATE OR REPLACE FUNCTION staff_find_requests(p_phone TEXT DEFAULT NULL, p_dob DATE DEFAULT NULL)
+RETURNS TABLE (
+  request_type TEXT,
+  id UUID,
+  confirmation_code TEXT,
+  patient_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_phone_hash BYTEA;
+  v_dob_hash BYTEA := blind_index(to_char(p_dob, 'YYYY-MM-DD'));
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF COALESCE(btrim(p_phone), '') <> '' AND v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL AND p_dob IS NULL THEN
+    RAISE EXCEPTION 'Search by phone number or date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  v_phone_hash := blind_index(v_phone);
+
+  RETURN QUERY
+  SELECT matches.request_type, matches.id, matches.confirmation_code, matches.patient_name, matches.created_at
+  FROM (
+    SELECT 'refill'::TEXT AS request_type, r.id, r.confirmation_code::TEXT AS confirmation_code,
+      concat_ws(' ', decrypt_phi(r.patient_first_name_encrypted), decrypt_phi(r.patient_middle_name_encrypted),
+        decrypt_phi(r.patient_last_name_encrypted), r.patient_suffix) AS patient_name,
+      r.created_at
+    FROM refill_requests AS r
+    WHERE (v_phone_hash IS NULL OR r.phone_hash = v_phone_hash)
+      AND (v_dob_hash IS NULL OR r.dob_hash = v_dob_hash)
+    UNION ALL
+    SELECT 'transfer', t.id, t.confirmation_code::TEXT, NULL, t.created_at
+    FROM transfer_requests AS t
+    WHERE v_phone_hash IS NULL AND t.patient_dob_hash = v_dob_hash
+    UNION ALL
+    SELECT 'transfer_in', t.id, NULL, decrypt_phi(t.patient_name_encrypted), t.created_at
+    FROM transfer_in_requests AS t
+    WHERE (v_phone_hash IS NULL OR t.phone_hash = v_phone_hash)
+      AND (v_dob_hash IS NULL OR t.dob_hash = v_dob_hash)
+  ) AS matches
+  ORDER BY matches.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION staff_get_request(TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_find_requests(TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION staff_get_request(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_find_requests(TEXT, DATE) TO authenticated;
@@ -0,0 +1,105 @@
+-- Reverts 013_request_lifecycle.sql. The status history is dropped, and
+-- states without a 006 equivalent fall back to the nearest one: processing
+-- to submitted, failed and cancelled to received.
+
+DROP FUNCTION IF EXISTS staff_set_request_status(TEXT, UUID, request_status, TEXT);
+
+-- ============================================
+-- record_submission_outcome (as in 006)
+-- ============================================
+CREATE OR REPLACE FUNCTION record_submission_outcome(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status submission_status,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_in INTERVAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = $2,
+        submission_result = COALESCE($3, submission_result),
+        last_submission_error = $4,
+        next_attempt_at = CASE WHEN $5 IS NULL THEN next_attempt_at ELSE CURRENT_TIMESTAMP + $5 END,
+        submitted_at = CASE WHEN $2 = 'succeeded' THEN CURRENT_TIMESTAMP ELSE submitted_at END,
+        request_status = CASE
+          WHEN $2 = 'succeeded' AND request_status = 'received' THEN 'submitted'
+          ELSE request_status
+        END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  $q$, v_table)
+  USING p_request_id, p_status, p_result, p_error, p_retry_in;
+END;
+$$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+DROP TRIGGER IF EXISTS contact_messages_updated_at ON contact_messages;
+DROP TRIGGER IF EXISTS waitlist_entries_updated_at ON waitlist_entries;
+DROP TRIGGER IF EXISTS splash_modal_submissions_updated_at ON splash_modal_submissions;
+DROP TRIGGER IF EXISTS refill_requests_updated_at ON refill_requests;
+DROP TRIGGER IF EXISTS transfer_requests_updated_at ON transfer_requests;
+DROP TRIGGER IF EXISTS transfer_request_prescriptions_updated_at ON transfer_request_prescriptions;
+DROP TRIGGER IF EXISTS transfer_in_requests_updated_at ON transfer_in_requests;
+DROP FUNCTION IF EXISTS set_updated_at();
+
+DROP TRIGGER IF EXISTS refill_requests_status_transition ON refill_requests;
+DROP TRIGGER IF EXISTS transfer_requests_status_transition ON transfer_requests;
+DROP TRIGGER IF EXISTS refill_requests_status_history ON refill_requests;
+DROP TRIGGER IF EXISTS transfer_requests_status_history ON transfer_requests;
+DROP FUNCTION IF EXISTS enforce_request_status_transition();
+DROP FUNCTION IF EXISTS record_request_status_change();
+
+DROP TABLE IF EXISTS request_status_history;
+DROP FUNCTION IF EXISTS prevent_request_status_history_change();
+DROP TABLE IF EXISTS request_status_transitions;
+
+-- ============================================
+-- request_status (as in 006)
+-- ============================================
+DROP INDEX IF EXISTS idx_refill_requests_request_status;
+DROP INDEX IF EXISTS idx_transfer_requests_request_status;
+
+ALTER TYPE request_status RENAME TO request_status_013;
+
+CREATE TYPE request_status AS ENUM ('received', 'submitted', 'ready_for_pickup', 'out_for_delivery');
+
+ALTER TABLE refill_requests
+  ALTER COLUMN request_status DROP DEFAULT,
+  ALTER COLUMN request_status TYPE request_status USING (
+    CASE
+      WHEN request_status::text IN ('ready', 'picked_up', 'delivered') AND preferred_service = 'delivery' THEN 'out_for_delivery'
+      WHEN request_status::text IN ('ready', 'picked_up', 'delivered') THEN 'ready_for_pickup'
+      WHEN request_status::text = 'processing' THEN 'submitted'
+      WHEN request_status::text IN ('failed', 'cancelled') THEN 'received'
+      ELSE request_status::text
+    END
+  )::request_status,
+  ALTER COLUMN request_status SET DEFAULT 'received';
+
+ALTER TABLE transfer_requests
+  ALTER COLUMN request_status DROP DEFAULT,
+  ALTER COLUMN request_status TYPE request_status USING (
+    CASE
+      WHEN request_status::text IN ('processing', 'ready', 'picked_up', 'delivered') THEN 'submitted'
+      WHEN request_status::text IN ('failed', 'cancelled') THEN 'received'
+      ELSE request_status::text
+    END
+  )::request_status,
+  ALTER COLUMN request_status SET DEFAULT 'received';
+
+DROP TYPE request_status_013;
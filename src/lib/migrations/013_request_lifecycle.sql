@@ -0,0 +1,372 @@
+-- ============================================
+-- Request lifecycle and status history
+-- ============================================
+-- Refills move received -> submitted -> processing -> ready -> picked_up or
+-- delivered; transfers out move received -> submitted -> processing ->
+-- delivered (sent to the new pharmacy). Either can end in failed or
+-- cancelled. The allowed moves live in request_status_transitions and are
+-- enforced by a trigger, so they hold for the outbox, the staff RPC and any
+-- direct update alike. Every change is appended to request_status_history.
+
+-- ============================================
+-- Lifecycle states
+-- ============================================
+-- Enum values cannot be added and used in the same transaction, so the type
+-- is rebuilt. 'ready_for_pickup' and 'out_for_delivery' both become 'ready';
+-- the refill's preferred_service says which kind of ready it is.
+ALTER TYPE request_status RENAME TO request_status_006;
+
+CREATE TYPE request_status AS ENUM (
+  'received',
+  'submitted',
+  'processing',
+  'ready',
+  'picked_up',
+  'delivered',
+  'failed',
+  'cancelled'
+);
+
+ALTER TABLE refill_requests
+  ALTER COLUMN request_status DROP DEFAULT,
+  ALTER COLUMN request_status TYPE request_status USING (
+    CASE request_status::text
+      WHEN 'ready_for_pickup' THEN 'ready'
+      WHEN 'out_for_delivery' THEN 'ready'
+      ELSE request_status::text
+    END
+  )::request_status,
+  ALTER COLUMN request_status SET DEFAULT 'received';
+
+ALTER TABLE transfer_requests
+  ALTER COLUMN request_status DROP DEFAULT,
+  ALTER COLUMN request_status TYPE request_status USING (
+    CASE request_status::text
+      WHEN 'ready_for_pickup' THEN 'ready'
+      WHEN 'out_for_delivery' THEN 'ready'
+      ELSE request_status::text
+    END
+  )::request_status,
+  ALTER COLUMN request_status SET DEFAULT 'received';
+
+DROP TYPE request_status_006;
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_request_status ON refill_requests(request_status);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_request_status ON transfer_requests(request_status);
+
+-- ============================================
+-- Transition rules
+-- ============================================
+CREATE TABLE IF NOT EXISTS request_status_transitions (
+  request_type TEXT NOT NULL CHECK (request_type IN ('refill', 'transfer')),
+  from_status request_status NOT NULL,
+  to_status request_status NOT NULL,
+  PRIMARY KEY (request_type, from_status, to_status)
+);
+
+INSERT INTO request_status_transitions (request_type, from_status, to_status) VALUES
+  ('refill', 'received', 'submitted'),
+  ('refill', 'received', 'processing'),
+  ('refill', 'received', 'failed'),
+  ('refill', 'received', 'cancelled'),
+  ('refill', 'submitted', 'processing'),
+  ('refill', 'submitted', 'failed'),
+  ('refill', 'submitted', 'cancelled'),
+  ('refill', 'processing', 'ready'),
+  ('refill', 'processing', 'failed'),
+  ('refill', 'processing', 'cancelled'),
+  ('refill', 'ready', 'picked_up'),
+  ('refill', 'ready', 'delivered'),
+  ('refill', 'ready', 'cancelled'),
+  ('refill', 'failed', 'processing'),
+  ('refill', 'failed', 'cancelled'),
+  ('transfer', 'received', 'submitted'),
+  ('transfer', 'received', 'processing'),
+  ('transfer', 'received', 'failed'),
+  ('transfer', 'received', 'cancelled'),
+  ('transfer', 'submitted', 'processing'),
+  ('transfer', 'submitted', 'failed'),
+  ('transfer', 'submitted', 'cancelled'),
+  ('transfer', 'processing', 'delivered'),
+  ('transfer', 'processing', 'failed'),
+  ('transfer', 'processing', 'cancelled'),
+  ('transfer', 'failed', 'processing'),
+  ('transfer', 'failed', 'cancelled')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE request_status_transitions ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON request_status_transitions FROM anon, authenticated;
+GRANT SELECT ON request_status_transitions TO authenticated;
+
+CREATE POLICY "Staff can read" ON request_status_transitions FOR SELECT TO authenticated USING (is_staff());
+
+-- ============================================
+-- Status history (append-only)
+-- ============================================
+CREATE TABLE IF NOT EXISTS request_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('refill', 'transfer')),
+  request_id UUID NOT NULL,
+  from_status request_status,
+  to_status request_status NOT NULL,
+  -- auth.uid() of the staff member; NULL for the outbox worker and migrations
+  changed_by UUID,
+  changed_by_role TEXT NOT NULL,
+  note TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_status_history_request
+  ON request_status_history(request_type, request_id, changed_at);
+
+CREATE OR REPLACE FUNCTION prevent_request_status_history_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'request_status_history is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER request_status_history_append_only
+  BEFORE UPDATE OR DELETE ON request_status_history
+  FOR EACH ROW EXECUTE FUNCTION prevent_request_status_history_change();
+
+CREATE TRIGGER request_status_history_no_truncate
+  BEFORE TRUNCATE ON request_status_history
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_request_status_history_change();
+
+ALTER TABLE request_status_history ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON request_status_history FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE request_status_history_id_seq FROM anon, authenticated;
+GRANT SELECT ON request_status_history TO authenticated;
+
+CREATE POLICY "Staff can read" ON request_status_history FOR SELECT TO authenticated USING (is_staff());
+
+-- Existing requests start their history at their current state
+INSERT INTO request_status_history (request_type, request_id, from_status, to_status, changed_by_role, note, changed_at)
+SELECT 'refill', id, NULL, request_status, 'migration', 'Status before history was recorded', COALESCE(updated_at, created_at, CURRENT_TIMESTAMP)
+FROM refill_requests;
+
+INSERT INTO request_status_history (request_type, request_id, from_status, to_status, changed_by_role, note, changed_at)
+SELECT 'transfer', id, NULL, request_status, 'migration', 'Status before history was recorded', COALESCE(updated_at, created_at, CURRENT_TIMESTAMP)
+FROM transfer_requests;
+
+-- ============================================
+-- Lifecycle triggers
+-- ============================================
+-- TG_ARGV[0] is the request type. Refills must end the way the patient asked
+-- for them: picked_up for pickup, delivered for delivery.
+CREATE OR REPLACE FUNCTION enforce_request_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.request_status IS NOT DISTINCT FROM OLD.request_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM request_status_transitions
+    WHERE request_type = TG_ARGV[0]
+      AND from_status = OLD.request_status
+      AND to_status = NEW.request_status
+  ) THEN
+    RAISE EXCEPTION 'A % request cannot move from % to %', TG_ARGV[0], OLD.request_status, NEW.request_status
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF TG_ARGV[0] = 'refill' AND (
+    (NEW.request_status = 'picked_up' AND to_jsonb(NEW) ->> 'preferred_service' = 'delivery')
+    OR (NEW.request_status = 'delivered' AND to_jsonb(NEW) ->> 'preferred_service' = 'pickup')
+  ) THEN
+    RAISE EXCEPTION 'This refill was requested for %', to_jsonb(NEW) ->> 'preferred_service'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The note comes from staff_set_request_status; the role is 'service_role'
+-- for the outbox worker and the database user for direct SQL.
+CREATE OR REPLACE FUNCTION record_request_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.request_status IS NOT DISTINCT FROM OLD.request_status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO request_status_history (request_type, request_id, from_status, to_status, changed_by, changed_by_role, note)
+  VALUES (
+    TG_ARGV[0],
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.request_status END,
+    NEW.request_status,
+    auth.uid(),
+    COALESCE(NULLIF(auth.role(), ''), session_user),
+    NULLIF(current_setting('app.status_note', true), '')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_status_transition
+  BEFORE UPDATE OF request_status ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION enforce_request_status_transition('refill');
+
+CREATE TRIGGER transfer_requests_status_transition
+  BEFORE UPDATE OF request_status ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION enforce_request_status_transition('transfer');
+
+CREATE TRIGGER refill_requests_status_history
+  AFTER INSERT OR UPDATE OF request_status ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION record_request_status_change('refill');
+
+CREATE TRIGGER transfer_requests_status_history
+  AFTER INSERT OR UPDATE OF request_status ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION record_request_status_change('transfer');
+
+REVOKE EXECUTE ON FUNCTION enforce_request_status_transition() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_request_status_change() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- updated_at
+-- ============================================
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_messages_updated_at BEFORE UPDATE ON contact_messages
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER splash_modal_submissions_updated_at BEFORE UPDATE ON splash_modal_submissions
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER refill_requests_updated_at BEFORE UPDATE ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER transfer_requests_updated_at BEFORE UPDATE ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER transfer_request_prescriptions_updated_at BEFORE UPDATE ON transfer_request_prescriptions
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER transfer_in_requests_updated_at BEFORE UPDATE ON transfer_in_requests
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- ============================================
+-- Submission outcome
+-- ============================================
+-- Same as 006, plus marking requests the pharmacy system refused, or that
+-- ran out of retries, as 'failed' so staff pick them up.
+CREATE OR REPLACE FUNCTION record_submission_outcome(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status submission_status,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_in INTERVAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type;
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET submission_status = $2,
+        submission_result = COALESCE($3, submission_result),
+        last_submission_error = $4,
+        next_attempt_at = CASE WHEN $5 IS NULL THEN next_attempt_at ELSE CURRENT_TIMESTAMP + $5 END,
+        submitted_at = CASE WHEN $2 = 'succeeded' THEN CURRENT_TIMESTAMP ELSE submitted_at END,
+        request_status = CASE
+          WHEN request_status <> 'received' THEN request_status
+          WHEN $2 = 'succeeded' THEN 'submitted'
+          WHEN $2 IN ('rejected', 'failed') THEN 'failed'
+          ELSE request_status
+        END
+    WHERE id = $1
+  $q$, v_table)
+  USING p_request_id, p_status, p_result, p_error, p_retry_in;
+END;
+$$;
+
+-- ============================================
+-- Staff status changes
+-- ============================================
+-- Returns the new status and updated_at; an unknown id raises no_data_found.
+CREATE OR REPLACE FUNCTION staff_set_request_status(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_status request_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := submission_table(p_request_type);
+  v_result JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_status IS NULL THEN
+    RAISE EXCEPTION 'Status is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF length(p_note) > 1000 THEN
+    RAISE EXCEPTION 'Note must be at most 1000 characters' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(btrim(p_note), ''), true);
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET request_status = $2
+    WHERE id = $1
+    RETURNING jsonb_build_object('id', id, 'status', request_status, 'updatedAt', updated_at)
+  $q$, v_table)
+  INTO v_result
+  USING p_request_id, p_status;
+
+  PERFORM set_config('app.status_note', '', true);
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'No % request with id %', p_request_type, p_request_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION staff_set_request_status(TEXT, UUID, request_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION staff_set_request_status(TEXT, UUID, request_status, TEXT) TO authenticated;
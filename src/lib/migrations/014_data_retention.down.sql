@@ -0,0 +1,124 @@
+-- Reverts 014_data_retention.sql. Policies, run reports and legal holds are
+-- dropped. Anonymized rows cannot satisfy the restored NOT NULL constraints
+-- and are deleted.
+
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'run-retention';
+  END IF;
+END;
+$do$;
+
+DROP FUNCTION IF EXISTS staff_set_legal_hold(TEXT, UUID, BOOLEAN, TEXT);
+DROP FUNCTION IF EXISTS run_retention(BOOLEAN);
+
+DROP TABLE IF EXISTS retention_run_items;
+DROP TABLE IF EXISTS retention_runs;
+DROP TABLE IF EXISTS retention_policies;
+DROP FUNCTION IF EXISTS set_retention_policy_updated_by();
+
+-- ============================================
+-- Anonymized rows and legal hold
+-- ============================================
+DELETE FROM contact_messages WHERE anonymized_at IS NOT NULL;
+DELETE FROM waitlist_entries WHERE anonymized_at IS NOT NULL;
+DELETE FROM refill_requests WHERE anonymized_at IS NOT NULL;
+DELETE FROM transfer_requests WHERE anonymized_at IS NOT NULL;
+DELETE FROM transfer_in_requests WHERE anonymized_at IS NOT NULL;
+
+DELETE FROM request_status_history AS h
+WHERE NOT EXISTS (
+  SELECT 1 FROM refill_requests WHERE h.request_type = 'refill' AND id = h.request_id
+  UNION ALL
+  SELECT 1 FROM transfer_requests WHERE h.request_type = 'transfer' AND id = h.request_id
+);
+
+-- ============================================
+-- prevent_request_status_history_change (as in 013)
+-- ============================================
+CREATE OR REPLACE FUNCTION prevent_request_status_history_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'request_status_history is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP INDEX IF EXISTS idx_waitlist_entries_created_at;
+
+ALTER TABLE contact_messages
+  DROP CONSTRAINT IF EXISTS contact_messages_identified,
+  ALTER COLUMN name SET NOT NULL,
+  ALTER COLUMN phone SET NOT NULL,
+  ALTER COLUMN email SET NOT NULL,
+  ALTER COLUMN message SET NOT NULL;
+
+ALTER TABLE waitlist_entries
+  DROP CONSTRAINT IF EXISTS waitlist_entries_identified,
+  ALTER COLUMN name SET NOT NULL,
+  ALTER COLUMN email SET NOT NULL,
+  ALTER COLUMN phone SET NOT NULL;
+
+ALTER TABLE refill_requests
+  DROP CONSTRAINT IF EXISTS refill_requests_identified,
+  ALTER COLUMN patient_first_name_encrypted SET NOT NULL,
+  ALTER COLUMN patient_last_name_encrypted SET NOT NULL,
+  ALTER COLUMN dob_encrypted SET NOT NULL,
+  ALTER COLUMN phone_encrypted SET NOT NULL,
+  ALTER COLUMN dob_hash SET NOT NULL,
+  ALTER COLUMN phone_hash SET NOT NULL;
+
+ALTER TABLE transfer_in_requests
+  DROP CONSTRAINT IF EXISTS transfer_in_requests_identified,
+  ALTER COLUMN patient_name_encrypted SET NOT NULL,
+  ALTER COLUMN dob_encrypted SET NOT NULL,
+  ALTER COLUMN phone_encrypted SET NOT NULL,
+  ALTER COLUMN medication_names_encrypted SET NOT NULL,
+  ALTER COLUMN dob_hash SET NOT NULL,
+  ALTER COLUMN phone_hash SET NOT NULL;
+
+ALTER TABLE contact_messages
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at,
+  DROP COLUMN IF EXISTS anonymized_at;
+
+ALTER TABLE waitlist_entries
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at,
+  DROP COLUMN IF EXISTS anonymized_at;
+
+ALTER TABLE splash_modal_submissions
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at;
+
+ALTER TABLE refill_requests
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at,
+  DROP COLUMN IF EXISTS anonymized_at;
+
+ALTER TABLE transfer_requests
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at,
+  DROP COLUMN IF EXISTS anonymized_at;
+
+ALTER TABLE transfer_in_requests
+  DROP COLUMN IF EXISTS legal_hold,
+  DROP COLUMN IF EXISTS legal_hold_reason,
+  DROP COLUMN IF EXISTS legal_hold_set_by,
+  DROP COLUMN IF EXISTS legal_hold_set_at,
+  DROP COLUMN IF EXISTS anonymized_at;
+
+DROP TYPE IF EXISTS retention_action;
@@ -0,0 +1,410 @@
+-- ============================================
+-- Data retention
+-- ============================================
+-- Each table holding submissions has a retention policy: rows older than
+-- retain_for are deleted or anonymized by run_retention(), which pg_cron
+-- calls once a day. Rows under legal hold are skipped. Every run records
+-- what it did per table in retention_runs / retention_run_items.
+--
+-- Anonymizing clears the patient's details but keeps the row, its dates,
+-- lifecycle state and status history for reporting.
+
+CREATE TYPE retention_action AS ENUM ('delete', 'anonymize');
+
+-- ============================================
+-- Legal hold and anonymized rows
+-- ============================================
+ALTER TABLE contact_messages
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE waitlist_entries
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE splash_modal_submissions
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE refill_requests
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE transfer_requests
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE transfer_in_requests
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_by UUID,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+-- Identifying columns may only be empty once a row is anonymized
+ALTER TABLE contact_messages
+  ALTER COLUMN name DROP NOT NULL,
+  ALTER COLUMN phone DROP NOT NULL,
+  ALTER COLUMN email DROP NOT NULL,
+  ALTER COLUMN message DROP NOT NULL,
+  ADD CONSTRAINT contact_messages_identified CHECK (
+    anonymized_at IS NOT NULL
+    OR (name IS NOT NULL AND phone IS NOT NULL AND email IS NOT NULL AND message IS NOT NULL)
+  );
+
+ALTER TABLE waitlist_entries
+  ALTER COLUMN name DROP NOT NULL,
+  ALTER COLUMN email DROP NOT NULL,
+  ALTER COLUMN phone DROP NOT NULL,
+  ADD CONSTRAINT waitlist_entries_identified CHECK (
+    anonymized_at IS NOT NULL
+    OR (name IS NOT NULL AND email IS NOT NULL AND phone IS NOT NULL)
+  );
+
+ALTER TABLE refill_requests
+  ALTER COLUMN patient_first_name_encrypted DROP NOT NULL,
+  ALTER COLUMN patient_last_name_encrypted DROP NOT NULL,
+  ALTER COLUMN dob_encrypted DROP NOT NULL,
+  ALTER COLUMN phone_encrypted DROP NOT NULL,
+  ALTER COLUMN dob_hash DROP NOT NULL,
+  ALTER COLUMN phone_hash DROP NOT NULL,
+  ADD CONSTRAINT refill_requests_identified CHECK (
+    anonymized_at IS NOT NULL
+    OR (patient_first_name_encrypted IS NOT NULL AND patient_last_name_encrypted IS NOT NULL
+        AND dob_encrypted IS NOT NULL AND phone_encrypted IS NOT NULL
+        AND dob_hash IS NOT NULL AND phone_hash IS NOT NULL)
+  );
+
+ALTER TABLE transfer_in_requests
+  ALTER COLUMN patient_name_encrypted DROP NOT NULL,
+  ALTER COLUMN dob_encrypted DROP NOT NULL,
+  ALTER COLUMN phone_encrypted DROP NOT NULL,
+  ALTER COLUMN medication_names_encrypted DROP NOT NULL,
+  ALTER COLUMN dob_hash DROP NOT NULL,
+  ALTER COLUMN phone_hash DROP NOT NULL,
+  ADD CONSTRAINT transfer_in_requests_identified CHECK (
+    anonymized_at IS NOT NULL
+    OR (patient_name_encrypted IS NOT NULL AND dob_encrypted IS NOT NULL
+        AND phone_encrypted IS NOT NULL AND medication_names_encrypted IS NOT NULL
+        AND dob_hash IS NOT NULL AND phone_hash IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_created_at ON waitlist_entries(created_at);
+
+-- ============================================
+-- Policies
+-- ============================================
+CREATE TABLE IF NOT EXISTS retention_policies (
+  table_name TEXT PRIMARY KEY CHECK (table_name IN (
+    'contact_messages', 'waitlist_entries', 'splash_modal_submissions',
+    'refill_requests', 'transfer_requests', 'transfer_in_requests'
+  )),
+  retain_for INTERVAL NOT NULL CHECK (retain_for >= INTERVAL '30 days'),
+  action retention_action NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  -- A splash signup is only an email; anonymizing it would leave nothing
+  CHECK (action = 'delete' OR table_name <> 'splash_modal_submissions')
+);
+
+INSERT INTO retention_policies (table_name, retain_for, action) VALUES
+  ('contact_messages', INTERVAL '1 year', 'delete'),
+  ('splash_modal_submissions', INTERVAL '2 years', 'delete'),
+  ('waitlist_entries', INTERVAL '3 years', 'delete'),
+  ('refill_requests', INTERVAL '6 years', 'anonymize'),
+  ('transfer_requests', INTERVAL '6 years', 'anonymize'),
+  ('transfer_in_requests', INTERVAL '6 years', 'anonymize')
+ON CONFLICT (table_name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION set_retention_policy_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER retention_policies_updated_at BEFORE UPDATE ON retention_policies
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER retention_policies_updated_by BEFORE UPDATE ON retention_policies
+  FOR EACH ROW EXECUTE FUNCTION set_retention_policy_updated_by();
+
+-- ============================================
+-- Run reports
+-- ============================================
+CREATE TABLE IF NOT EXISTS retention_runs (
+  id BIGSERIAL PRIMARY KEY,
+  dry_run BOOLEAN NOT NULL,
+  triggered_by UUID,
+  triggered_by_role TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One row per table per run. affected_count is what was (or, in a dry run,
+-- would be) deleted or anonymized; held_count is what legal hold kept.
+CREATE TABLE IF NOT EXISTS retention_run_items (
+  run_id BIGINT NOT NULL REFERENCES retention_runs(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  action retention_action NOT NULL,
+  cutoff TIMESTAMP WITH TIME ZONE,
+  affected_count INTEGER NOT NULL,
+  held_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (run_id, table_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_runs_started_at ON retention_runs(started_at);
+
+ALTER TABLE retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retention_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retention_run_items ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON retention_policies, retention_runs, retention_run_items FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE retention_runs_id_seq FROM anon, authenticated;
+GRANT SELECT ON retention_policies, retention_runs, retention_run_items TO authenticated;
+GRANT UPDATE (retain_for, action, enabled) ON retention_policies TO authenticated;
+
+CREATE POLICY "Staff can read" ON retention_policies FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON retention_policies FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON retention_runs FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can read" ON retention_run_items FOR SELECT TO authenticated USING (is_staff());
+
+-- ============================================
+-- Status history of deleted requests
+-- ============================================
+-- Same as 013, except that history of a request that no longer exists may be
+-- deleted, so a purged request leaves nothing behind.
+CREATE OR REPLACE FUNCTION prevent_request_status_history_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_exists BOOLEAN;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1)', submission_table(OLD.request_type))
+      INTO v_exists
+      USING OLD.request_id;
+    IF NOT v_exists THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'request_status_history is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+-- ============================================
+-- run_retention
+-- ============================================
+-- Applies every enabled policy and returns the run id. A dry run counts
+-- without changing anything. Called by pg_cron, the service role or staff.
+CREATE OR REPLACE FUNCTION run_retention(p_dry_run BOOLEAN DEFAULT false)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id BIGINT;
+  v_policy RECORD;
+  v_cutoff TIMESTAMP WITH TIME ZONE;
+  v_affected INTEGER;
+  v_held INTEGER;
+BEGIN
+  IF auth.role() = 'authenticated' AND NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO retention_runs (dry_run, triggered_by, triggered_by_role)
+  VALUES (p_dry_run, auth.uid(), COALESCE(NULLIF(auth.role(), ''), session_user))
+  RETURNING id INTO v_run_id;
+
+  FOR v_policy IN
+    SELECT * FROM retention_policies WHERE enabled ORDER BY table_name
+  LOOP
+    v_cutoff := CURRENT_TIMESTAMP - v_policy.retain_for;
+
+    EXECUTE format(
+      'SELECT count(*) FILTER (WHERE NOT legal_hold), count(*) FILTER (WHERE legal_hold) FROM %I WHERE created_at < $1 %s',
+      v_policy.table_name,
+      CASE WHEN v_policy.action = 'anonymize' THEN 'AND anonymized_at IS NULL' ELSE '' END
+    )
+    INTO v_affected, v_held
+    USING v_cutoff;
+
+    IF NOT p_dry_run AND v_affected > 0 THEN
+      IF v_policy.action = 'delete' THEN
+        EXECUTE format('DELETE FROM %I WHERE created_at < $1 AND NOT legal_hold', v_policy.table_name)
+          USING v_cutoff;
+      ELSE
+        CASE v_policy.table_name
+          WHEN 'contact_messages' THEN
+            UPDATE contact_messages
+            SET name = NULL, phone = NULL, email = NULL, message = NULL,
+                anonymized_at = CURRENT_TIMESTAMP
+            WHERE created_at < v_cutoff AND NOT legal_hold AND anonymized_at IS NULL;
+          WHEN 'waitlist_entries' THEN
+            UPDATE waitlist_entries
+            SET name = NULL, email = NULL, phone = NULL,
+                anonymized_at = CURRENT_TIMESTAMP
+            WHERE created_at < v_cutoff AND NOT legal_hold AND anonymized_at IS NULL;
+          WHEN 'refill_requests' THEN
+            WITH anonymized AS (
+              UPDATE refill_requests
+              SET patient_first_name_encrypted = NULL, patient_middle_name_encrypted = NULL,
+                  patient_last_name_encrypted = NULL, patient_suffix = NULL,
+                  dob_encrypted = NULL, phone_encrypted = NULL, email_encrypted = NULL,
+                  notes_encrypted = NULL, dob_hash = NULL, phone_hash = NULL,
+                  submission_result = NULL, last_submission_error = NULL,
+                  anonymized_at = CURRENT_TIMESTAMP
+              WHERE created_at < v_cutoff AND NOT legal_hold AND anonymized_at IS NULL
+              RETURNING id
+            )
+            DELETE FROM refill_request_prescriptions
+            WHERE refill_request_id IN (SELECT id FROM anonymized);
+          WHEN 'transfer_requests' THEN
+            WITH anonymized AS (
+              UPDATE transfer_requests
+              SET patient_dob_encrypted = NULL, patient_dob_hash = NULL,
+                  transfer_rx_remark = NULL,
+                  submission_result = NULL, last_submission_error = NULL,
+                  anonymized_at = CURRENT_TIMESTAMP
+              WHERE created_at < v_cutoff AND NOT legal_hold AND anonymized_at IS NULL
+              RETURNING id
+            )
+            DELETE FROM transfer_request_prescriptions
+            WHERE transfer_request_id IN (SELECT id FROM anonymized);
+          WHEN 'transfer_in_requests' THEN
+            UPDATE transfer_in_requests
+            SET patient_name_encrypted = NULL, dob_encrypted = NULL, phone_encrypted = NULL,
+                email_encrypted = NULL, medication_names_encrypted = NULL, notes_encrypted = NULL,
+                dob_hash = NULL, phone_hash = NULL,
+                anonymized_at = CURRENT_TIMESTAMP
+            WHERE created_at < v_cutoff AND NOT legal_hold AND anonymized_at IS NULL;
+        END CASE;
+      END IF;
+    END IF;
+
+    INSERT INTO retention_run_items (run_id, table_name, action, cutoff, affected_count, held_count)
+    VALUES (v_run_id, v_policy.table_name, v_policy.action, v_cutoff, v_affected, v_held);
+  END LOOP;
+
+  -- History of purged refills and transfers. Not counted in a dry run.
+  IF NOT p_dry_run THEN
+    DELETE FROM request_status_history AS h
+    WHERE NOT EXISTS (
+      SELECT 1 FROM refill_requests WHERE h.request_type = 'refill' AND id = h.request_id
+      UNION ALL
+      SELECT 1 FROM transfer_requests WHERE h.request_type = 'transfer' AND id = h.request_id
+    );
+    GET DIAGNOSTICS v_affected = ROW_COUNT;
+
+    INSERT INTO retention_run_items (run_id, table_name, action, cutoff, affected_count)
+    VALUES (v_run_id, 'request_status_history', 'delete', NULL, v_affected);
+  END IF;
+
+  UPDATE retention_runs SET finished_at = CURRENT_TIMESTAMP WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION run_retention(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION run_retention(BOOLEAN) TO authenticated, service_role;
+
+-- ============================================
+-- staff_set_legal_hold
+-- ============================================
+-- A reason is required to place a hold. Releasing keeps the reason and who
+-- last changed the hold.
+CREATE OR REPLACE FUNCTION staff_set_legal_hold(
+  p_table_name TEXT,
+  p_id UUID,
+  p_hold BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT := NULLIF(btrim(p_reason), '');
+  v_found BOOLEAN;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_table_name IS NULL OR p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'splash_modal_submissions',
+    'refill_requests', 'transfer_requests', 'transfer_in_requests'
+  ) THEN
+    RAISE EXCEPTION 'Legal hold is not available for %', p_table_name USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_hold IS NULL THEN
+    RAISE EXCEPTION 'Hold is required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_hold AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to place a legal hold' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF length(v_reason) > 500 THEN
+    RAISE EXCEPTION 'Reason must be at most 500 characters' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  EXECUTE format($q$
+    UPDATE %I
+    SET legal_hold = $2,
+        legal_hold_reason = COALESCE($3, legal_hold_reason),
+        legal_hold_set_by = auth.uid(),
+        legal_hold_set_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING true
+  $q$, p_table_name)
+  INTO v_found
+  USING p_id, p_hold, v_reason;
+
+  IF v_found IS NULL THEN
+    RAISE EXCEPTION 'No % row with id %', p_table_name, p_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION staff_set_legal_hold(TEXT, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION staff_set_legal_hold(TEXT, UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================
+-- Schedule (Supabase: pg_cron)
+-- ============================================
+-- Daily at 07:15 UTC. Skipped on databases without pg_cron.
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+    PERFORM cron.schedule('run-retention', '15 7 * * *', 'SELECT run_retention()');
+  END IF;
+END;
+$do$;
@@ -0,0 +1,3 @@
+-- Reverts 015_staff_queue.sql.
+
+DROP FUNCTION IF EXISTS staff_list_requests(TEXT, request_status, submission_status, TEXT, TEXT, BOOLEAN, INTEGER, INTEGER);
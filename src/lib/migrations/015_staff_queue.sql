@@ -0,0 +1,100 @@
+-- ============================================
+-- Staff request queue
+-- ============================================
+-- Backs the /admin console: one page of refill and transfer requests with
+-- filters and sorting. Patient names are decrypted for the returned page
+-- only, so sorting is limited to unencrypted columns.
+
+CREATE OR REPLACE FUNCTION staff_list_requests(
+  p_request_type TEXT DEFAULT NULL,
+  p_request_status request_status DEFAULT NULL,
+  p_submission_status submission_status DEFAULT NULL,
+  p_confirmation_code TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'created_at',
+  p_descending BOOLEAN DEFAULT true,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  request_type TEXT,
+  id UUID,
+  confirmation_code TEXT,
+  patient_name TEXT,
+  transfer_to_pharmacy_name TEXT,
+  preferred_service service_preference,
+  request_status request_status,
+  submission_status submission_status,
+  submission_attempts INTEGER,
+  prescription_count INTEGER,
+  legal_hold BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Normalized like lookup_request_status: upper case, dashes optional
+  v_code TEXT := NULLIF(upper(regexp_replace(COALESCE(p_confirmation_code, ''), '[^A-Za-z0-9]', '', 'g')), '');
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_request_type IS NOT NULL AND p_request_type NOT IN ('refill', 'transfer') THEN
+    RAISE EXCEPTION 'Unknown request type: %', p_request_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_sort IS NULL OR p_sort NOT IN ('created_at', 'updated_at', 'request_status', 'submission_status', 'confirmation_code') THEN
+    RAISE EXCEPTION 'Cannot sort by %', p_sort USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_limit IS NULL OR p_limit NOT BETWEEN 1 AND 200 OR p_offset IS NULL OR p_offset < 0 THEN
+    RAISE EXCEPTION 'Page size must be 1 to 200' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY EXECUTE format($q$
+    SELECT page.request_type, page.id, page.confirmation_code,
+      CASE WHEN page.request_type = 'refill' THEN
+        concat_ws(' ', decrypt_phi(r.patient_first_name_encrypted), decrypt_phi(r.patient_middle_name_encrypted),
+          decrypt_phi(r.patient_last_name_encrypted), r.patient_suffix)
+      END,
+      page.transfer_to_pharmacy_name, page.preferred_service, page.request_status, page.submission_status,
+      page.submission_attempts, page.prescription_count, page.legal_hold, page.created_at, page.updated_at,
+      page.total_count
+    FROM (
+      SELECT queue.*, count(*) OVER () AS total_count
+      FROM (
+        SELECT 'refill'::TEXT AS request_type, q.id, q.confirmation_code::TEXT AS confirmation_code,
+          NULL::TEXT AS transfer_to_pharmacy_name, q.preferred_service, q.request_status, q.submission_status,
+          q.submission_attempts,
+          (SELECT count(*)::INTEGER FROM refill_request_prescriptions AS p WHERE p.refill_request_id = q.id) AS prescription_count,
+          q.legal_hold, q.created_at, q.updated_at
+        FROM refill_requests AS q
+        UNION ALL
+        SELECT 'transfer', q.id, q.confirmation_code::TEXT,
+          q.transfer_to_pharmacy_name::TEXT, NULL, q.request_status, q.submission_status,
+          q.submission_attempts,
+          (SELECT count(*)::INTEGER FROM transfer_request_prescriptions AS p WHERE p.transfer_request_id = q.id),
+          q.legal_hold, q.created_at, q.updated_at
+        FROM transfer_requests AS q
+      ) AS queue
+      WHERE ($1 IS NULL OR queue.request_type = $1)
+        AND ($2 IS NULL OR queue.request_status = $2)
+        AND ($3 IS NULL OR queue.submission_status = $3)
+        AND ($4 IS NULL OR replace(queue.confirmation_code, '-', '') LIKE $4 || '%%')
+      ORDER BY queue.%1$I %2$s NULLS LAST, queue.created_at DESC, queue.id
+      LIMIT $5 OFFSET $6
+    ) AS page
+    LEFT JOIN refill_requests AS r ON page.request_type = 'refill' AND r.id = page.id
+    ORDER BY page.%1$I %2$s NULLS LAST, page.created_at DESC, page.id
+  $q$, p_sort, CASE WHEN p_descending THEN 'DESC' ELSE 'ASC' END)
+  USING p_request_type, p_request_status, p_submission_status, v_code, p_limit, p_offset;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION staff_list_requests(TEXT, request_status, submission_status, TEXT, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION staff_list_requests(TEXT, request_status, submission_status, TEXT, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,17 @@
+-- Reverts 016_waitlist_workflow.sql. Contact attempts and the contacted /
+-- enrolled timestamps are dropped; entry statuses are kept.
+
+DROP FUNCTION IF EXISTS staff_enroll_waitlist_entry(UUID);
+DROP FUNCTION IF EXISTS staff_record_waitlist_contact(UUID, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS staff_mark_waitlist_contacted(UUID[]);
+DROP FUNCTION IF EXISTS staff_list_waitlist(waitlist_status, TEXT, INTEGER, INTEGER);
+
+DROP TABLE IF EXISTS waitlist_contact_attempts;
+
+DROP TRIGGER IF EXISTS waitlist_entries_status_transition ON waitlist_entries;
+DROP FUNCTION IF EXISTS enforce_waitlist_status_transition();
+
+ALTER TABLE waitlist_entries
+  DROP COLUMN IF EXISTS contacted_at,
+  DROP COLUMN IF EXISTS enrolled_at,
+  DROP COLUMN IF EXISTS status_changed_by;
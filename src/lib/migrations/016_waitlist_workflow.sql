@@ -0,0 +1,234 @@
+-- ============================================
+-- Waitlist workflow
+-- ============================================
+-- Staff work the RPM waitlist in the order of the waitlist_status enum:
+-- active -> contacted -> enrolled, one step at a time. A trigger enforces the
+-- order for every update and stamps when and by whom each step was taken.
+-- Contact attempts are logged in waitlist_contact_attempts; logging the first
+-- one moves an active entry to contacted.
+
+ALTER TABLE waitlist_entries
+  ADD COLUMN contacted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN enrolled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN status_changed_by UUID;
+
+-- ============================================
+-- Status order
+-- ============================================
+CREATE OR REPLACE FUNCTION enforce_waitlist_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT ((OLD.status = 'active' AND NEW.status = 'contacted')
+       OR (OLD.status = 'contacted' AND NEW.status = 'enrolled')) THEN
+    RAISE EXCEPTION 'A waitlist entry cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NEW.status = 'contacted' THEN
+    NEW.contacted_at := CURRENT_TIMESTAMP;
+  ELSE
+    NEW.enrolled_at := CURRENT_TIMESTAMP;
+  END IF;
+  NEW.status_changed_by := auth.uid();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER waitlist_entries_status_transition
+  BEFORE UPDATE OF status ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION enforce_waitlist_status_transition();
+
+-- ============================================
+-- Contact attempts
+-- ============================================
+CREATE TABLE IF NOT EXISTS waitlist_contact_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  waitlist_entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('phone', 'email', 'sms', 'in_person')),
+  outcome TEXT NOT NULL CHECK (outcome IN ('reached', 'left_message', 'no_answer', 'wrong_number', 'declined')),
+  note TEXT,
+  attempted_by UUID,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_contact_attempts_entry
+  ON waitlist_contact_attempts(waitlist_entry_id, attempted_at);
+
+ALTER TABLE waitlist_contact_attempts ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON waitlist_contact_attempts FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE waitlist_contact_attempts_id_seq FROM anon, authenticated;
+GRANT SELECT ON waitlist_contact_attempts TO authenticated;
+
+CREATE POLICY "Staff can read" ON waitlist_contact_attempts FOR SELECT TO authenticated USING (is_staff());
+
+-- ============================================
+-- Staff RPCs
+-- ============================================
+
+-- One page of entries, oldest first. p_search matches name, email or phone.
+CREATE OR REPLACE FUNCTION staff_list_waitlist(
+  p_status waitlist_status DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  status waitlist_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  contacted_at TIMESTAMP WITH TIME ZONE,
+  enrolled_at TIMESTAMP WITH TIME ZONE,
+  attempt_count INTEGER,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search TEXT := NULLIF(btrim(p_search), '');
+  v_phone TEXT := normalize_us_phone(p_search);
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_limit IS NULL OR p_limit NOT BETWEEN 1 AND 500 OR p_offset IS NULL OR p_offset < 0 THEN
+    RAISE EXCEPTION 'Page size must be 1 to 500' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  SELECT w.id, w.name::TEXT, w.email::TEXT, w.phone::TEXT, w.status, w.created_at,
+    w.contacted_at, w.enrolled_at,
+    COALESCE(a.attempt_count, 0)::INTEGER, a.last_attempt_at,
+    count(*) OVER ()
+  FROM waitlist_entries AS w
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS attempt_count, max(attempted_at) AS last_attempt_at
+    FROM waitlist_contact_attempts
+    WHERE waitlist_entry_id = w.id
+  ) AS a ON true
+  WHERE w.anonymized_at IS NULL
+    AND (p_status IS NULL OR w.status = p_status)
+    AND (v_search IS NULL
+      OR w.name ILIKE '%' || v_search || '%'
+      OR w.email ILIKE '%' || v_search || '%'
+      OR w.phone = v_phone)
+  ORDER BY w.created_at, w.id
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$;
+
+-- Moves the given active entries to contacted and returns how many moved.
+-- Entries that are already contacted or enrolled are left alone.
+CREATE OR REPLACE FUNCTION staff_mark_waitlist_contacted(p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(cardinality(p_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Select at least one entry' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE waitlist_entries
+  SET status = 'contacted'
+  WHERE id = ANY(p_ids) AND status = 'active';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION staff_record_waitlist_contact(
+  p_entry_id UUID,
+  p_channel TEXT,
+  p_outcome TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_channel IS NULL OR p_channel NOT IN ('phone', 'email', 'sms', 'in_person') THEN
+    RAISE EXCEPTION 'Unknown contact channel: %', p_channel USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_outcome IS NULL OR p_outcome NOT IN ('reached', 'left_message', 'no_answer', 'wrong_number', 'declined') THEN
+    RAISE EXCEPTION 'Unknown contact outcome: %', p_outcome USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF length(p_note) > 2000 THEN
+    RAISE EXCEPTION 'Note must be at most 2000 characters' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM waitlist_entries WHERE id = p_entry_id AND anonymized_at IS NULL) THEN
+    RAISE EXCEPTION 'No waitlist entry with id %', p_entry_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO waitlist_contact_attempts (waitlist_entry_id, channel, outcome, note, attempted_by)
+  VALUES (p_entry_id, p_channel, p_outcome, NULLIF(btrim(p_note), ''), auth.uid())
+  RETURNING id INTO v_id;
+
+  UPDATE waitlist_entries SET status = 'contacted' WHERE id = p_entry_id AND status = 'active';
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only a contacted entry can be enrolled
+CREATE OR REPLACE FUNCTION staff_enroll_waitlist_entry(p_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE waitlist_entries SET status = 'enrolled' WHERE id = p_entry_id AND anonymized_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No waitlist entry with id %', p_entry_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION staff_list_waitlist(waitlist_status, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_mark_waitlist_contacted(UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_record_waitlist_contact(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_enroll_waitlist_entry(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION staff_list_waitlist(waitlist_status, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_mark_waitlist_contacted(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_record_waitlist_contact(UUID, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_enroll_waitlist_entry(UUID) TO authenticated;
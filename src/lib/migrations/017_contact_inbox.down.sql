@@ -0,0 +1,34 @@
+-- Reverts 017_contact_inbox.sql. Queue, assignment and reply state on
+-- contact messages is dropped; the messages themselves are kept.
+
+DROP FUNCTION IF EXISTS staff_set_contact_message_status(UUID, contact_message_status);
+DROP FUNCTION IF EXISTS staff_assign_contact_message(UUID, UUID);
+DROP FUNCTION IF EXISTS staff_list_contact_messages(TEXT, contact_message_status, UUID, BOOLEAN, BOOLEAN, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS staff_list_team();
+
+DROP TRIGGER IF EXISTS contact_messages_workflow ON contact_messages;
+DROP TRIGGER IF EXISTS contact_messages_route ON contact_messages;
+DROP FUNCTION IF EXISTS enforce_contact_message_workflow();
+DROP FUNCTION IF EXISTS route_contact_message();
+DROP FUNCTION IF EXISTS is_staff_user(UUID);
+
+ALTER TABLE contact_messages
+  DROP COLUMN IF EXISTS queue_id,
+  DROP COLUMN IF EXISTS inbox_status,
+  DROP COLUMN IF EXISTS assigned_to,
+  DROP COLUMN IF EXISTS assigned_at,
+  DROP COLUMN IF EXISTS first_replied_at,
+  DROP COLUMN IF EXISTS closed_at,
+  DROP COLUMN IF EXISTS sla_due_at,
+  DROP COLUMN IF EXISTS status_changed_by;
+
+DROP TABLE IF EXISTS contact_reason_routes;
+DROP TABLE IF EXISTS contact_queues;
+DROP FUNCTION IF EXISTS reschedule_contact_message_sla();
+DROP FUNCTION IF EXISTS set_updated_by();
+
+DROP FUNCTION IF EXISTS add_business_minutes(TIMESTAMP WITH TIME ZONE, INTEGER);
+DROP FUNCTION IF EXISTS store_time_zone();
+DROP TABLE IF EXISTS store_hours;
+
+DROP TYPE IF EXISTS contact_message_status;
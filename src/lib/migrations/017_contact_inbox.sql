@@ -0,0 +1,417 @@
+-- ============================================
+-- Contact inbox
+-- ============================================
+-- Each contact message is routed to a queue by its reason, can be assigned
+-- to a staff member, and moves between open, replied and closed. A message
+-- is overdue when it is still open and unanswered after its queue's SLA,
+-- counted in store hours only.
+
+CREATE TYPE contact_message_status AS ENUM ('open', 'replied', 'closed');
+
+-- ============================================
+-- Store hours
+-- ============================================
+-- The hours shown on the site (src/lib/storeHours.ts); keep both in step.
+-- day_of_week counts from Sunday = 0, like JavaScript's Date#getDay.
+CREATE TABLE IF NOT EXISTS store_hours (
+  day_of_week SMALLINT PRIMARY KEY CHECK (day_of_week BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  CHECK (closes_at > opens_at)
+);
+
+INSERT INTO store_hours (day_of_week, opens_at, closes_at) VALUES
+  (1, '08:30', '16:30'),
+  (2, '08:30', '16:30'),
+  (3, '08:30', '16:30'),
+  (4, '08:30', '16:30'),
+  (5, '08:30', '16:30')
+ON CONFLICT (day_of_week) DO NOTHING;
+
+-- The store is in Columbus, OH
+CREATE OR REPLACE FUNCTION store_time_zone()
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'America/New_York'::TEXT;
+$$;
+
+-- The moment p_minutes of store hours have passed since p_start. Time outside
+-- store hours does not count, so a message sent on Saturday starts its clock
+-- on Monday at opening.
+CREATE OR REPLACE FUNCTION add_business_minutes(p_start TIMESTAMP WITH TIME ZONE, p_minutes INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_start AT TIME ZONE store_time_zone();
+  v_remaining NUMERIC := GREATEST(p_minutes, 0);
+  v_day DATE := v_local::DATE;
+  v_hours store_hours%ROWTYPE;
+  v_from TIMESTAMP;
+  v_until TIMESTAMP;
+  v_available NUMERIC;
+BEGIN
+  IF p_start IS NULL OR p_minutes IS NULL OR NOT EXISTS (SELECT 1 FROM store_hours) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A year is far more than any SLA; the bound only guards the loop
+  FOR i IN 0..366 LOOP
+    SELECT * INTO v_hours FROM store_hours WHERE day_of_week = extract(dow FROM v_day);
+
+    IF FOUND THEN
+      v_from := GREATEST(v_local, v_day + v_hours.opens_at);
+      v_until := v_day + v_hours.closes_at;
+
+      IF v_from < v_until THEN
+        v_available := extract(epoch FROM v_until - v_from) / 60;
+        IF v_remaining <= v_available THEN
+          RETURN (v_from + v_remaining * INTERVAL '1 minute') AT TIME ZONE store_time_zone();
+        END IF;
+        v_remaining := v_remaining - v_available;
+      END IF;
+    END IF;
+
+    v_day := v_day + 1;
+    v_local := v_day::TIMESTAMP;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================
+-- Queues and routing
+-- ============================================
+CREATE TABLE IF NOT EXISTS contact_queues (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Store-hours minutes a message may wait for a first reply
+  sla_business_minutes INTEGER NOT NULL CHECK (sla_business_minutes > 0),
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO contact_queues (id, name, sla_business_minutes) VALUES
+  ('front_desk', 'Front desk', 240),
+  ('pharmacy', 'Pharmacy', 120),
+  ('rpm', 'RPM team', 480)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS contact_reason_routes (
+  reason contact_reason PRIMARY KEY,
+  queue_id TEXT NOT NULL REFERENCES contact_queues(id),
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO contact_reason_routes (reason, queue_id) VALUES
+  ('general', 'front_desk'),
+  ('new', 'front_desk'),
+  ('transfer', 'pharmacy'),
+  ('refill', 'pharmacy'),
+  ('rpm', 'rpm')
+ON CONFLICT (reason) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION set_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_queues_updated_at BEFORE UPDATE ON contact_queues
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER contact_queues_updated_by BEFORE UPDATE ON contact_queues
+  FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER contact_reason_routes_updated_at BEFORE UPDATE ON contact_reason_routes
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER contact_reason_routes_updated_by BEFORE UPDATE ON contact_reason_routes
+  FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+
+ALTER TABLE contact_queues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_reason_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_hours ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON contact_queues, contact_reason_routes, store_hours FROM anon, authenticated;
+GRANT SELECT ON contact_queues, contact_reason_routes, store_hours TO authenticated;
+GRANT UPDATE (name, sla_business_minutes) ON contact_queues TO authenticated;
+GRANT UPDATE (queue_id) ON contact_reason_routes TO authenticated;
+
+CREATE POLICY "Staff can read" ON contact_queues FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON contact_queues FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON contact_reason_routes FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON contact_reason_routes FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON store_hours FOR SELECT TO authenticated USING (is_staff());
+
+-- ============================================
+-- Message workflow
+-- ============================================
+ALTER TABLE contact_messages
+  ADD COLUMN queue_id TEXT REFERENCES contact_queues(id),
+  ADD COLUMN inbox_status contact_message_status NOT NULL DEFAULT 'open',
+  ADD COLUMN assigned_to UUID,
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN first_replied_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN sla_due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN status_changed_by UUID;
+
+CREATE INDEX IF NOT EXISTS idx_contact_messages_inbox
+  ON contact_messages(queue_id, inbox_status, sla_due_at);
+CREATE INDEX IF NOT EXISTS idx_contact_messages_assigned_to
+  ON contact_messages(assigned_to) WHERE assigned_to IS NOT NULL;
+
+-- Whether a user holds the staff role. auth.users is not readable by
+-- authenticated, hence SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION is_staff_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = p_user_id AND raw_app_meta_data ->> 'role' = 'staff'
+  );
+$$;
+
+-- Routes a new message by its reason and starts its SLA clock. Moving a
+-- message to another queue restarts the clock from when it was received.
+CREATE OR REPLACE FUNCTION route_contact_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.queue_id IS NULL THEN
+    SELECT queue_id INTO NEW.queue_id FROM contact_reason_routes WHERE reason = NEW.reason;
+  END IF;
+
+  NEW.sla_due_at := add_business_minutes(
+    COALESCE(NEW.created_at, CURRENT_TIMESTAMP),
+    (SELECT sla_business_minutes FROM contact_queues WHERE id = NEW.queue_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_messages_route
+  BEFORE INSERT OR UPDATE OF queue_id ON contact_messages
+  FOR EACH ROW EXECUTE FUNCTION route_contact_message();
+
+-- open -> replied | closed, replied -> open | closed, closed -> open.
+-- Stamps the first reply, the close, and the assignment.
+CREATE OR REPLACE FUNCTION enforce_contact_message_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.inbox_status IS DISTINCT FROM OLD.inbox_status THEN
+    IF NOT ((OLD.inbox_status = 'open' AND NEW.inbox_status IN ('replied', 'closed'))
+         OR (OLD.inbox_status = 'replied' AND NEW.inbox_status IN ('open', 'closed'))
+         OR (OLD.inbox_status = 'closed' AND NEW.inbox_status = 'open')) THEN
+      RAISE EXCEPTION 'A contact message cannot move from % to %', OLD.inbox_status, NEW.inbox_status
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF NEW.inbox_status = 'replied' THEN
+      NEW.first_replied_at := COALESCE(OLD.first_replied_at, CURRENT_TIMESTAMP);
+    END IF;
+    NEW.closed_at := CASE WHEN NEW.inbox_status = 'closed' THEN CURRENT_TIMESTAMP END;
+    NEW.status_changed_by := auth.uid();
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF NEW.assigned_to IS NOT NULL AND NOT is_staff_user(NEW.assigned_to) THEN
+      RAISE EXCEPTION 'User % is not a staff member', NEW.assigned_to
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    NEW.assigned_at := CASE WHEN NEW.assigned_to IS NOT NULL THEN CURRENT_TIMESTAMP END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_messages_workflow
+  BEFORE UPDATE OF inbox_status, assigned_to ON contact_messages
+  FOR EACH ROW EXECUTE FUNCTION enforce_contact_message_workflow();
+
+-- A new SLA applies at once to messages still waiting for a first reply
+CREATE OR REPLACE FUNCTION reschedule_contact_message_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE contact_messages
+  SET sla_due_at = add_business_minutes(created_at, NEW.sla_business_minutes)
+  WHERE queue_id = NEW.id AND first_replied_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_queues_reschedule_sla
+  AFTER UPDATE OF sla_business_minutes ON contact_queues
+  FOR EACH ROW
+  WHEN (NEW.sla_business_minutes IS DISTINCT FROM OLD.sla_business_minutes)
+  EXECUTE FUNCTION reschedule_contact_message_sla();
+
+-- Route the messages already received
+UPDATE contact_messages AS m
+SET queue_id = r.queue_id
+FROM contact_reason_routes AS r
+WHERE r.reason = m.reason;
+
+-- ============================================
+-- Staff RPCs
+-- ============================================
+
+-- Staff members messages can be assigned to
+CREATE OR REPLACE FUNCTION staff_list_team()
+RETURNS TABLE (id UUID, email TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::TEXT
+  FROM auth.users AS u
+  WHERE u.raw_app_meta_data ->> 'role' = 'staff'
+  ORDER BY u.email;
+END;
+$$;
+
+-- One page of the inbox, soonest SLA first. p_unassigned takes precedence
+-- over p_assigned_to; p_overdue keeps only overdue messages.
+CREATE OR REPLACE FUNCTION staff_list_contact_messages(
+  p_queue_id TEXT DEFAULT NULL,
+  p_status contact_message_status DEFAULT NULL,
+  p_assigned_to UUID DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT false,
+  p_overdue BOOLEAN DEFAULT false,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  queue_id TEXT,
+  reason contact_reason,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  message TEXT,
+  inbox_status contact_message_status,
+  assigned_to UUID,
+  assignee_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  first_replied_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  sla_due_at TIMESTAMP WITH TIME ZONE,
+  is_overdue BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_limit IS NULL OR p_limit NOT BETWEEN 1 AND 200 OR p_offset IS NULL OR p_offset < 0 THEN
+    RAISE EXCEPTION 'Page size must be 1 to 200' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.queue_id, m.reason, m.name::TEXT, m.email::TEXT, m.phone::TEXT, m.message,
+    m.inbox_status, m.assigned_to, u.email::TEXT, m.created_at, m.first_replied_at, m.closed_at,
+    m.sla_due_at, o.is_overdue,
+    count(*) OVER ()
+  FROM contact_messages AS m
+  LEFT JOIN auth.users AS u ON u.id = m.assigned_to
+  CROSS JOIN LATERAL (
+    SELECT m.inbox_status = 'open' AND m.first_replied_at IS NULL
+      AND m.sla_due_at < CURRENT_TIMESTAMP AS is_overdue
+  ) AS o
+  WHERE m.anonymized_at IS NULL
+    AND (p_queue_id IS NULL OR m.queue_id = p_queue_id)
+    AND (p_status IS NULL OR m.inbox_status = p_status)
+    AND (CASE WHEN p_unassigned THEN m.assigned_to IS NULL
+              ELSE p_assigned_to IS NULL OR m.assigned_to = p_assigned_to END)
+    AND (NOT p_overdue OR o.is_overdue)
+  ORDER BY m.sla_due_at NULLS LAST, m.created_at, m.id
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$;
+
+-- Pass NULL to unassign
+CREATE OR REPLACE FUNCTION staff_assign_contact_message(p_id UUID, p_assignee UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE contact_messages SET assigned_to = p_assignee WHERE id = p_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No contact message with id %', p_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION staff_set_contact_message_status(p_id UUID, p_status contact_message_status)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Staff access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE contact_messages SET inbox_status = p_status WHERE id = p_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No contact message with id %', p_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_staff_user(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_list_team() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_list_contact_messages(TEXT, contact_message_status, UUID, BOOLEAN, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_assign_contact_message(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION staff_set_contact_message_status(UUID, contact_message_status) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_staff_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_list_team() TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_list_contact_messages(TEXT, contact_message_status, UUID, BOOLEAN, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_assign_contact_message(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_set_contact_message_status(UUID, contact_message_status) TO authenticated;
@@ -0,0 +1,24 @@
+-- Reverts 018_staff_alerts.sql. Queued and sent alerts are dropped.
+
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'dispatch-staff-alerts';
+  END IF;
+END;
+$do$;
+
+DROP FUNCTION IF EXISTS record_staff_alert_result(BIGINT[], BOOLEAN, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS claim_staff_alerts(INTEGER, INTERVAL);
+
+DROP TRIGGER IF EXISTS contact_messages_staff_alert ON contact_messages;
+DROP TRIGGER IF EXISTS transfer_in_requests_staff_alert ON transfer_in_requests;
+DROP TRIGGER IF EXISTS transfer_requests_staff_alert ON transfer_requests;
+DROP TRIGGER IF EXISTS refill_requests_staff_alert ON refill_requests;
+DROP FUNCTION IF EXISTS queue_staff_alert();
+
+DROP TABLE IF EXISTS staff_alerts;
+DROP TABLE IF EXISTS staff_alert_settings;
+
+DROP TYPE IF EXISTS staff_alert_status;
+DROP TYPE IF EXISTS staff_alert_delivery;
@@ -0,0 +1,231 @@
+-- ============================================
+-- Staff alerts for new submissions
+-- ============================================
+-- Every new refill, transfer, transfer-in and contact message queues a row in
+-- staff_alerts. The dispatch-staff-alerts Edge Function emails them to the
+-- recipients in staff_alert_settings, either one email per submission or a
+-- periodic digest. Alerts hold only the submission type and id, never PHI.
+
+CREATE TYPE staff_alert_delivery AS ENUM ('immediate', 'digest', 'off');
+CREATE TYPE staff_alert_status AS ENUM ('pending', 'sending', 'sent', 'failed', 'skipped');
+
+CREATE TABLE IF NOT EXISTS staff_alert_settings (
+  submission_type TEXT PRIMARY KEY CHECK (submission_type IN ('refill', 'transfer', 'transfer_in', 'contact')),
+  delivery staff_alert_delivery NOT NULL,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  digest_interval INTERVAL NOT NULL DEFAULT INTERVAL '1 hour' CHECK (digest_interval >= INTERVAL '5 minutes'),
+  last_digest_at TIMESTAMP WITH TIME ZONE,
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (array_position(recipients, NULL) IS NULL)
+);
+
+-- No recipients until staff add them; alerts are skipped until then
+INSERT INTO staff_alert_settings (submission_type, delivery) VALUES
+  ('refill', 'immediate'),
+  ('transfer', 'immediate'),
+  ('transfer_in', 'immediate'),
+  ('contact', 'digest')
+ON CONFLICT (submission_type) DO NOTHING;
+
+CREATE TRIGGER staff_alert_settings_updated_at BEFORE UPDATE ON staff_alert_settings
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER staff_alert_settings_updated_by BEFORE UPDATE ON staff_alert_settings
+  FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+
+CREATE TABLE IF NOT EXISTS staff_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  submission_type TEXT NOT NULL REFERENCES staff_alert_settings(submission_type),
+  submission_id UUID NOT NULL,
+  status staff_alert_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (submission_type, submission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_alerts_pending
+  ON staff_alerts(submission_type, created_at) WHERE status IN ('pending', 'sending');
+
+ALTER TABLE staff_alert_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_alerts ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON staff_alert_settings, staff_alerts FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE staff_alerts_id_seq FROM anon, authenticated;
+GRANT SELECT ON staff_alert_settings, staff_alerts TO authenticated;
+GRANT UPDATE (delivery, recipients, digest_interval) ON staff_alert_settings TO authenticated;
+
+CREATE POLICY "Staff can read" ON staff_alert_settings FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff can update" ON staff_alert_settings FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff can read" ON staff_alerts FOR SELECT TO authenticated USING (is_staff());
+
+-- ============================================
+-- Queueing
+-- ============================================
+-- AFTER INSERT on each submission table; TG_ARGV[0] is the submission type
+CREATE OR REPLACE FUNCTION queue_staff_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type TEXT := TG_ARGV[0];
+BEGIN
+  IF EXISTS (SELECT 1 FROM staff_alert_settings WHERE submission_type = v_type AND delivery <> 'off') THEN
+    INSERT INTO staff_alerts (submission_type, submission_id)
+    VALUES (v_type, NEW.id)
+    ON CONFLICT (submission_type, submission_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_staff_alert AFTER INSERT ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION queue_staff_alert('refill');
+CREATE TRIGGER transfer_requests_staff_alert AFTER INSERT ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION queue_staff_alert('transfer');
+CREATE TRIGGER transfer_in_requests_staff_alert AFTER INSERT ON transfer_in_requests
+  FOR EACH ROW EXECUTE FUNCTION queue_staff_alert('transfer_in');
+CREATE TRIGGER contact_messages_staff_alert AFTER INSERT ON contact_messages
+  FOR EACH ROW EXECUTE FUNCTION queue_staff_alert('contact');
+
+-- ============================================
+-- Dispatch
+-- ============================================
+
+-- Claims the alerts that are due: every pending alert of an immediate type,
+-- and all pending alerts of a digest type once its interval has passed.
+-- Alerts of types with no recipients, or switched off since, are skipped.
+-- Rows stuck in 'sending' longer than p_stale_after go back to pending.
+CREATE OR REPLACE FUNCTION claim_staff_alerts(
+  p_limit INTEGER DEFAULT 100,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS TABLE (
+  id BIGINT,
+  submission_type TEXT,
+  submission_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  delivery staff_alert_delivery,
+  recipients TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed BIGINT[];
+BEGIN
+  UPDATE staff_alerts AS a
+  SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+  WHERE a.status = 'sending' AND a.updated_at < CURRENT_TIMESTAMP - p_stale_after;
+
+  UPDATE staff_alerts AS a
+  SET status = 'skipped', updated_at = CURRENT_TIMESTAMP
+  FROM staff_alert_settings AS s
+  WHERE s.submission_type = a.submission_type
+    AND a.status = 'pending'
+    AND (s.delivery = 'off' OR cardinality(s.recipients) = 0);
+
+  WITH due AS (
+    SELECT a.id
+    FROM staff_alerts AS a
+    JOIN staff_alert_settings AS s ON s.submission_type = a.submission_type
+    WHERE a.status = 'pending'
+      AND (s.delivery = 'immediate'
+        OR (s.delivery = 'digest'
+          AND (s.last_digest_at IS NULL OR s.last_digest_at + s.digest_interval <= CURRENT_TIMESTAMP)))
+    ORDER BY a.created_at
+    LIMIT p_limit
+    FOR UPDATE OF a SKIP LOCKED
+  ), claimed AS (
+    UPDATE staff_alerts AS a
+    SET status = 'sending', attempts = a.attempts + 1, updated_at = CURRENT_TIMESTAMP
+    FROM due
+    WHERE a.id = due.id
+    RETURNING a.id
+  )
+  SELECT COALESCE(array_agg(claimed.id), '{}') INTO v_claimed FROM claimed;
+
+  -- The digest clock restarts when a digest is claimed, not when it is sent
+  UPDATE staff_alert_settings AS s
+  SET last_digest_at = CURRENT_TIMESTAMP
+  WHERE s.delivery = 'digest'
+    AND s.submission_type IN (SELECT a.submission_type FROM staff_alerts AS a WHERE a.id = ANY(v_claimed));
+
+  RETURN QUERY
+  SELECT a.id, a.submission_type, a.submission_id, a.created_at, s.delivery, s.recipients
+  FROM staff_alerts AS a
+  JOIN staff_alert_settings AS s ON s.submission_type = a.submission_type
+  WHERE a.id = ANY(v_claimed)
+  ORDER BY a.created_at, a.id;
+END;
+$$;
+
+-- Records the outcome of sending the given alerts. A failed send is retried
+-- on the next run, up to p_max_attempts attempts.
+CREATE OR REPLACE FUNCTION record_staff_alert_result(
+  p_ids BIGINT[],
+  p_sent BOOLEAN,
+  p_error TEXT DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE staff_alerts
+  SET status = CASE
+        WHEN p_sent THEN 'sent'
+        WHEN attempts >= p_max_attempts THEN 'failed'
+        ELSE 'pending'
+      END::staff_alert_status,
+      sent_at = CASE WHEN p_sent THEN CURRENT_TIMESTAMP END,
+      last_error = CASE WHEN p_sent THEN NULL ELSE p_error END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = ANY(p_ids) AND status = 'sending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_staff_alerts(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_staff_alert_result(BIGINT[], BOOLEAN, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_staff_alerts(INTEGER, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION record_staff_alert_result(BIGINT[], BOOLEAN, TEXT, INTEGER) TO service_role;
+
+-- ============================================
+-- Worker schedule (Supabase: pg_cron + pg_net)
+-- ============================================
+-- Calls the dispatch-staff-alerts Edge Function every minute with the same
+-- Vault secrets as process-submission-outbox (003).
+-- Skipped on databases without pg_cron (e.g. a plain local Postgres).
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+
+    PERFORM cron.schedule(
+      'dispatch-staff-alerts',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/dispatch-staff-alerts',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'outbox_worker_token')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$do$;
@@ -0,0 +1,121 @@
+-- Reverts 019_patient_notifications.sql. Notification history, opt-outs and
+-- each refill's notification channel are dropped.
+
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'dispatch-patient-notifications';
+  END IF;
+END;
+$do$;
+
+DROP FUNCTION IF EXISTS unsubscribe_patient_notifications(UUID);
+DROP FUNCTION IF EXISTS set_sms_notification_opt_out(TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS record_patient_notification_result(BIGINT, BOOLEAN, TEXT, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS claim_patient_notifications(INTEGER, INTERVAL);
+
+-- submit_refill_request as of 012
+DROP FUNCTION IF EXISTS submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, notification_channel, UUID);
+
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+  v_dob TEXT := to_char(p_dob, 'YYYY-MM-DD');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF concat(p_patient_first_name, p_patient_middle_name, p_patient_last_name) !~ '^[[:alpha:]'' .-]*$'
+     OR greatest(length(btrim(p_patient_first_name)), length(btrim(p_patient_middle_name)), length(btrim(p_patient_last_name))) > 100 THEN
+    RAISE EXCEPTION 'Names can only contain letters, spaces, hyphens and apostrophes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_email IS NOT NULL AND NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name_encrypted, patient_middle_name_encrypted, patient_last_name_encrypted, patient_suffix,
+    dob_encrypted, dob_hash, phone_encrypted, phone_hash, email_encrypted,
+    preferred_service, notes_encrypted, consent, idempotency_key
+  )
+  VALUES (
+    encrypt_phi(btrim(p_patient_first_name)), encrypt_phi(NULLIF(btrim(p_patient_middle_name), '')),
+    encrypt_phi(btrim(p_patient_last_name)), NULLIF(p_patient_suffix, ''),
+    encrypt_phi(v_dob), blind_index(v_dob), encrypt_phi(v_phone), blind_index(v_phone), encrypt_phi(v_email),
+    p_preferred_service, encrypt_phi(NULLIF(p_notes, '')), p_consent, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name_encrypted)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'),
+    encrypt_phi(NULLIF(btrim(item.value->>'medicationName'), ''))
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID) TO service_role;
+
+DROP TRIGGER IF EXISTS refill_requests_patient_notification ON refill_requests;
+DROP FUNCTION IF EXISTS queue_patient_notification();
+
+DROP TABLE IF EXISTS patient_notifications;
+DROP TABLE IF EXISTS patient_notification_opt_outs;
+DROP FUNCTION IF EXISTS notification_address_hash(notification_channel, TEXT);
+
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS notification_channel;
+
+DROP TYPE IF EXISTS patient_notification_status;
+DROP TYPE IF EXISTS patient_notification_event;
+DROP TYPE IF EXISTS notification_channel;
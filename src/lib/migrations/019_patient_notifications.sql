@@ -0,0 +1,419 @@
+-- ============================================
+-- Patient notifications
+-- ============================================
+-- Patients choose on the refill form whether to hear about their refill by
+-- text, by email or not at all. Moving a refill to ready (pickup or delivery)
+-- or to failed queues a row in patient_notifications, which the
+-- dispatch-patient-notifications Edge Function sends. Replying STOP to a text
+-- or following the unsubscribe link in an email records an opt-out, kept as a
+-- blind index of the address so no phone or email is stored twice.
+
+CREATE TYPE notification_channel AS ENUM ('sms', 'email', 'none');
+CREATE TYPE patient_notification_event AS ENUM ('ready_for_pickup', 'out_for_delivery', 'refill_rejected');
+CREATE TYPE patient_notification_status AS ENUM ('pending', 'sending', 'sent', 'failed', 'skipped');
+
+-- Requests made before this migration never asked, so they are not notified
+ALTER TABLE refill_requests
+  ADD COLUMN notification_channel notification_channel NOT NULL DEFAULT 'none';
+
+-- ============================================
+-- Opt-outs
+-- ============================================
+CREATE TABLE IF NOT EXISTS patient_notification_opt_outs (
+  channel notification_channel NOT NULL CHECK (channel <> 'none'),
+  -- blind_index() of the E.164 phone or the lowercased email
+  address_hash BYTEA NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('sms_stop', 'email_unsubscribe')),
+  opted_out_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (channel, address_hash)
+);
+
+-- Same normalization as submit_refill_request, so hashes match refill_requests
+CREATE OR REPLACE FUNCTION notification_address_hash(p_channel notification_channel, p_address TEXT)
+RETURNS BYTEA
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT blind_index(CASE p_channel
+    WHEN 'sms' THEN normalize_us_phone(p_address)
+    WHEN 'email' THEN NULLIF(lower(btrim(p_address)), '')
+  END);
+$$;
+
+-- ============================================
+-- Notifications
+-- ============================================
+CREATE TABLE IF NOT EXISTS patient_notifications (
+  id BIGSERIAL PRIMARY KEY,
+  refill_request_id UUID NOT NULL REFERENCES refill_requests(id) ON DELETE CASCADE,
+  event patient_notification_event NOT NULL,
+  channel notification_channel NOT NULL CHECK (channel <> 'none'),
+  status patient_notification_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  provider_message_id TEXT,
+  -- Identifies the message in its unsubscribe link
+  unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_notifications_request
+  ON patient_notifications(refill_request_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_patient_notifications_pending
+  ON patient_notifications(created_at) WHERE status IN ('pending', 'sending');
+
+ALTER TABLE patient_notification_opt_outs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_notifications ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON patient_notification_opt_outs, patient_notifications FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE patient_notifications_id_seq FROM anon, authenticated;
+GRANT SELECT (id, refill_request_id, event, channel, status, attempts, last_error, created_at, sent_at)
+  ON patient_notifications TO authenticated;
+
+CREATE POLICY "Staff can read" ON patient_notifications FOR SELECT TO authenticated USING (is_staff());
+
+-- AFTER UPDATE OF request_status on refill_requests. The lifecycle (013) has a
+-- single ready state, so a ready delivery refill is the one going out.
+CREATE OR REPLACE FUNCTION queue_patient_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event patient_notification_event;
+BEGIN
+  IF NEW.request_status IS NOT DISTINCT FROM OLD.request_status OR NEW.notification_channel = 'none' THEN
+    RETURN NULL;
+  END IF;
+
+  v_event := CASE
+    WHEN NEW.request_status = 'ready' AND NEW.preferred_service = 'pickup' THEN 'ready_for_pickup'
+    WHEN NEW.request_status = 'ready' AND NEW.preferred_service = 'delivery' THEN 'out_for_delivery'
+    WHEN NEW.request_status = 'failed' THEN 'refill_rejected'
+  END;
+
+  IF v_event IS NOT NULL THEN
+    INSERT INTO patient_notifications (refill_request_id, event, channel)
+    VALUES (NEW.id, v_event, NEW.notification_channel);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_patient_notification
+  AFTER UPDATE OF request_status ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION queue_patient_notification();
+
+-- ============================================
+-- submit_refill_request
+-- ============================================
+-- Same as 012, plus the patient's notification channel. Email notifications
+-- need an email address.
+DROP FUNCTION IF EXISTS submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID);
+
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_notification_channel notification_channel,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_phone TEXT := normalize_us_phone(p_phone);
+  v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+  v_dob TEXT := to_char(p_dob, 'YYYY-MM-DD');
+BEGIN
+  IF jsonb_typeof(p_prescriptions) <> 'array'
+     OR jsonb_array_length(p_prescriptions) = 0
+     OR jsonb_array_length(p_prescriptions) > 10 THEN
+    RAISE EXCEPTION 'A refill must include between 1 and 10 prescriptions'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF COALESCE(btrim(p_patient_first_name), '') = '' OR COALESCE(btrim(p_patient_last_name), '') = '' THEN
+    RAISE EXCEPTION 'First and last name are required' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF concat(p_patient_first_name, p_patient_middle_name, p_patient_last_name) !~ '^[[:alpha:]'' .-]*$'
+     OR greatest(length(btrim(p_patient_first_name)), length(btrim(p_patient_middle_name)), length(btrim(p_patient_last_name))) > 100 THEN
+    RAISE EXCEPTION 'Names can only contain letters, spaces, hyphens and apostrophes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF NOT is_valid_dob(p_dob) THEN
+    RAISE EXCEPTION 'Invalid date of birth' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF v_email IS NOT NULL AND NOT is_valid_email(v_email) THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_notification_channel IS NULL THEN
+    RAISE EXCEPTION 'Choose how to be notified' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_notification_channel = 'email' AND v_email IS NULL THEN
+    RAISE EXCEPTION 'An email address is required for email notifications'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+    WHERE NOT is_valid_rx_number(normalize_rx_number(item.value->>'rxNumber'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid Rx number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT normalize_rx_number(item.value->>'rxNumber')) <> count(*)
+    FROM jsonb_array_elements(p_prescriptions) AS item(value)
+  ) THEN
+    RAISE EXCEPTION 'Each prescription can only be listed once' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_first_name_encrypted, patient_middle_name_encrypted, patient_last_name_encrypted, patient_suffix,
+    dob_encrypted, dob_hash, phone_encrypted, phone_hash, email_encrypted,
+    preferred_service, notes_encrypted, consent, notification_channel, idempotency_key
+  )
+  VALUES (
+    encrypt_phi(btrim(p_patient_first_name)), encrypt_phi(NULLIF(btrim(p_patient_middle_name), '')),
+    encrypt_phi(btrim(p_patient_last_name)), NULLIF(p_patient_suffix, ''),
+    encrypt_phi(v_dob), blind_index(v_dob), encrypt_phi(v_phone), blind_index(v_phone), encrypt_phi(v_email),
+    p_preferred_service, encrypt_phi(NULLIF(p_notes, '')), p_consent, p_notification_channel, p_idempotency_key
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO refill_request_prescriptions (refill_request_id, position, rx_number, medication_name_encrypted)
+  SELECT v_id, item.position, normalize_rx_number(item.value->>'rxNumber'),
+    encrypt_phi(NULLIF(btrim(item.value->>'medicationName'), ''))
+  FROM jsonb_array_elements(p_prescriptions) WITH ORDINALITY AS item(value, position);
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, notification_channel, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_refill_request(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, notification_channel, UUID) TO service_role;
+
+-- ============================================
+-- Dispatch
+-- ============================================
+
+-- Claims pending notifications with the decrypted destination. Notifications
+-- whose address has opted out, or was removed by retention, are skipped.
+-- Rows stuck in 'sending' longer than p_stale_after go back to pending.
+CREATE OR REPLACE FUNCTION claim_patient_notifications(
+  p_limit INTEGER DEFAULT 50,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS TABLE (
+  id BIGINT,
+  event patient_notification_event,
+  channel notification_channel,
+  destination TEXT,
+  confirmation_code TEXT,
+  unsubscribe_token UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed BIGINT[];
+BEGIN
+  UPDATE patient_notifications AS n
+  SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+  WHERE n.status = 'sending' AND n.updated_at < CURRENT_TIMESTAMP - p_stale_after;
+
+  WITH due AS (
+    SELECT n.id,
+      CASE n.channel
+        WHEN 'sms' THEN decrypt_phi(r.phone_encrypted)
+        WHEN 'email' THEN decrypt_phi(r.email_encrypted)
+      END AS destination
+    FROM patient_notifications AS n
+    JOIN refill_requests AS r ON r.id = n.refill_request_id
+    WHERE n.status = 'pending'
+    ORDER BY n.created_at
+    LIMIT p_limit
+    FOR UPDATE OF n SKIP LOCKED
+  ), skipped AS (
+    UPDATE patient_notifications AS n
+    SET status = 'skipped',
+        last_error = CASE WHEN due.destination IS NULL THEN 'No address on file' ELSE 'Opted out' END,
+        updated_at = CURRENT_TIMESTAMP
+    FROM due
+    WHERE n.id = due.id
+      AND (due.destination IS NULL OR EXISTS (
+        SELECT 1 FROM patient_notification_opt_outs AS o
+        WHERE o.channel = n.channel AND o.address_hash = notification_address_hash(n.channel, due.destination)
+      ))
+    RETURNING n.id
+  ), claimed AS (
+    UPDATE patient_notifications AS n
+    SET status = 'sending', attempts = n.attempts + 1, updated_at = CURRENT_TIMESTAMP
+    FROM due
+    WHERE n.id = due.id AND n.id NOT IN (SELECT skipped.id FROM skipped)
+    RETURNING n.id
+  )
+  SELECT COALESCE(array_agg(claimed.id), '{}') INTO v_claimed FROM claimed;
+
+  RETURN QUERY
+  SELECT n.id, n.event, n.channel,
+    CASE n.channel
+      WHEN 'sms' THEN decrypt_phi(r.phone_encrypted)
+      WHEN 'email' THEN decrypt_phi(r.email_encrypted)
+    END,
+    r.confirmation_code::TEXT, n.unsubscribe_token
+  FROM patient_notifications AS n
+  JOIN refill_requests AS r ON r.id = n.refill_request_id
+  WHERE n.id = ANY(v_claimed)
+  ORDER BY n.created_at, n.id;
+END;
+$$;
+
+-- Records the outcome of sending one notification. A failed send is retried
+-- on the next run, up to p_max_attempts attempts.
+CREATE OR REPLACE FUNCTION record_patient_notification_result(
+  p_id BIGINT,
+  p_sent BOOLEAN,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE patient_notifications
+  SET status = CASE
+        WHEN p_sent THEN 'sent'
+        WHEN attempts >= p_max_attempts THEN 'failed'
+        ELSE 'pending'
+      END::patient_notification_status,
+      sent_at = CASE WHEN p_sent THEN CURRENT_TIMESTAMP END,
+      provider_message_id = p_provider_message_id,
+      last_error = CASE WHEN p_sent THEN NULL ELSE p_error END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_id AND status = 'sending';
+END;
+$$;
+
+-- ============================================
+-- Opting out and back in
+-- ============================================
+
+-- STOP (and START) replies from the SMS provider's inbound webhook
+CREATE OR REPLACE FUNCTION set_sms_notification_opt_out(p_phone TEXT, p_opted_out BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hash BYTEA := notification_address_hash('sms', p_phone);
+BEGIN
+  IF v_hash IS NULL THEN
+    RAISE EXCEPTION 'Invalid phone number' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_opted_out THEN
+    INSERT INTO patient_notification_opt_outs (channel, address_hash, source)
+    VALUES ('sms', v_hash, 'sms_stop')
+    ON CONFLICT (channel, address_hash) DO NOTHING;
+  ELSE
+    DELETE FROM patient_notification_opt_outs WHERE channel = 'sms' AND address_hash = v_hash;
+  END IF;
+END;
+$$;
+
+-- The unsubscribe link in a notification email. Returns false for an unknown
+-- token; the address itself is never returned.
+CREATE OR REPLACE FUNCTION unsubscribe_patient_notifications(p_token UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  SELECT decrypt_phi(r.email_encrypted) INTO v_email
+  FROM patient_notifications AS n
+  JOIN refill_requests AS r ON r.id = n.refill_request_id
+  WHERE n.unsubscribe_token = p_token AND n.channel = 'email';
+
+  IF v_email IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO patient_notification_opt_outs (channel, address_hash, source)
+  VALUES ('email', notification_address_hash('email', v_email), 'email_unsubscribe')
+  ON CONFLICT (channel, address_hash) DO NOTHING;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notification_address_hash(notification_channel, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_patient_notifications(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_patient_notification_result(BIGINT, BOOLEAN, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_sms_notification_opt_out(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unsubscribe_patient_notifications(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_patient_notifications(INTEGER, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION record_patient_notification_result(BIGINT, BOOLEAN, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION set_sms_notification_opt_out(TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION unsubscribe_patient_notifications(UUID) TO anon, authenticated;
+
+-- ============================================
+-- Worker schedule (Supabase: pg_cron + pg_net)
+-- ============================================
+-- Calls the dispatch-patient-notifications Edge Function every minute with
+-- the same Vault secrets as process-submission-outbox (003).
+-- Skipped on databases without pg_cron (e.g. a plain local Postgres).
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+
+    PERFORM cron.schedule(
+      'dispatch-patient-notifications',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/dispatch-patient-notifications',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'outbox_worker_token')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$do$;
@@ -0,0 +1,320 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ClientBase } from "pg";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  baselineMigrations,
+  discoverMigrations,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from "./runner.ts";
+
+interface HistoryRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Stands in for a pg client: keeps schema_migrations in memory, honours
+ * BEGIN/COMMIT/ROLLBACK for it, and records every migration statement it runs.
+ * A statement containing "FAIL" throws, like a broken migration would.
+ */
+function createClientStub(history: HistoryRow[] = []) {
+  let rows = [...history];
+  let snapshot: HistoryRow[] | null = null;
+  const executed: string[] = [];
+  const locks: string[] = [];
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const statement = sql.trim();
+
+    if (statement.startsWith("CREATE TABLE IF NOT EXISTS schema_migrations")) return { rows: [] };
+    if (statement.startsWith("SELECT pg_advisory_lock")) {
+      locks.push("lock");
+      return { rows: [] };
+    }
+    if (statement.startsWith("SELECT pg_advisory_unlock")) {
+      locks.push("unlock");
+      return { rows: [] };
+    }
+    if (statement === "BEGIN") {
+      snapshot = [...rows];
+      return { rows: [] };
+    }
+    if (statement === "COMMIT") {
+      snapshot = null;
+      return { rows: [] };
+    }
+    if (statement === "ROLLBACK") {
+      rows = snapshot ?? rows;
+      snapshot = null;
+      return { rows: [] };
+    }
+    if (statement.startsWith("SELECT version, name, checksum, applied_at FROM schema_migrations")) {
+      return { rows: [...rows] };
+    }
+    if (statement.startsWith("INSERT INTO schema_migrations")) {
+      const [version, name, checksum] = params as string[];
+      rows.push({ version, name, checksum, applied_at: new Date() });
+      return { rows: [] };
+    }
+    if (statement.startsWith("DELETE FROM schema_migrations")) {
+      rows = rows.filter((row) => row.version !== params[0]);
+      return { rows: [] };
+    }
+
+    if (statement.includes("FAIL")) {
+      throw new Error(`Migration failed: ${statement}`);
+    }
+    executed.push(statement);
+    return { rows: [] };
+  };
+
+  return {
+    client: { query } as unknown as ClientBase,
+    executed,
+    locks,
+    versions: () => rows.map((row) => row.version),
+  };
+}
+
+describe("migration runner", () => {
+  let dir: string;
+  const logs: string[] = [];
+  const log = (message: string) => logs.push(message);
+
+  function writeMigration(file: string, sql: string) {
+    fs.writeFileSync(path.join(dir, file), sql);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    logs.length = 0;
+    writeMigration("001_create_things.sql", "CREATE TABLE things ();");
+    writeMigration("001_create_things.down.sql", "DROP TABLE things;");
+    writeMigration("002_add_column.sql", "ALTER TABLE things ADD COLUMN name TEXT;");
+    writeMigration("002_add_column.down.sql", "ALTER TABLE things DROP COLUMN name;");
+    writeMigration("010_add_index.sql", "CREATE INDEX things_name ON things (name);");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("discoverMigrations", () => {
+    it("orders migrations by version number and pairs down files", () => {
+      writeMigration("9_nine.sql", "SELECT 9;");
+      writeMigration("README.md", "not a migration");
+      writeMigration("local_bootstrap.sql", "SELECT 0;");
+
+      const files = discoverMigrations(dir);
+
+      expect(files.map((file) => `${file.version}_${file.name}`)).toEqual([
+        "001_create_things",
+        "002_add_column",
+        "9_nine",
+        "010_add_index",
+      ]);
+      expect(files[0].downPath).toBe(path.join(dir, "001_create_things.down.sql"));
+      expect(files[3].downPath).toBeNull();
+      expect(files[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("rejects two files with the same version", () => {
+      writeMigration("1_duplicate.sql", "SELECT 1;");
+
+      expect(() => discoverMigrations(dir)).toThrow(/Duplicate migration version/);
+    });
+
+    it("gives the same checksum to CRLF and LF line endings", () => {
+      writeMigration("020_crlf.sql", "SELECT 1;\r\nSELECT 2;\r\n");
+      writeMigration("021_lf.sql", "SELECT 1;\nSELECT 2;\n");
+
+      const files = discoverMigrations(dir);
+
+      expect(files.find((file) => file.version === "020")?.checksum).toBe(
+        files.find((file) => file.version === "021")?.checksum
+      );
+    });
+  });
+
+  describe("getMigrationStatus", () => {
+    it("compares the files with the history", () => {
+      const files = discoverMigrations(dir);
+      const appliedAt = new Date();
+
+      const statuses = getMigrationStatus(files, [
+        { version: "001", name: "create_things", checksum: files[0].checksum, appliedAt },
+        { version: "002", name: "add_column", checksum: "0".repeat(64), appliedAt },
+        { version: "005", name: "deleted", checksum: "0".repeat(64), appliedAt },
+      ]);
+
+      expect(statuses.map(({ version, state }) => ({ version, state }))).toEqual([
+        { version: "001", state: "applied" },
+        { version: "002", state: "changed" },
+        { version: "005", state: "missing" },
+        { version: "010", state: "pending" },
+      ]);
+    });
+  });
+
+  describe("migrateUp", () => {
+    it("applies pending migrations in order under the lock", async () => {
+      const stub = createClientStub();
+
+      const applied = await migrateUp(stub.client, discoverMigrations(dir), { log });
+
+      expect(applied.map((file) => file.version)).toEqual(["001", "002", "010"]);
+      expect(stub.executed).toEqual([
+        "CREATE TABLE things ();",
+        "ALTER TABLE things ADD COLUMN name TEXT;",
+        "CREATE INDEX things_name ON things (name);",
+      ]);
+      expect(stub.versions()).toEqual(["001", "002", "010"]);
+      expect(stub.locks).toEqual(["lock", "unlock"]);
+    });
+
+    it("only applies what is pending, up to the target version", async () => {
+      const files = discoverMigrations(dir);
+      const stub = createClientStub([
+        { version: "001", name: "create_things", checksum: files[0].checksum, applied_at: new Date() },
+      ]);
+
+      const applied = await migrateUp(stub.client, files, { to: "002", log });
+
+      expect(applied.map((file) => file.version)).toEqual(["002"]);
+      expect(stub.versions()).toEqual(["001", "002"]);
+    });
+
+    it("refuses to run when an applied migration was edited", async () => {
+      const stub = createClientStub([
+        { version: "001", name: "create_things", checksum: "0".repeat(64), applied_at: new Date() },
+      ]);
+      const files = discoverMigrations(dir);
+
+      await expect(migrateUp(stub.client, files, { log })).rejects.toThrow(
+        /Applied migrations were edited: 001_create_things/
+      );
+      expect(stub.executed).toEqual([]);
+      expect(stub.locks).toEqual(["lock", "unlock"]);
+    });
+
+    it("only logs the plan on a dry run", async () => {
+      const stub = createClientStub();
+
+      const planned = await migrateUp(stub.client, discoverMigrations(dir), { dryRun: true, log });
+
+      expect(planned).toHaveLength(3);
+      expect(stub.executed).toEqual([]);
+      expect(stub.versions()).toEqual([]);
+      expect(logs).toEqual([
+        "Would apply 001_create_things",
+        "Would apply 002_add_column",
+        "Would apply 010_add_index",
+      ]);
+    });
+
+    it("stops at a failing migration and keeps the ones before it", async () => {
+      writeMigration("002_add_column.sql", "SELECT FAIL;");
+      const stub = createClientStub();
+
+      await expect(migrateUp(stub.client, discoverMigrations(dir), { log })).rejects.toThrow(
+        /Migration failed/
+      );
+      expect(stub.versions()).toEqual(["001"]);
+      expect(stub.locks).toEqual(["lock", "unlock"]);
+    });
+  });
+
+  describe("migrateDown", () => {
+    async function applyAll() {
+      const stub = createClientStub();
+      const files = discoverMigrations(dir);
+      writeMigration("010_add_index.down.sql", "DROP INDEX things_name;");
+      await migrateUp(stub.client, files, { log });
+      stub.executed.length = 0;
+      return { stub, files: discoverMigrations(dir) };
+    }
+
+    it("rolls back only the latest migration by default", async () => {
+      const { stub, files } = await applyAll();
+
+      const rolledBack = await migrateDown(stub.client, files, { log });
+
+      expect(rolledBack.map((file) => file.version)).toEqual(["010"]);
+      expect(stub.executed).toEqual(["DROP INDEX things_name;"]);
+      expect(stub.versions()).toEqual(["001", "002"]);
+    });
+
+    it("rolls back everything after the target, newest first", async () => {
+      const { stub, files } = await applyAll();
+
+      const rolledBack = await migrateDown(stub.client, files, { to: "001", log });
+
+      expect(rolledBack.map((file) => file.version)).toEqual(["010", "002"]);
+      expect(stub.executed).toEqual(["DROP INDEX things_name;", "ALTER TABLE things DROP COLUMN name;"]);
+      expect(stub.versions()).toEqual(["001"]);
+    });
+
+    it("refuses before running anything when a down file is missing", async () => {
+      const stub = createClientStub();
+      const files = discoverMigrations(dir);
+      await migrateUp(stub.client, files, { log });
+      stub.executed.length = 0;
+
+      await expect(migrateDown(stub.client, files, { to: "001", log })).rejects.toThrow(
+        "No down migration for 010_add_index"
+      );
+      expect(stub.executed).toEqual([]);
+      expect(stub.versions()).toEqual(["001", "002", "010"]);
+    });
+
+    it("only logs the plan on a dry run", async () => {
+      const { stub, files } = await applyAll();
+      logs.length = 0;
+
+      await migrateDown(stub.client, files, { to: "000", dryRun: true, log });
+
+      expect(stub.executed).toEqual([]);
+      expect(stub.versions()).toEqual(["001", "002", "010"]);
+      expect(logs).toEqual([
+        "Would roll back 010_add_index",
+        "Would roll back 002_add_column",
+        "Would roll back 001_create_things",
+      ]);
+    });
+  });
+
+  describe("baselineMigrations", () => {
+    it("records migrations through the target as applied without running them", async () => {
+      const stub = createClientStub();
+      const files = discoverMigrations(dir);
+
+      const marked = await baselineMigrations(stub.client, files, { to: "002", log });
+
+      expect(marked.map((file) => file.version)).toEqual(["001", "002"]);
+      expect(stub.executed).toEqual([]);
+      expect(stub.versions()).toEqual(["001", "002"]);
+
+      // The next run picks up from there
+      const applied = await migrateUp(stub.client, files, { log });
+      expect(applied.map((file) => file.version)).toEqual(["010"]);
+    });
+
+    it("skips versions that are already recorded", async () => {
+      const files = discoverMigrations(dir);
+      const stub = createClientStub([
+        { version: "001", name: "create_things", checksum: files[0].checksum, applied_at: new Date() },
+      ]);
+
+      const marked = await baselineMigrations(stub.client, files, { to: "010", dryRun: true, log });
+
+      expect(marked.map((file) => file.version)).toEqual(["002", "010"]);
+      expect(stub.versions()).toEqual(["001"]);
+    });
+  });
+});
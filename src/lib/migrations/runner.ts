@@ -0,0 +1,310 @@
+/**
+ * Versioned SQL migrations
+ * Migrations are the numbered files in this directory (NNN_name.sql), with an
+ * optional NNN_name.down.sql to roll them back. Applied versions and their
+ * checksums are recorded in schema_migrations; each migration runs in its own
+ * transaction together with its history row.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ClientBase } from "pg";
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  path: string;
+  downPath: string | null;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+//   applied   recorded and unchanged
+//   pending   not applied yet
+//   changed   applied, but the file has been edited since
+//   missing   applied, but the file no longer exists
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+  hasDown: boolean;
+}
+
+export interface RunOptions {
+  // Target version: up applies through it, down rolls back everything after it
+  to?: string;
+  dryRun?: boolean;
+  log?: (message: string) => void;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+// Serializes runners against the same database
+const MIGRATION_LOCK_ID = 720_431_001;
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+function compareVersions(a: string, b: string): number {
+  return Number(a) - Number(b);
+}
+
+/**
+ * Finds the numbered migrations in a directory, in version order
+ */
+export function discoverMigrations(dir: string): MigrationFile[] {
+  const entries = fs.readdirSync(dir);
+  const migrations: MigrationFile[] = [];
+
+  for (const entry of entries) {
+    const match = MIGRATION_FILE_PATTERN.exec(entry);
+    if (!match || entry.endsWith(".down.sql")) continue;
+
+    const [, version, name] = match;
+    if (migrations.some((migration) => Number(migration.version) === Number(version))) {
+      throw new Error(`Duplicate migration version ${version} (${entry})`);
+    }
+
+    const downFile = `${version}_${name}.down.sql`;
+    const sql = fs.readFileSync(path.join(dir, entry), "utf-8");
+    migrations.push({
+      version,
+      name,
+      path: path.join(dir, entry),
+      downPath: entries.includes(downFile) ? path.join(dir, downFile) : null,
+      sql,
+      checksum: checksum(sql),
+    });
+  }
+
+  return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+export async function ensureHistoryTable(client: ClientBase): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      execution_ms INTEGER NOT NULL DEFAULT 0
+    );
+    ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+  `);
+}
+
+export async function getAppliedMigrations(client: ClientBase): Promise<AppliedMigration[]> {
+  const { rows } = await client.query<{
+    version: string;
+    name: string;
+    checksum: string;
+    applied_at: Date;
+  }>("SELECT version, name, checksum, applied_at FROM schema_migrations");
+
+  return rows
+    .map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }))
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+export function getMigrationStatus(
+  files: MigrationFile[],
+  applied: AppliedMigration[]
+): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((row) => [Number(row.version), row]));
+  const statuses: MigrationStatus[] = files.map((file) => {
+    const row = appliedByVersion.get(Number(file.version));
+    return {
+      version: file.version,
+      name: file.name,
+      state: !row ? "pending" : row.checksum === file.checksum ? "applied" : "changed",
+      appliedAt: row?.appliedAt ?? null,
+      hasDown: file.downPath !== null,
+    };
+  });
+
+  for (const row of applied) {
+    if (!files.some((file) => Number(file.version) === Number(row.version))) {
+      statuses.push({
+        version: row.version,
+        name: row.name,
+        state: "missing",
+        appliedAt: row.appliedAt,
+        hasDown: false,
+      });
+    }
+  }
+
+  return statuses.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+async function withLock<T>(client: ClientBase, fn: () => Promise<T>): Promise<T> {
+  await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+  try {
+    return await fn();
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+  }
+}
+
+async function inTransaction(client: ClientBase, fn: () => Promise<void>): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await fn();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Applies pending migrations in order, stopping at the first failure.
+ * Refuses to run while an applied migration has been edited.
+ */
+export async function migrateUp(
+  client: ClientBase,
+  files: MigrationFile[],
+  options: RunOptions = {}
+): Promise<MigrationFile[]> {
+  const log = options.log ?? console.log;
+  await ensureHistoryTable(client);
+
+  return withLock(client, async () => {
+    const statuses = getMigrationStatus(files, await getAppliedMigrations(client));
+
+    const changed = statuses.filter((status) => status.state === "changed");
+    if (changed.length > 0) {
+      throw new Error(
+        `Applied migrations were edited: ${changed.map((s) => `${s.version}_${s.name}`).join(", ")}. ` +
+          "Add a new migration instead of changing one that has run."
+      );
+    }
+
+    const pendingVersions = new Set(
+      statuses.filter((status) => status.state === "pending").map((status) => status.version)
+    );
+    const pending = files.filter(
+      (file) =>
+        pendingVersions.has(file.version) &&
+        (options.to === undefined || compareVersions(file.version, options.to) <= 0)
+    );
+
+    for (const file of pending) {
+      if (options.dryRun) {
+        log(`Would apply ${file.version}_${file.name}`);
+        continue;
+      }
+
+      const started = Date.now();
+      await inTransaction(client, async () => {
+        await client.query(file.sql);
+        await client.query(
+          "INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)",
+          [file.version, file.name, file.checksum, Date.now() - started]
+        );
+      });
+      log(`Applied ${file.version}_${file.name} (${Date.now() - started} ms)`);
+    }
+
+    return pending;
+  });
+}
+
+/**
+ * Rolls back applied migrations, newest first. Without options.to only the
+ * latest migration is rolled back; every migration rolled back needs a down file.
+ */
+export async function migrateDown(
+  client: ClientBase,
+  files: MigrationFile[],
+  options: RunOptions = {}
+): Promise<MigrationFile[]> {
+  const log = options.log ?? console.log;
+  await ensureHistoryTable(client);
+
+  return withLock(client, async () => {
+    const applied = (await getAppliedMigrations(client)).reverse();
+    const targets =
+      options.to === undefined
+        ? applied.slice(0, 1)
+        : applied.filter((row) => compareVersions(row.version, options.to as string) > 0);
+
+    const plan = targets.map((row) => {
+      const file = files.find((candidate) => Number(candidate.version) === Number(row.version));
+      if (!file?.downPath) {
+        throw new Error(`No down migration for ${row.version}_${row.name}`);
+      }
+      return file;
+    });
+
+    for (const file of plan) {
+      if (options.dryRun) {
+        log(`Would roll back ${file.version}_${file.name}`);
+        continue;
+      }
+
+      const sql = fs.readFileSync(file.downPath as string, "utf-8");
+      await inTransaction(client, async () => {
+        await client.query(sql);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [file.version]);
+      });
+      log(`Rolled back ${file.version}_${file.name}`);
+    }
+
+    return plan;
+  });
+}
+
+/**
+ * Records migrations through options.to as applied without running them, for
+ * databases that were set up by pasting the SQL files by hand
+ */
+export async function baselineMigrations(
+  client: ClientBase,
+  files: MigrationFile[],
+  options: RunOptions & { to: string }
+): Promise<MigrationFile[]> {
+  const log = options.log ?? console.log;
+  await ensureHistoryTable(client);
+
+  return withLock(client, async () => {
+    const appliedVersions = new Set(
+      (await getAppliedMigrations(client)).map((row) => Number(row.version))
+    );
+    const plan = files.filter(
+      (file) =>
+        !appliedVersions.has(Number(file.version)) && compareVersions(file.version, options.to) <= 0
+    );
+
+    for (const file of plan) {
+      if (options.dryRun) {
+        log(`Would mark ${file.version}_${file.name} as applied`);
+        continue;
+      }
+      await client.query(
+        "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+        [file.version, file.name, file.checksum]
+      );
+      log(`Marked ${file.version}_${file.name} as applied`);
+    }
+
+    return plan;
+  });
+}
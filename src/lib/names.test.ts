@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeNamePart, normalizeSuffix, splitFullName } from './names.ts';
+
+describe('splitFullName', () => {
+  it('keeps surname particles with the last name', () => {
+    expect(splitFullName('Maria de la Cruz')).toEqual({
+      firstName: 'Maria',
+      middleName: undefined,
+      lastName: 'de la Cruz',
+      suffix: undefined,
+    });
+    expect(splitFullName('Ludwig van Beethoven')).toMatchObject({ firstName: 'Ludwig', lastName: 'van Beethoven' });
+  });
+
+  it('keeps middle names before surname particles', () => {
+    expect(splitFullName('Maria Elena de la Cruz')).toMatchObject({
+      firstName: 'Maria',
+      middleName: 'Elena',
+      lastName: 'de la Cruz',
+    });
+  });
+
+  it('takes a trailing suffix off the last name', () => {
+    expect(splitFullName('John Smith Jr.')).toEqual({
+      firstName: 'John',
+      middleName: undefined,
+      lastName: 'Smith',
+      suffix: 'Jr',
+    });
+    expect(splitFullName('John Paul Smith III')).toMatchObject({ middleName: 'Paul', lastName: 'Smith', suffix: 'III' });
+    expect(splitFullName('John Smith, Jr.')).toMatchObject({ firstName: 'John', lastName: 'Smith', suffix: 'Jr' });
+  });
+
+  it('reads "Last, First" with a suffix after the first name', () => {
+    expect(splitFullName('Smith, John Jr')).toEqual({
+      firstName: 'John',
+      middleName: undefined,
+      lastName: 'Smith',
+      suffix: 'Jr',
+    });
+    expect(splitFullName('Smith, John Paul 3rd')).toMatchObject({ firstName: 'John', middleName: 'Paul', suffix: 'III' });
+    expect(splitFullName('Smith, John, Sr.')).toMatchObject({ firstName: 'John', lastName: 'Smith', suffix: 'Sr' });
+  });
+
+  it('reads "Last, First Middle" with a compound surname', () => {
+    expect(splitFullName('de la Cruz, Maria Elena')).toEqual({
+      firstName: 'Maria',
+      middleName: 'Elena',
+      lastName: 'de la Cruz',
+      suffix: undefined,
+    });
+  });
+
+  it('keeps hyphenated names together', () => {
+    expect(splitFullName('Mary Smith-Jones')).toMatchObject({ firstName: 'Mary', lastName: 'Smith-Jones' });
+    expect(splitFullName('Smith - Jones, Anne-Marie')).toMatchObject({ firstName: 'Anne-Marie', lastName: 'Smith-Jones' });
+  });
+
+  it('treats a single word as the last name', () => {
+    expect(splitFullName('Cher')).toEqual({ firstName: '', lastName: 'Cher', suffix: undefined });
+    expect(splitFullName('  Cher  ')).toMatchObject({ firstName: '', lastName: 'Cher' });
+  });
+
+  it('does not take a suffix that would leave no last name', () => {
+    expect(splitFullName('John V')).toMatchObject({ firstName: 'John', lastName: 'V', suffix: undefined });
+  });
+});
+
+describe('normalizeSuffix', () => {
+  it('maps common spellings to the stored suffix', () => {
+    expect(normalizeSuffix('jr.')).toBe('Jr');
+    expect(normalizeSuffix('SR')).toBe('Sr');
+    expect(normalizeSuffix('2nd')).toBe('II');
+    expect(normalizeSuffix('iv')).toBe('IV');
+    expect(normalizeSuffix('Esq')).toBeUndefined();
+  });
+});
+
+describe('normalizeNamePart', () => {
+  it('tidies whitespace, hyphens and apostrophes', () => {
+    expect(normalizeNamePart("  O’Brien  ")).toBe("O'Brien");
+    expect(normalizeNamePart('Smith  -  Jones')).toBe('Smith-Jones');
+    expect(normalizeNamePart('Mary   Ann')).toBe('Mary Ann');
+  });
+});
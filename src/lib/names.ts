@@ -0,0 +1,119 @@
+/**
+ * Patient name normalization
+ * Tidies the structured name fields and splits legacy full-name strings, so
+ * BestRX receives the real surname ("de la Cruz", "Smith-Jones") without a suffix.
+ *
+ * Shared with the Supabase Edge Functions (Deno). split_patient_name in
+ * migration 007 mirrors splitFullName for rows stored before names were split.
+ */
+
+export const NAME_SUFFIXES = ['Jr', 'Sr', 'II', 'III', 'IV', 'V'] as const;
+
+export type NameSuffix = (typeof NAME_SUFFIXES)[number];
+
+export interface PersonName {
+  firstName: string;
+  middleName?: string;
+  lastName: string;
+  suffix?: NameSuffix;
+}
+
+// Lowercase words that belong to the surname that follows them, e.g. "de la Cruz"
+const SURNAME_PARTICLES = new Set([
+  'bin', 'da', 'das', 'de', 'del', 'della', 'den', 'der', 'di', 'dos', 'du',
+  'ibn', 'la', 'le', 'st', 'st.', 'ten', 'ter', 'van', 'von',
+]);
+
+const SUFFIX_ALIASES: Record<string, NameSuffix> = {
+  jr: 'Jr',
+  sr: 'Sr',
+  ii: 'II',
+  '2nd': 'II',
+  iii: 'III',
+  '3rd': 'III',
+  iv: 'IV',
+  '4th': 'IV',
+  v: 'V',
+};
+
+/**
+ * Collapses whitespace, tightens hyphens and straightens apostrophes.
+ * Letter case is left as typed ("McDonald", "de la Cruz").
+ */
+export function normalizeNamePart(value: string): string {
+  return value
+    .normalize('NFC')
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/\s*-\s*/g, '-')
+    .trim();
+}
+
+/**
+ * Maps "jr.", "JR", "3rd" etc. to a known suffix, or undefined if it is not one
+ */
+export function normalizeSuffix(value: string): NameSuffix | undefined {
+  const key = value.replace(/[.\s]/g, '').toLowerCase();
+  return SUFFIX_ALIASES[key];
+}
+
+/**
+ * Splits a legacy single-field name. Handles "Last, First Middle", a trailing
+ * suffix ("John Smith Jr.", "John Smith, Jr.") and surname particles. A single
+ * word is treated as the last name, since that is what BestRX matches on.
+ */
+export function splitFullName(fullName: string): PersonName {
+  const parts = normalizeNamePart(fullName)
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  let suffix: NameSuffix | undefined;
+  let lastName: string | undefined;
+
+  if (parts.length > 1) {
+    suffix = normalizeSuffix(parts[parts.length - 1]);
+    if (suffix) {
+      parts.pop();
+    }
+    if (parts.length > 1) {
+      lastName = parts.shift();
+    }
+  }
+
+  const tokens = parts.join(' ').split(' ').filter((token) => token.length > 0);
+
+  // Keep at least the first name, plus the last name when no "Last," part was taken
+  if (!suffix && tokens.length > (lastName ? 1 : 2)) {
+    suffix = normalizeSuffix(tokens[tokens.length - 1]);
+    if (suffix) {
+      tokens.pop();
+    }
+  }
+
+  if (lastName) {
+    return {
+      firstName: tokens[0] ?? '',
+      middleName: tokens.slice(1).join(' ') || undefined,
+      lastName,
+      suffix,
+    };
+  }
+
+  if (tokens.length <= 1) {
+    return { firstName: '', lastName: tokens[0] ?? '', suffix };
+  }
+
+  // The surname is the last word plus any particles directly before it
+  let start = tokens.length - 1;
+  while (start > 1 && SURNAME_PARTICLES.has(tokens[start - 1].toLowerCase())) {
+    start--;
+  }
+
+  return {
+    firstName: tokens[0],
+    middleName: tokens.slice(1, start).join(' ') || undefined,
+    lastName: tokens.slice(start).join(' '),
+    suffix,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Email transport contract
+ * Staff alerts and patient emails are sent only through this interface, so the Edge Functions can
+ * switch between a real SMTP server, a local catcher and plain logging.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  // Plain text only; alerts carry no markup
+  text: string;
+  // Extra header fields, e.g. List-Unsubscribe on patient emails
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  // Identifies the transport in logs, e.g. 'smtp'
+  readonly name: string;
+  // Rejects when the message was not accepted for every recipient
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Local stand-in for an SMS provider.
+ * Keeps sent texts in memory and logs them with the number masked instead of
+ * delivering them. Inbound webhooks take Twilio-style form fields (From, Body)
+ * or JSON ({ "from": ..., "body": ... }), so replies can be simulated with curl.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+import type { InboundSms, SmsMessage, SmsProvider } from './sms.ts';
+
+export interface FakeSmsProvider extends SmsProvider {
+  getMessages: () => SmsMessage[];
+  reset: () => void;
+}
+
+// +16143495140 -> ***-***-5140
+const maskNumber = (value: string) => `***-***-${value.slice(-4)}`;
+
+async function readInbound(req: Request): Promise<Record<string, unknown>> {
+  const contentType = req.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/json')) {
+    const body = await req.json().catch(() => null);
+    return body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  }
+  const form = new URLSearchParams(await req.text());
+  return { from: form.get('From'), body: form.get('Body') };
+}
+
+export function createFakeSmsProvider(): FakeSmsProvider {
+  let messages: SmsMessage[] = [];
+  let nextId = 1;
+
+  return {
+    name: 'fake',
+    send: async (message) => {
+      messages.push(message);
+      const providerMessageId = `fake-${nextId++}`;
+      console.log(`SMS ${providerMessageId} to ${maskNumber(message.to)} not sent (SMS_PROVIDER=fake): ${message.body}`);
+      return { providerMessageId };
+    },
+    parseInbound: async (req): Promise<InboundSms | null> => {
+      const { from, body } = await readInbound(req);
+      return typeof from === 'string' && typeof body === 'string' ? { from, body } : null;
+    },
+    getMessages: () => [...messages],
+    reset: () => {
+      messages = [];
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Patient notification messages (migration 019).
+ * Texts and emails name the pharmacy and the request's confirmation code but
+ * never the patient, the medication or the Rx number: a lock screen or a
+ * shared inbox is not a safe place for PHI.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+import type { EmailMessage } from './email.ts';
+
+export type PatientNotificationEvent = 'ready_for_pickup' | 'out_for_delivery' | 'refill_rejected';
+
+export interface PatientEmailOptions {
+  from: string;
+  to: string;
+  // Full one-click unsubscribe URL, e.g. https://example.com/unsubscribe?token=...
+  unsubscribeUrl: string;
+}
+
+const PHARMACY_NAME = 'Complete Healthcare Rx';
+const PHARMACY_PHONE = '(614) 349-5140';
+
+const EVENT_MESSAGES: Record<PatientNotificationEvent, { subject: string; text: (code: string) => string }> = {
+  ready_for_pickup: {
+    subject: 'Your refill is ready for pickup',
+    text: (code) => `Your refill request ${code} is ready for pickup.`,
+  },
+  out_for_delivery: {
+    subject: 'Your refill is out for delivery',
+    text: (code) => `Your refill request ${code} is out for delivery.`,
+  },
+  refill_rejected: {
+    subject: 'We could not fill your refill request',
+    text: (code) => `We could not fill your refill request ${code}. Please call us at ${PHARMACY_PHONE}.`,
+  },
+};
+
+/**
+ * Text message for an event. Carriers require the opt-out instruction.
+ */
+export function buildPatientSms(event: PatientNotificationEvent, confirmationCode: string): string {
+  return `${PHARMACY_NAME}: ${EVENT_MESSAGES[event].text(confirmationCode)} Reply STOP to opt out.`;
+}
+
+export function buildPatientEmail(
+  event: PatientNotificationEvent,
+  confirmationCode: string,
+  options: PatientEmailOptions
+): EmailMessage {
+  return {
+    from: options.from,
+    to: [options.to],
+    subject: EVENT_MESSAGES[event].subject,
+    text: [
+      EVENT_MESSAGES[event].text(confirmationCode),
+      '',
+      `Questions? Call us at ${PHARMACY_PHONE}.`,
+      '',
+      PHARMACY_NAME,
+      '',
+      `To stop refill updates by email: ${options.unsubscribeUrl}`,
+    ].join('\n'),
+    headers: {
+      'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
+    },
+  };
+}
+
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+/**
+ * Reads a carrier keyword from an inbound text. Only a message that is the
+ * keyword alone counts, so "please don't stop my refill" is ignored.
+ */
+export function parseSmsKeyword(body: string): 'opt_out' | 'opt_in' | null {
+  const keyword = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  if (OPT_OUT_KEYWORDS.includes(keyword)) return 'opt_out';
+  if (OPT_IN_KEYWORDS.includes(keyword)) return 'opt_in';
+  return null;
+}
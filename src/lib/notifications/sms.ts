@@ -0,0 +1,33 @@
+/**
+ * SMS provider contract
+ * Patient texts are sent and inbound replies (STOP, START) are read only
+ * through this interface, so a Twilio-like service can be plugged in by
+ * writing one adapter and selecting it with the SMS_PROVIDER secret.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+export interface SmsMessage {
+  // E.164, e.g. +16143495140
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  // The provider's id for the message, kept for support lookups
+  providerMessageId: string | null;
+}
+
+export interface InboundSms {
+  from: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  // Identifies the provider in logs, e.g. 'fake'
+  readonly name: string;
+  // Rejects when the provider did not accept the message
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  // Reads a reply from the provider's inbound webhook; null when the request is not one
+  parseInbound(req: Request): Promise<InboundSms | null>;
+}
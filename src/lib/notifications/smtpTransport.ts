@@ -0,0 +1,237 @@
+/**
+ * SMTP implementation of EmailTransport.
+ * Speaks just enough SMTP to hand plain-text alerts to a relay: EHLO, optional
+ * STARTTLS or implicit TLS, AUTH PLAIN, then one message per connection.
+ * Sockets come from the caller so the same client runs on Deno and Node.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+import type { EmailMessage, EmailTransport } from './email.ts';
+
+export type SmtpSecurity = 'none' | 'starttls' | 'tls';
+
+/**
+ * A connected byte stream; Deno.Conn satisfies this as is
+ */
+export interface SmtpSocket {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+  close(): void;
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string;
+  password?: string;
+  // Name sent with EHLO
+  clientName?: string;
+  // Whole-conversation limit, so a stalled server cannot hold the worker
+  timeoutMs?: number;
+  // Opens a connection; TLS from the first byte when `tls` is true
+  connect(options: { hostname: string; port: number; tls: boolean }): Promise<SmtpSocket>;
+  // Upgrades a plain connection after STARTTLS; required for 'starttls'
+  startTls?(socket: SmtpSocket, hostname: string): Promise<SmtpSocket>;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const encoder = new TextEncoder();
+
+interface SmtpConnection {
+  socket: SmtpSocket;
+  readReply(): Promise<SmtpReply>;
+  write(text: string): Promise<void>;
+  // Hands the socket back, e.g. for a TLS upgrade. Only safe between replies.
+  release(): SmtpSocket;
+}
+
+/**
+ * Reads CRLF-terminated replies and writes commands on one socket
+ */
+function createSmtpConnection(socket: SmtpSocket): SmtpConnection {
+  const reader = socket.readable.getReader();
+  const writer = socket.writable.getWriter();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const readLine = async (): Promise<string> => {
+    for (;;) {
+      const end = buffer.indexOf('\r\n');
+      if (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        return line;
+      }
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('SMTP server closed the connection');
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+  };
+
+  const readReply = async (): Promise<SmtpReply> => {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await readLine();
+      lines.push(line.slice(4));
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  };
+
+  return {
+    socket,
+    readReply,
+    write: (text) => writer.write(encoder.encode(text)),
+    release: () => {
+      reader.releaseLock();
+      writer.releaseLock();
+      return socket;
+    },
+  };
+}
+
+function assertHeaderSafe(value: string, field: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Email ${field} must not contain line breaks`);
+  }
+}
+
+// "Front Desk <desk@example.com>" -> "desk@example.com"
+function envelopeAddress(value: string): string {
+  const match = value.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : value).trim();
+}
+
+function base64(value: string): string {
+  let binary = '';
+  encoder.encode(value).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// RFC 2047 encoded-word for non-ASCII subjects
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`;
+}
+
+/**
+ * Serializes the message as DATA content: CRLF line endings, leading dots
+ * doubled, and the terminating "." line.
+ */
+export function formatSmtpData(message: EmailMessage, date = new Date()): string {
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+  const clientName = options.clientName ?? 'localhost';
+
+  const send = async (message: EmailMessage): Promise<void> => {
+    if (message.to.length === 0) {
+      throw new Error('Email has no recipients');
+    }
+    assertHeaderSafe(message.from, 'sender');
+    assertHeaderSafe(message.subject, 'subject');
+    message.to.forEach((recipient) => assertHeaderSafe(recipient, 'recipient'));
+    Object.entries(message.headers ?? {}).forEach(([name, value]) => assertHeaderSafe(`${name}: ${value}`, 'header'));
+
+    const socket = await options.connect({
+      hostname: options.host,
+      port: options.port,
+      tls: options.security === 'tls',
+    });
+    let connection = createSmtpConnection(socket);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      connection.socket.close();
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    const expect = async (command: string | null, ...codes: number[]): Promise<SmtpReply> => {
+      if (command !== null) {
+        await connection.write(`${command}\r\n`);
+      }
+      const reply = await connection.readReply();
+      if (!codes.includes(reply.code)) {
+        const label = command === null ? 'greeting' : command.split(' ')[0];
+        throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    };
+
+    try {
+      await expect(null, 220);
+      let capabilities = (await expect(`EHLO ${clientName}`, 250)).lines.map((line) => line.toUpperCase());
+
+      if (options.security === 'starttls') {
+        if (!options.startTls || !capabilities.some((line) => line.startsWith('STARTTLS'))) {
+          throw new Error('SMTP server does not offer STARTTLS');
+        }
+        await expect('STARTTLS', 220);
+        connection = createSmtpConnection(await options.startTls(connection.release(), options.host));
+        capabilities = (await expect(`EHLO ${clientName}`, 250)).lines.map((line) => line.toUpperCase());
+      }
+
+      if (options.username) {
+        const credentials = base64(`\u0000${options.username}\u0000${options.password ?? ''}`);
+        await expect(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      const eightBit = capabilities.some((line) => line.startsWith('8BITMIME'));
+      await expect(`MAIL FROM:<${envelopeAddress(message.from)}>${eightBit ? ' BODY=8BITMIME' : ''}`, 250);
+      for (const recipient of message.to) {
+        await expect(`RCPT TO:<${envelopeAddress(recipient)}>`, 250, 251);
+      }
+      await expect('DATA', 354);
+      await connection.write(formatSmtpData(message));
+      await expect(null, 250);
+
+      // The message is already accepted, so a failed QUIT is not an error
+      await expect('QUIT', 221).catch(() => undefined);
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`SMTP server did not answer within ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS} ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      try {
+        connection.socket.close();
+      } catch {
+        // Already closed by the server or the timeout
+      }
+    }
+  };
+
+  return { name: 'smtp', send };
+}
@@ -0,0 +1,105 @@
+/**
+ * Staff alert emails for new submissions (migration 018).
+ * Alerts say only what kind of submission arrived and when, with a link to
+ * the staff console. Names, contact details and prescriptions stay behind
+ * the staff sign-in, so nothing here is PHI.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+import { STORE_TIME_ZONE } from '../storeHours.ts';
+import type { EmailMessage } from './email.ts';
+
+export type StaffAlertType = 'refill' | 'transfer' | 'transfer_in' | 'contact';
+
+export interface StaffAlert {
+  id: number;
+  submissionType: StaffAlertType;
+  submissionId: string;
+  createdAt: string;
+}
+
+export interface StaffAlertEmailOptions {
+  from: string;
+  to: string[];
+  // Full URL of the staff console, e.g. https://example.com/admin
+  adminUrl: string;
+}
+
+const ALERT_NOUNS: Record<StaffAlertType, { one: string; many: string }> = {
+  refill: { one: 'refill request', many: 'refill requests' },
+  transfer: { one: 'transfer-out request', many: 'transfer-out requests' },
+  transfer_in: { one: 'transfer-in request', many: 'transfer-in requests' },
+  contact: { one: 'contact message', many: 'contact messages' },
+};
+
+const SIGN_OFF = 'Sign in to the staff console to see the details. This email does not include patient information.';
+
+const formatReceivedAt = (value: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: STORE_TIME_ZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(value));
+
+/**
+ * Staff console link for a submission. Refills and transfers out open the
+ * request itself, contact messages open the inbox, and transfers in (which
+ * have no console view yet) open the console.
+ */
+export function staffAlertLink(adminUrl: string, alert: StaffAlert): string {
+  const url = new URL(adminUrl);
+  if (alert.submissionType === 'refill' || alert.submissionType === 'transfer') {
+    url.searchParams.set('request', alert.submissionType);
+    url.searchParams.set('id', alert.submissionId);
+  } else if (alert.submissionType === 'contact') {
+    url.searchParams.set('section', 'inbox');
+  }
+  return url.toString();
+}
+
+/**
+ * One email for one new submission
+ */
+export function buildImmediateAlertEmail(alert: StaffAlert, options: StaffAlertEmailOptions): EmailMessage {
+  const noun = ALERT_NOUNS[alert.submissionType].one;
+  return {
+    from: options.from,
+    to: options.to,
+    subject: `New ${noun}`,
+    text: [
+      `A new ${noun} was received on ${formatReceivedAt(alert.createdAt)}.`,
+      '',
+      `Open it: ${staffAlertLink(options.adminUrl, alert)}`,
+      '',
+      SIGN_OFF,
+    ].join('\n'),
+  };
+}
+
+/**
+ * One email listing every new submission of a type since the last digest
+ */
+export function buildDigestAlertEmail(
+  type: StaffAlertType,
+  alerts: StaffAlert[],
+  options: StaffAlertEmailOptions
+): EmailMessage {
+  const noun = alerts.length === 1 ? ALERT_NOUNS[type].one : ALERT_NOUNS[type].many;
+  return {
+    from: options.from,
+    to: options.to,
+    subject: `${alerts.length} new ${noun}`,
+    text: [
+      `${alerts.length} new ${noun} since the last summary:`,
+      '',
+      ...alerts.map((alert) => `- Received ${formatReceivedAt(alert.createdAt)}: ${staffAlertLink(options.adminUrl, alert)}`),
+      '',
+      SIGN_OFF,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,79 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import type { RefillFormData, TransferFormData } from "./schemas";
+import type { RefillRxResult, TransferRxResult } from "./pharmacySystems/adapter";
+
+/**
+ * Result returned by the pharmacy Edge Functions
+ */
+export interface PharmacySubmissionResult<TResult = RefillRxResult> {
+  success: boolean;
+  message: string;
+  confirmationId: string | null;
+  // Human-friendly code the patient uses to check status (e.g. RF-7K3M-9QX2)
+  confirmationCode?: string | null;
+  // Per-prescription outcomes
+  results?: TResult[];
+  // True when the server recognized the idempotency key and returned the original result
+  duplicate?: boolean;
+  // True when the request is stored but BestRX has not confirmed it yet (outbox will retry)
+  queued?: boolean;
+}
+
+const CONNECTION_ERROR_MESSAGE =
+  "Unable to connect to pharmacy service. Please try again later.";
+
+/**
+ * Generates the idempotency key for one patient submission.
+ * Reuse the same key when re-sending the same submission.
+ */
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Invokes a pharmacy Edge Function. BestRX credentials live only on the server,
+ * so every refill/transfer submission goes through this single call.
+ */
+async function invokePharmacyFunction<TResult>(
+  functionName: string,
+  body: Record<string, unknown>,
+  idempotencyKey: string
+): Promise<PharmacySubmissionResult<TResult>> {
+  const { data, error } = await supabase.functions.invoke<PharmacySubmissionResult<TResult>>(
+    functionName,
+    { body, headers: { "Idempotency-Key": idempotencyKey } }
+  );
+
+  if (error) {
+    // Non-2xx responses still carry a { success, message } body
+    if (error instanceof FunctionsHttpError) {
+      const payload = await (error.context as Response).json().catch(() => null);
+      if (payload && typeof payload.message === "string") {
+        return { success: false, message: payload.message, confirmationId: null };
+      }
+    }
+    console.error(`Edge Function ${functionName} failed:`, error);
+    return { success: false, message: CONNECTION_ERROR_MESSAGE, confirmationId: null };
+  }
+
+  if (!data) {
+    return { success: false, message: CONNECTION_ERROR_MESSAGE, confirmationId: null };
+  }
+
+  return data;
+}
+
+export function sendRefillRequest(
+  data: RefillFormData,
+  idempotencyKey: string
+): Promise<PharmacySubmissionResult> {
+  return invokePharmacyFunction<RefillRxResult>("send-refill-request", data, idempotencyKey);
+}
+
+export function sendTransferRequest(
+  data: TransferFormData,
+  idempotencyKey: string
+): Promise<PharmacySubmissionResult<TransferRxResult>> {
+  return invokePharmacyFunction<TransferRxResult>("submit-transfer-request", data, idempotencyKey);
+}
@@ -0,0 +1,148 @@
+/**
+ * Pharmacy system adapter contract
+ * The site talks to the store's dispensing system only through this interface,
+ * so a store on a different system can plug in its own adapter.
+ *
+ * Shared with the Supabase Edge Functions (Deno), so local imports keep their .ts extension.
+ */
+
+import type { RefillFormData, TransferFormData, TransferPrescription } from '../schemas.ts';
+
+// Error code for calls that did not answer in time. The request may still have
+// been accepted, so callers must not retry it automatically.
+export const PHARMACY_TIMEOUT_CODE = 'TIMEOUT';
+
+/**
+ * Outcome of a single prescription within a refill request
+ */
+export type RefillRxOutcome = 'ok' | 'not_found' | 'inactive' | 'too_soon' | 'error';
+
+export interface RefillRxResult {
+  rxNumber: string;
+  medicationName: string;
+  outcome: RefillRxOutcome;
+  errorCode: string | null;
+  message: string;
+  nextAction: string;
+}
+
+export const REFILL_OUTCOME_DETAILS: Record<RefillRxOutcome, { message: string; nextAction: string }> = {
+  ok: {
+    message: 'Refill request accepted.',
+    nextAction: 'No action needed. We will let you know when it is ready.',
+  },
+  not_found: {
+    message: 'We could not find this prescription number.',
+    nextAction: 'Check the Rx number on your prescription label and try again, or call us at (614) 349-5140.',
+  },
+  inactive: {
+    message: 'This prescription is no longer active.',
+    nextAction: 'It may be out of refills or expired. Call us and we can request a new prescription from your prescriber.',
+  },
+  too_soon: {
+    message: 'This prescription was refilled recently.',
+    nextAction: 'It is too early for another refill. Try again closer to your next fill date, or call us if you are running low.',
+  },
+  error: {
+    message: 'We could not process this prescription.',
+    nextAction: 'Please call us at (614) 349-5140 so a pharmacist can help.',
+  },
+};
+
+/**
+ * Outcome of a single prescription within a transfer request
+ */
+export interface TransferRxResult {
+  rxNumber: string;
+  rxFillDate: string;
+  success: boolean;
+  errorCode: string | null;
+  message: string;
+  // Set by the outbox; only retryable failures are sent again
+  retryable?: boolean;
+}
+
+/**
+ * Result of a refill submission.
+ * `success` is true when at least one prescription was accepted; `results`
+ * carries the outcome of every prescription whenever the system returned them.
+ */
+export interface RefillSubmissionResult {
+  success: boolean;
+  message: string;
+  results: RefillRxResult[];
+  errorCode?: string;
+  // True for failures that are safe to retry later (network errors, 5xx)
+  retryable?: boolean;
+  data?: unknown;
+}
+
+/**
+ * Result of transferring one prescription
+ */
+export interface TransferSubmissionResult {
+  success: boolean;
+  message: string;
+  errorCode?: string;
+  // True for failures that are safe to retry later (network errors, 5xx)
+  retryable?: boolean;
+  data?: unknown;
+}
+
+/**
+ * Fill progress of a prescription in the dispensing system
+ */
+export type RxFillStatus = 'received' | 'in_progress' | 'ready' | 'dispensed';
+
+export interface RxStatusResult {
+  success: boolean;
+  message: string;
+  rxNumber: string;
+  status: RxFillStatus | null;
+  errorCode?: string;
+}
+
+export interface PharmacySystemAdapter {
+  // Identifies the adapter in logs, e.g. 'bestrx'
+  readonly name: string;
+  submitRefill(formData: RefillFormData): Promise<RefillSubmissionResult>;
+  // Systems transfer one prescription per call
+  submitTransfer(formData: TransferFormData, prescription: TransferPrescription): Promise<TransferSubmissionResult>;
+  lookupStatus(rxNumber: string): Promise<RxStatusResult>;
+  // Maps a system error code (or HTTP status) to a patient-facing message
+  mapError(errorCode: string | undefined, httpStatus?: number): string;
+}
+
+/**
+ * Summarizes per-prescription results into a single sentence
+ */
+export function summarizeRefillResults(results: RefillRxResult[]): string {
+  const accepted = results.filter((result) => result.outcome === 'ok').length;
+
+  if (accepted === results.length) {
+    return results.length === 1
+      ? 'Your prescription was accepted for refill.'
+      : `All ${results.length} prescriptions were accepted for refill.`;
+  }
+  if (accepted === 0) {
+    return 'None of your prescriptions could be refilled. See the details below.';
+  }
+  return `${accepted} of ${results.length} prescriptions were accepted for refill. See the details below.`;
+}
+
+/**
+ * Summarizes per-prescription transfer results into a single sentence
+ */
+export function summarizeTransferResults(results: TransferRxResult[]): string {
+  const transferred = results.filter((result) => result.success).length;
+
+  if (transferred === results.length) {
+    return results.length === 1
+      ? 'Your prescription transfer was submitted.'
+      : `All ${results.length} prescription transfers were submitted.`;
+  }
+  if (transferred === 0) {
+    return 'None of your prescriptions could be transferred. See the details below.';
+  }
+  return `${transferred} of ${results.length} prescription transfers were submitted. See the details below.`;
+}
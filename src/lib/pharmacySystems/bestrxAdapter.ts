@@ -0,0 +1,63 @@
+/**
+ * BestRX implementation of PharmacySystemAdapter
+ * Server-side only: needs BestRX credentials from Edge Function secrets.
+ */
+
+import {
+  buildBasicAuthHeader,
+  buildRefillRequestPayload,
+  buildTransferRequestPayload,
+  mapBestRXError,
+  submitRefillToBestRX,
+  submitTransferToBestRX,
+} from '../bestrx.ts';
+import type { BestRXEndpoints, BestRXRequestOptions } from '../bestrx.ts';
+import type { PharmacySystemAdapter } from './adapter.ts';
+
+export interface BestRXAdapterConfig {
+  username: string;
+  apiKey: string;
+  password: string;
+  pharmacyNumber: string;
+  endpoints: BestRXEndpoints;
+  requestOptions: BestRXRequestOptions;
+}
+
+export function createBestRXAdapter(config: BestRXAdapterConfig): PharmacySystemAdapter {
+  const transferAuthHeader = buildBasicAuthHeader(config.username, config.password);
+
+  return {
+    name: 'bestrx',
+
+    submitRefill(formData) {
+      return submitRefillToBestRX(
+        buildRefillRequestPayload(formData, config.pharmacyNumber, config.apiKey, config.username),
+        config.endpoints.refill,
+        config.requestOptions
+      );
+    },
+
+    submitTransfer(formData, prescription) {
+      return submitTransferToBestRX(
+        buildTransferRequestPayload(formData, prescription, config.pharmacyNumber),
+        transferAuthHeader,
+        config.endpoints.transfer,
+        config.requestOptions
+      );
+    },
+
+    // The BestRX web services used here have no prescription status endpoint;
+    // status comes from staff updates instead (see lookup_request_status).
+    lookupStatus(rxNumber) {
+      return Promise.resolve({
+        success: false,
+        message: 'Prescription status lookup is not available from BestRX.',
+        rxNumber,
+        status: null,
+        errorCode: 'NOT_SUPPORTED',
+      });
+    },
+
+    mapError: mapBestRXError,
+  };
+}
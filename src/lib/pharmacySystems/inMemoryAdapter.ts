@@ -0,0 +1,110 @@
+/**
+ * In-memory implementation of PharmacySystemAdapter for local development and tests.
+ * Accepts every prescription unless an outcome is scripted for its Rx number,
+ * and keeps submissions and fill statuses in memory.
+ */
+
+import type { RefillFormData, TransferFormData, TransferPrescription } from '../schemas.ts';
+import {
+  REFILL_OUTCOME_DETAILS,
+  summarizeRefillResults,
+} from './adapter.ts';
+import type {
+  PharmacySystemAdapter,
+  RefillRxOutcome,
+  RefillRxResult,
+  RxFillStatus,
+} from './adapter.ts';
+
+export interface InMemoryPharmacySystemOptions {
+  // Scripted refill outcomes by Rx number; unlisted prescriptions are accepted.
+  // Any outcome other than 'ok' also makes a transfer of that Rx fail.
+  rxOutcomes?: Record<string, RefillRxOutcome>;
+}
+
+export type InMemorySubmission =
+  | { type: 'refill'; formData: RefillFormData; at: string }
+  | { type: 'transfer'; formData: TransferFormData; prescription: TransferPrescription; at: string };
+
+export interface InMemoryPharmacySystem extends PharmacySystemAdapter {
+  getSubmissions(): InMemorySubmission[];
+  setFillStatus(rxNumber: string, status: RxFillStatus): void;
+  reset(): void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_found: 'Prescription not found. Please verify the prescription number.',
+  inactive: 'This prescription is no longer active. Please contact us for assistance.',
+  too_soon: 'This prescription was refilled recently.',
+  error: 'An error occurred while processing your request. Please try again.',
+};
+
+export function createInMemoryPharmacySystem(
+  options: InMemoryPharmacySystemOptions = {}
+): InMemoryPharmacySystem {
+  const rxOutcomes = options.rxOutcomes ?? {};
+  let submissions: InMemorySubmission[] = [];
+  let fillStatuses = new Map<string, RxFillStatus>();
+
+  const mapError = (errorCode: string | undefined) =>
+    (errorCode && ERROR_MESSAGES[errorCode]) || ERROR_MESSAGES.error;
+
+  return {
+    name: 'memory',
+
+    async submitRefill(formData) {
+      submissions.push({ type: 'refill', formData, at: new Date().toISOString() });
+
+      const results: RefillRxResult[] = formData.prescriptions.map(({ rxNumber, medicationName }) => {
+        const outcome = rxOutcomes[rxNumber] ?? 'ok';
+        if (outcome === 'ok') {
+          fillStatuses.set(rxNumber, 'received');
+        }
+        return {
+          rxNumber,
+          medicationName: medicationName ?? '',
+          outcome,
+          errorCode: outcome === 'ok' ? null : outcome,
+          message: REFILL_OUTCOME_DETAILS[outcome].message,
+          nextAction: REFILL_OUTCOME_DETAILS[outcome].nextAction,
+        };
+      });
+
+      return {
+        success: results.some((result) => result.outcome === 'ok'),
+        message: summarizeRefillResults(results),
+        results,
+      };
+    },
+
+    async submitTransfer(formData, prescription) {
+      submissions.push({ type: 'transfer', formData, prescription, at: new Date().toISOString() });
+
+      const outcome = rxOutcomes[prescription.rxNumber] ?? 'ok';
+      if (outcome !== 'ok') {
+        return { success: false, message: mapError(outcome), errorCode: outcome };
+      }
+      return { success: true, message: 'Transfer request submitted successfully' };
+    },
+
+    async lookupStatus(rxNumber) {
+      const status = fillStatuses.get(rxNumber) ?? null;
+      return status
+        ? { success: true, message: 'Prescription found.', rxNumber, status }
+        : { success: false, message: mapError('not_found'), rxNumber, status: null, errorCode: 'not_found' };
+    },
+
+    mapError,
+
+    getSubmissions: () => submissions,
+
+    setFillStatus(rxNumber, status) {
+      fillStatuses.set(rxNumber, status);
+    },
+
+    reset() {
+      submissions = [];
+      fillStatuses = new Map();
+    },
+  };
+}
@@ -0,0 +1,264 @@
+// @vitest-environment jsdom
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RouterLocation } from "./router.ts";
+
+type Router = typeof import("./router.ts");
+
+// Lets act() flush React updates outside a test renderer
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * Loads a fresh router at a URL, as a page load would. The base URL is read
+ * once at import, so each load gets its own module.
+ */
+async function loadRouter(url: string, base = "/"): Promise<Router> {
+  window.history.replaceState(null, "", url);
+  vi.stubEnv("BASE_URL", base);
+  vi.resetModules();
+  return import("./router.ts");
+}
+
+/**
+ * Renders useLocation() and keeps the location it last returned
+ */
+function watchLocation(router: Router) {
+  let latest: RouterLocation | null = null;
+  const Probe = () => {
+    latest = router.useLocation();
+    return null;
+  };
+  const root = createRoot(document.createElement("div"));
+  act(() => root.render(createElement(Probe)));
+
+  return {
+    location: () => latest as unknown as RouterLocation,
+    unmount: () => act(() => root.unmount()),
+  };
+}
+
+function waitForPopState(): Promise<void> {
+  return new Promise((resolve) => window.addEventListener("popstate", () => resolve(), { once: true }));
+}
+
+// Runs the ?redirect= script from index.html against the current URL
+function runRedirectScript(): void {
+  const html = fs.readFileSync(path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../index.html"), "utf-8");
+  const script = /<script>([\s\S]*?)<\/script>/.exec(html)?.[1];
+  expect(script).toContain("redirect");
+  new Function(script as string)();
+}
+
+describe("router", () => {
+  let scrollTo: ReturnType<typeof vi.fn>;
+  let watcher: ReturnType<typeof watchLocation> | null = null;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    // jsdom does not lay out or scroll; keep scrollY in step with scrollTo
+    scrollTo = vi.fn((options: ScrollToOptions) => {
+      Object.defineProperty(window, "scrollY", { value: options.top ?? 0, configurable: true });
+    });
+    window.scrollTo = scrollTo as unknown as typeof window.scrollTo;
+    Object.defineProperty(window, "scrollY", { value: 0, configurable: true });
+    document.body.innerHTML = "";
+  });
+
+  afterEach(() => {
+    watcher?.unmount();
+    watcher = null;
+    vi.unstubAllEnvs();
+  });
+
+  describe("paths and the base URL", () => {
+    it("reads the path without a trailing slash, the query and the decoded hash", async () => {
+      const router = await loadRouter("/about/?tab=team#our%20team");
+      watcher = watchLocation(router);
+
+      expect(watcher.location()).toMatchObject({
+        pathname: "/about",
+        search: "?tab=team",
+        hash: "our team",
+        navigation: "initial",
+      });
+      expect(watcher.location().key).toBe((window.history.state as { key: string }).key);
+    });
+
+    it("strips the base URL", async () => {
+      const router = await loadRouter("/site/status/", "/site/");
+      watcher = watchLocation(router);
+
+      expect(watcher.location().pathname).toBe("/status");
+      expect(router.toHref("/about")).toBe("/site/about");
+    });
+
+    it.each([
+      ["/site", "/"],
+      ["/site/", "/"],
+      ["/site/about", "/about"],
+      // Not under the base, even though it starts with the same letters
+      ["/sitemap", "/sitemap"],
+    ])("reads %s under the base /site/ as %s", async (url, pathname) => {
+      const router = await loadRouter(url, "/site/");
+      watcher = watchLocation(router);
+
+      expect(watcher.location().pathname).toBe(pathname);
+    });
+  });
+
+  describe("index.html redirect", () => {
+    it("restores a deep link sent back by 404.html", async () => {
+      window.history.replaceState(null, "", `/?redirect=${encodeURIComponent("/status?code=ABC#details")}`);
+      runRedirectScript();
+
+      const router = await loadRouter(window.location.href);
+      watcher = watchLocation(router);
+
+      expect(watcher.location()).toMatchObject({ pathname: "/status", search: "?code=ABC", hash: "details" });
+    });
+
+    it("ignores a redirect that is not a path on this site", async () => {
+      window.history.replaceState(null, "", `/?redirect=${encodeURIComponent("//example.com/phish")}`);
+      runRedirectScript();
+      expect(window.location.pathname).toBe("/");
+
+      window.history.replaceState(null, "", `/?redirect=${encodeURIComponent("https://example.com")}`);
+      runRedirectScript();
+      expect(window.location.pathname).toBe("/");
+    });
+  });
+
+  describe("navigate", () => {
+    it("pushes a new history entry and notifies subscribers", async () => {
+      const router = await loadRouter("/");
+      watcher = watchLocation(router);
+      const historyLength = window.history.length;
+
+      act(() => router.navigate("/about?x=1"));
+
+      expect(window.location.pathname).toBe("/about");
+      expect(window.history.length).toBe(historyLength + 1);
+      expect(watcher.location()).toMatchObject({ pathname: "/about", search: "?x=1", navigation: "push" });
+      expect(scrollTo).not.toHaveBeenCalled();
+    });
+
+    it("replaces the entry when asked to", async () => {
+      const router = await loadRouter("/");
+      watcher = watchLocation(router);
+      const historyLength = window.history.length;
+
+      act(() => router.navigate("/status", { replace: true }));
+
+      expect(window.history.length).toBe(historyLength);
+      expect(watcher.location()).toMatchObject({ pathname: "/status", navigation: "replace" });
+    });
+
+    it("only scrolls to the top when going to the URL already shown", async () => {
+      const router = await loadRouter("/about");
+      watcher = watchLocation(router);
+      const before = watcher.location();
+      const historyLength = window.history.length;
+
+      act(() => router.navigate("/about"));
+
+      expect(window.history.length).toBe(historyLength);
+      expect(watcher.location()).toBe(before);
+      expect(scrollTo).toHaveBeenCalledWith({ top: 0, behavior: "smooth" });
+    });
+
+    it("only scrolls to the anchor when going to the URL already shown", async () => {
+      document.body.innerHTML = '<section id="contact"></section>';
+      vi.spyOn(document.getElementById("contact") as HTMLElement, "getBoundingClientRect").mockReturnValue({
+        top: 500,
+      } as DOMRect);
+      const router = await loadRouter("/#contact");
+      watcher = watchLocation(router);
+
+      act(() => router.navigate("/#contact"));
+
+      expect(scrollTo).toHaveBeenCalledWith({ top: 500 - router.HEADER_OFFSET, behavior: "smooth" });
+    });
+  });
+
+  describe("restoreScroll", () => {
+    const location = (overrides: Partial<RouterLocation>): RouterLocation => ({
+      pathname: "/",
+      search: "",
+      hash: "",
+      navigation: "push",
+      key: "entry",
+      ...overrides,
+    });
+
+    it("returns to the saved position on back/forward", async () => {
+      const router = await loadRouter("/");
+      sessionStorage.setItem("scrollPositions", JSON.stringify({ entry: 640 }));
+
+      router.restoreScroll(location({ navigation: "pop" }));
+
+      expect(scrollTo).toHaveBeenCalledWith({ top: 640, behavior: "instant" });
+    });
+
+    it("ignores a saved position for a new push", async () => {
+      const router = await loadRouter("/");
+      sessionStorage.setItem("scrollPositions", JSON.stringify({ entry: 640 }));
+
+      router.restoreScroll(location({ navigation: "push" }));
+
+      expect(scrollTo).toHaveBeenCalledWith({ top: 0, behavior: "instant" });
+    });
+
+    it("scrolls to the anchor below the sticky header", async () => {
+      document.body.innerHTML = '<section id="services"></section>';
+      vi.spyOn(document.getElementById("services") as HTMLElement, "getBoundingClientRect").mockReturnValue({
+        top: 300,
+      } as DOMRect);
+      const router = await loadRouter("/");
+
+      router.restoreScroll(location({ hash: "services", navigation: "initial" }));
+      expect(scrollTo).toHaveBeenLastCalledWith({ top: 300 - router.HEADER_OFFSET, behavior: "instant" });
+
+      // The target's offset is relative to the viewport, which has now moved
+      router.restoreScroll(location({ hash: "services", navigation: "push" }));
+      expect(scrollTo).toHaveBeenLastCalledWith({ top: 2 * (300 - router.HEADER_OFFSET), behavior: "smooth" });
+    });
+
+    it("goes to the top when the anchor is not on the page", async () => {
+      const router = await loadRouter("/");
+
+      router.restoreScroll(location({ hash: "missing", navigation: "push" }));
+
+      expect(scrollTo).toHaveBeenCalledWith({ top: 0, behavior: "instant" });
+    });
+  });
+
+  describe("back and forward", () => {
+    it("saves the position of the page left and restores it on popstate", async () => {
+      const router = await loadRouter("/");
+      watcher = watchLocation(router);
+      const home = watcher.location();
+
+      window.scrollTo({ top: 900 });
+      act(() => router.navigate("/about"));
+      window.scrollTo({ top: 150 });
+      scrollTo.mockClear();
+
+      const popped = waitForPopState();
+      window.history.back();
+      await act(() => popped);
+
+      const location = watcher.location();
+      expect(location).toMatchObject({ pathname: "/", navigation: "pop", key: home.key });
+      router.restoreScroll(location);
+      expect(scrollTo).toHaveBeenCalledWith({ top: 900, behavior: "instant" });
+
+      // The page that was left keeps its own position for going forward again
+      const positions = JSON.parse(sessionStorage.getItem("scrollPositions") ?? "{}");
+      expect(Object.values(positions)).toContain(150);
+    });
+  });
+});
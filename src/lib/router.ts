@@ -0,0 +1,173 @@
+/**
+ * Client-side routing on the History API
+ * Pages live at real paths (/about, /status), so they can be bookmarked and
+ * back/forward work. Paths here are relative to the Vite base URL; use
+ * toHref() for an <a href>. Scroll positions are restored on back/forward,
+ * and #anchors are scrolled to below the sticky header.
+ */
+
+import type React from "react";
+import { useSyncExternalStore } from "react";
+
+export interface RouterLocation {
+  // Without the base URL and without a trailing slash, e.g. "/about" or "/"
+  pathname: string;
+  search: string;
+  // Without the leading "#"
+  hash: string;
+  // Why the location changed; decides how the page is scrolled
+  navigation: "initial" | "push" | "replace" | "pop";
+  // Identifies the history entry its scroll position is saved under
+  key: string;
+}
+
+// Height of the sticky header (h-20)
+export const HEADER_OFFSET = 80;
+
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, "");
+const SCROLL_STORAGE_KEY = "scrollPositions";
+
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+function decodeHash(hash: string): string {
+  try {
+    return decodeURIComponent(hash.slice(1));
+  } catch {
+    return hash.slice(1);
+  }
+}
+
+function stripBase(pathname: string): string {
+  // Only a whole segment is the base: "/site/about" under "/site", not "/sitemap"
+  const inBase = BASE && (pathname === BASE || pathname.startsWith(`${BASE}/`));
+  const path = inBase ? pathname.slice(BASE.length) : pathname;
+  return path.replace(/\/+$/, "") || "/";
+}
+
+function readLocation(navigation: RouterLocation["navigation"]): RouterLocation {
+  let key = (window.history.state as { key?: string } | null)?.key;
+  if (!key) {
+    // First visit to this entry (a page load or a plain #anchor link): tag it
+    key = createKey();
+    window.history.replaceState({ key }, "");
+  }
+  return {
+    pathname: stripBase(window.location.pathname),
+    search: window.location.search,
+    hash: decodeHash(window.location.hash),
+    navigation,
+    key,
+  };
+}
+
+function readScrollPositions(): Record<string, number> {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function saveScrollPosition(): void {
+  const positions = readScrollPositions();
+  positions[current.key] = window.scrollY;
+  sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(positions));
+}
+
+let current: RouterLocation = readLocation("initial");
+const listeners = new Set<() => void>();
+
+function update(navigation: RouterLocation["navigation"]): void {
+  current = readLocation(navigation);
+  listeners.forEach((listener) => listener());
+}
+
+// The router restores scroll itself, after the new page has rendered
+window.history.scrollRestoration = "manual";
+window.addEventListener("popstate", () => {
+  // The page still shows the entry being left, so its position is still current
+  saveScrollPosition();
+  update("pop");
+});
+window.addEventListener("pagehide", saveScrollPosition);
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * The current location; re-renders the component when it changes
+ */
+export function useLocation(): RouterLocation {
+  return useSyncExternalStore(subscribe, () => current);
+}
+
+/**
+ * Adds the base URL to an app path, for use as an <a href>
+ */
+export function toHref(to: string): string {
+  return `${BASE}${to}`;
+}
+
+/**
+ * Goes to an app path such as "/about", "/status?x=1" or "/#contact".
+ * Going to the URL already shown only scrolls (to the anchor, or to the top).
+ */
+export function navigate(to: string, options: { replace?: boolean } = {}): void {
+  const url = new URL(toHref(to), window.location.origin);
+  if (url.href === window.location.href) {
+    if (!(url.hash && scrollToHash(decodeHash(url.hash), "smooth"))) {
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    }
+    return;
+  }
+
+  saveScrollPosition();
+  const state = { key: createKey() };
+  if (options.replace) {
+    window.history.replaceState(state, "", url);
+  } else {
+    window.history.pushState(state, "", url);
+  }
+  update(options.replace ? "replace" : "push");
+}
+
+/**
+ * onClick for an <a> to an app path. Modified clicks (new tab, new window)
+ * are left to the browser.
+ */
+export function followLink(event: React.MouseEvent<HTMLAnchorElement>, to: string): void {
+  if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+    return;
+  }
+  event.preventDefault();
+  navigate(to);
+}
+
+/**
+ * Scrolls an element into view below the sticky header. Returns false when
+ * the page has no element with that id.
+ */
+export function scrollToHash(hash: string, behavior: ScrollBehavior): boolean {
+  const target = hash ? document.getElementById(hash) : null;
+  if (!target) {
+    return false;
+  }
+  const top = target.getBoundingClientRect().top + window.scrollY - HEADER_OFFSET;
+  window.scrollTo({ top, behavior });
+  return true;
+}
+
+/**
+ * Scrolls for a location once its page has rendered: back/forward return to
+ * the saved position, other navigations go to the #anchor or the top.
+ */
+export function restoreScroll(location: RouterLocation): void {
+  const saved = readScrollPositions()[location.key];
+  if (saved !== undefined && location.navigation !== "push") {
+    window.scrollTo({ top: saved, behavior: "instant" });
+  } else if (!scrollToHash(location.hash, location.navigation === "initial" ? "instant" : "smooth")) {
+    window.scrollTo({ top: 0, behavior: "instant" });
+  }
+}
@@ -1,4 +1,16 @@
 import { z } from "zod";
+import { NAME_SUFFIXES, normalizeNamePart } from "./names.ts";
+import {
+  MAX_PATIENT_AGE_YEARS,
+  isUsStateCode,
+  isValidDateOfBirth,
+  isValidNcpdp,
+  isValidRxNumber,
+  normalizeRxNumber,
+  normalizeUSPhone,
+  normalizeZip,
+  parseIsoDate,
+} from "./validators.ts";
 
 /* ============================================
    Shared enums
@@ -12,28 +24,103 @@ export const ContactReasonSchema = z.enum([
   "rpm",
 ]);
 
+export type ContactReason = z.infer<typeof ContactReasonSchema>;
+
 export const WaitlistStatusSchema = z.enum([
   "active",
   "contacted",
   "enrolled",
 ]);
 
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>;
+
 export const ServicePreferenceSchema = z.enum([
   "pickup",
   "delivery",
 ]);
 
+export type ServicePreference = z.infer<typeof ServicePreferenceSchema>;
+
+// How a patient wants to hear about their refill (migration 019)
+export const NotificationChannelSchema = z.enum([
+  "sms",
+  "email",
+  "none",
+]);
+
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+
 /* Simple helpers */
 
-const phoneSchema = z
-  .string()
-  .min(7, "Phone number is too short")
-  .max(30, "Phone number is too long");
+// Normalized to E.164, e.g. "(614) 555-0123" becomes "+16145550123"
+const phoneSchema = z.string().transform((value, ctx) => {
+  const phone = normalizeUSPhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a valid US phone number" });
+    return z.NEVER;
+  }
+  return phone;
+});
 
 const emailSchema = z
   .string()
   .email("Invalid email address");
 
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((value) => parseIsoDate(value) !== null, "Enter a valid date");
+
+const dobSchema = dateStringSchema.refine(
+  (value) => isValidDateOfBirth(value),
+  `Date of birth must be in the past and within the last ${MAX_PATIENT_AGE_YEARS} years`
+);
+
+const stateSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((value): boolean => isUsStateCode(value), "Enter a valid 2-letter state code");
+
+const zipSchema = z.string().transform((value, ctx) => {
+  const zip = normalizeZip(value);
+  if (!zip) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a 5 or 9 digit ZIP code" });
+    return z.NEVER;
+  }
+  return zip;
+});
+
+const ncpdpSchema = z
+  .string()
+  .trim()
+  .refine(isValidNcpdp, "Enter the 7-digit NCPDP number");
+
+const rxNumberSchema = z
+  .string()
+  .transform(normalizeRxNumber)
+  .pipe(
+    z
+      .string()
+      .min(1, "Rx number is required")
+      .refine(isValidRxNumber, "Rx numbers are 4 to 12 digits")
+  );
+
+// Letters (any script), spaces, hyphens, apostrophes and periods
+const NAME_PART_PATTERN = /^[\p{L}\p{M}' .-]*$/u;
+
+const namePartSchema = (label: string, required = true) =>
+  z
+    .string()
+    .transform(normalizeNamePart)
+    .pipe(
+      z
+        .string()
+        .min(required ? 1 : 0, `${label} is required`)
+        .max(100, `${label} is too long`)
+        .regex(NAME_PART_PATTERN, `${label} can only contain letters, spaces, hyphens and apostrophes`)
+    );
+
 /* ============================================
    ContactFormData
    ============================================ */
@@ -73,20 +160,59 @@ export type WaitlistEntry = z.infer<typeof WaitlistEntrySchema>;
    RefillFormData
    ============================================ */
 
-const dateStringSchema = z
-  .string()
-  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+export const NameSuffixSchema = z.enum(NAME_SUFFIXES);
+
+export const MAX_REFILL_PRESCRIPTIONS = 10;
+
+export const RefillPrescriptionSchema = z.object({
+  rxNumber: rxNumberSchema,
+  medicationName: z.string().trim().max(255, "Medication name is too long").optional(),
+});
+
+export type RefillPrescription = z.infer<typeof RefillPrescriptionSchema>;
 
 export const RefillFormDataSchema = z.object({
-  patientName: z.string().min(1, "Patient name is required"),
-  dob: dateStringSchema,
+  // Separate fields so BestRX gets the real last name, e.g. "de la Cruz" rather than "Cruz"
+  patientFirstName: namePartSchema("First name"),
+  patientMiddleName: namePartSchema("Middle name", false).optional(),
+  patientLastName: namePartSchema("Last name"),
+  patientSuffix: NameSuffixSchema.or(z.literal("")).optional(),
+  dob: dobSchema,
   phone: phoneSchema,
   email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
-  prescriptionNumbers: z.string().min(1, "Prescription numbers are required"),
-  medicationNames: z.string().min(1, "Medication names are required"),
+  // One row per prescription, so a medication name always stays with its Rx number
+  prescriptions: z
+    .array(RefillPrescriptionSchema)
+    .min(1, "Add at least one prescription")
+    .max(MAX_REFILL_PRESCRIPTIONS, `Refill up to ${MAX_REFILL_PRESCRIPTIONS} prescriptions at a time`)
+    .superRefine((items, ctx) => {
+      // Flag the repeated row itself so the form can point at it
+      const seen = new Set<string>();
+      items.forEach((item, index) => {
+        const key = item.rxNumber.toUpperCase();
+        if (key && seen.has(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "This prescription is already listed",
+            path: [index, "rxNumber"],
+          });
+        }
+        seen.add(key);
+      });
+    }),
   preferredService: ServicePreferenceSchema,
+  // Defaults to none so forms from before notifications still validate
+  notificationChannel: NotificationChannelSchema.default("none"),
   notes: z.string().optional(),
   consent: z.boolean(),
+}).superRefine((data, ctx) => {
+  if (data.notificationChannel === "email" && !data.email) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter an email address to get email updates",
+      path: ["email"],
+    });
+  }
 });
 
 export type RefillFormData = z.infer<typeof RefillFormDataSchema>;
@@ -95,18 +221,36 @@ export type RefillFormData = z.infer<typeof RefillFormDataSchema>;
    TransferFormData
    ============================================ */
 
-export const TransferFormDataSchema = z.object({
-  rxNumber: z.string().min(1, "Rx number is required"),
+export const MAX_TRANSFER_PRESCRIPTIONS = 10;
+
+export const TransferPrescriptionSchema = z.object({
+  rxNumber: rxNumberSchema,
   rxFillDate: dateStringSchema,
+});
+
+export type TransferPrescription = z.infer<typeof TransferPrescriptionSchema>;
+
+// All prescriptions in one request go to the same destination pharmacy
+export const TransferFormDataSchema = z.object({
+  // Used with the confirmation code to check the request status
+  patientDob: dobSchema,
+  prescriptions: z
+    .array(TransferPrescriptionSchema)
+    .min(1, "Add at least one prescription")
+    .max(MAX_TRANSFER_PRESCRIPTIONS, `Transfer up to ${MAX_TRANSFER_PRESCRIPTIONS} prescriptions at a time`)
+    .refine(
+      (items) => new Set(items.map((item) => item.rxNumber)).size === items.length,
+      "Each prescription can only be listed once"
+    ),
 
   transferToPharmacyName: z.string().min(1),
   transferToPharmacyAddress1: z.string().min(1),
   transferToPharmacyAddress2: z.string().optional(),
   transferToPharmacyCity: z.string().min(1),
-  transferToPharmacyState: z.string().min(2),
-  transferToPharmacyZip: z.string().min(3),
+  transferToPharmacyState: stateSchema,
+  transferToPharmacyZip: zipSchema,
   transferToPharmacyPhone: phoneSchema,
-  transferToPharmacyNCPDP: z.string().optional(),
+  transferToPharmacyNCPDP: ncpdpSchema.optional().or(z.literal("").transform(() => undefined)),
 
   transferRxRemark: z.string().optional(),
   consent: z.boolean(),
@@ -114,6 +258,76 @@ export const TransferFormDataSchema = z.object({
 
 export type TransferFormData = z.infer<typeof TransferFormDataSchema>;
 
+/* ============================================
+   TransferInFormData
+   ============================================ */
+
+// Transfer from another pharmacy to us. Staff call the current pharmacy,
+// so this is stored for follow-up rather than sent to BestRX.
+export const TransferInFormDataSchema = z.object({
+  patientName: z.string().min(1, "Patient name is required"),
+  dob: dobSchema,
+  phone: phoneSchema,
+  email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
+
+  currentPharmacyName: z.string().min(1, "Current pharmacy name is required"),
+  currentPharmacyPhone: phoneSchema,
+
+  medicationNames: z.string().min(1, "Medication names are required"),
+  prescriberName: z.string().min(1, "Prescriber name is required"),
+  prescriberPhone: phoneSchema.optional().or(z.literal("").transform(() => undefined)),
+
+  preferredService: ServicePreferenceSchema,
+  notes: z.string().optional(),
+  consent: z.boolean(),
+});
+
+export type TransferInFormData = z.infer<typeof TransferInFormDataSchema>;
+
+/* ============================================
+   Request status lookup
+   ============================================ */
+
+// Lifecycle from migration 013; refills end picked_up or delivered,
+// transfers out end delivered (sent to the new pharmacy)
+export const RequestStatusSchema = z.enum([
+  "received",
+  "submitted",
+  "processing",
+  "ready",
+  "picked_up",
+  "delivered",
+  "failed",
+  "cancelled",
+]);
+
+export type RequestStatus = z.infer<typeof RequestStatusSchema>;
+
+export const StatusLookupFormDataSchema = z.object({
+  confirmationCode: z
+    .string()
+    .trim()
+    .regex(
+      /^[A-Za-z]{2}-?[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/,
+      "Enter the code from your confirmation, e.g. RF-7K3M-9QX2"
+    ),
+  dob: dobSchema,
+});
+
+export type StatusLookupFormData = z.infer<typeof StatusLookupFormDataSchema>;
+
+// Returned by the lookup_request_status RPC
+export const RequestStatusLookupSchema = z.object({
+  requestType: z.enum(["refill", "transfer"]),
+  confirmationCode: z.string(),
+  status: RequestStatusSchema,
+  preferredService: ServicePreferenceSchema.nullable(),
+  receivedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type RequestStatusLookup = z.infer<typeof RequestStatusLookupSchema>;
+
 /* ============================================
    SplashModalFormData
    ============================================ */
@@ -123,3 +337,438 @@ export const SplashModalFormDataSchema = z.object({
 });
 
 export type SplashModalFormData = z.infer<typeof SplashModalFormDataSchema>;
+
+/* ============================================
+   Staff console
+   ============================================ */
+
+export const StaffRequestTypeSchema = z.enum(["refill", "transfer"]);
+
+export type StaffRequestType = z.infer<typeof StaffRequestTypeSchema>;
+
+export const SubmissionStatusSchema = z.enum([
+  "pending",
+  "processing",
+  "succeeded",
+  "rejected",
+  "failed",
+]);
+
+export type SubmissionStatus = z.infer<typeof SubmissionStatusSchema>;
+
+export const StaffSignInFormDataSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Password is required"),
+});
+
+export type StaffSignInFormData = z.infer<typeof StaffSignInFormDataSchema>;
+
+// One row of the staff_list_requests RPC
+export const StaffQueueItemSchema = z
+  .object({
+    request_type: StaffRequestTypeSchema,
+    id: z.string(),
+    confirmation_code: z.string().nullable(),
+    patient_name: z.string().nullable(),
+    transfer_to_pharmacy_name: z.string().nullable(),
+    preferred_service: ServicePreferenceSchema.nullable(),
+    request_status: RequestStatusSchema,
+    submission_status: SubmissionStatusSchema,
+    submission_attempts: z.number(),
+    prescription_count: z.number(),
+    legal_hold: z.boolean(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    total_count: z.coerce.number(),
+  })
+  .transform((row) => ({
+    requestType: row.request_type,
+    id: row.id,
+    confirmationCode: row.confirmation_code,
+    patientName: row.patient_name,
+    transferToPharmacyName: row.transfer_to_pharmacy_name,
+    preferredService: row.preferred_service,
+    status: row.request_status,
+    submissionStatus: row.submission_status,
+    submissionAttempts: row.submission_attempts,
+    prescriptionCount: row.prescription_count,
+    legalHold: row.legal_hold,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    totalCount: row.total_count,
+  }));
+
+export type StaffQueueItem = z.infer<typeof StaffQueueItemSchema>;
+
+// Per-prescription result stored by the outbox; refills carry an outcome,
+// transfers a success flag
+export const StoredRxResultSchema = z.object({
+  rxNumber: z.string(),
+  success: z.boolean().optional(),
+  outcome: z.string().optional(),
+  errorCode: z.string().nullable().optional(),
+  message: z.string().optional(),
+});
+
+export type StoredRxResult = z.infer<typeof StoredRxResultSchema>;
+
+const StoredSubmissionResultSchema = z
+  .object({
+    success: z.boolean().optional(),
+    message: z.string().optional(),
+    results: z.array(StoredRxResultSchema).optional(),
+  })
+  .nullable();
+
+// Returned by the staff_get_request RPC (decrypted row plus prescriptions)
+export const StaffRequestDetailSchema = z
+  .object({
+    id: z.string(),
+    confirmation_code: z.string().nullable(),
+    request_status: RequestStatusSchema,
+    submission_status: SubmissionStatusSchema,
+    submission_attempts: z.number(),
+    submission_result: StoredSubmissionResultSchema.optional(),
+    last_submission_error: z.string().nullable().optional(),
+    submitted_at: z.string().nullable().optional(),
+    next_attempt_at: z.string().nullable().optional(),
+    legal_hold: z.boolean().optional(),
+    anonymized_at: z.string().nullable().optional(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    // Refills
+    patient_first_name: z.string().nullable().optional(),
+    patient_middle_name: z.string().nullable().optional(),
+    patient_last_name: z.string().nullable().optional(),
+    patient_suffix: z.string().nullable().optional(),
+    dob: z.string().nullable().optional(),
+    phone: z.string().nullable().optional(),
+    email: z.string().nullable().optional(),
+    preferred_service: ServicePreferenceSchema.nullable().optional(),
+    notification_channel: NotificationChannelSchema.optional(),
+    notes: z.string().nullable().optional(),
+    // Transfers out
+    patient_dob: z.string().nullable().optional(),
+    transfer_to_pharmacy_name: z.string().nullable().optional(),
+    transfer_to_pharmacy_address1: z.string().nullable().optional(),
+    transfer_to_pharmacy_address2: z.string().nullable().optional(),
+    transfer_to_pharmacy_city: z.string().nullable().optional(),
+    transfer_to_pharmacy_state: z.string().nullable().optional(),
+    transfer_to_pharmacy_zip: z.string().nullable().optional(),
+    transfer_to_pharmacy_phone: z.string().nullable().optional(),
+    transfer_to_pharmacy_ncpdp: z.string().nullable().optional(),
+    transfer_rx_remark: z.string().nullable().optional(),
+    prescriptions: z.array(
+      z.object({
+        rx_number: z.string(),
+        medication_name: z.string().nullable().optional(),
+        rx_fill_date: z.string().nullable().optional(),
+        transferred: z.boolean().optional(),
+        submission_result: StoredRxResultSchema.nullable().optional(),
+      })
+    ),
+  })
+  .transform((row) => ({
+    id: row.id,
+    confirmationCode: row.confirmation_code,
+    status: row.request_status,
+    submissionStatus: row.submission_status,
+    submissionAttempts: row.submission_attempts,
+    submissionResult: row.submission_result ?? null,
+    lastSubmissionError: row.last_submission_error ?? null,
+    submittedAt: row.submitted_at ?? null,
+    nextAttemptAt: row.next_attempt_at ?? null,
+    legalHold: row.legal_hold ?? false,
+    anonymizedAt: row.anonymized_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    patientName: [row.patient_first_name, row.patient_middle_name, row.patient_last_name, row.patient_suffix]
+      .filter(Boolean)
+      .join(" ") || null,
+    dob: row.dob ?? row.patient_dob ?? null,
+    phone: row.phone ?? null,
+    email: row.email ?? null,
+    preferredService: row.preferred_service ?? null,
+    notificationChannel: row.notification_channel ?? null,
+    notes: row.notes ?? null,
+    transferToPharmacy: row.transfer_to_pharmacy_name
+      ? {
+          name: row.transfer_to_pharmacy_name,
+          address: [
+            row.transfer_to_pharmacy_address1,
+            row.transfer_to_pharmacy_address2,
+            [row.transfer_to_pharmacy_city, row.transfer_to_pharmacy_state, row.transfer_to_pharmacy_zip]
+              .filter(Boolean)
+              .join(" "),
+          ]
+            .filter(Boolean)
+            .join(", "),
+          phone: row.transfer_to_pharmacy_phone ?? null,
+          ncpdp: row.transfer_to_pharmacy_ncpdp ?? null,
+        }
+      : null,
+    transferRemark: row.transfer_rx_remark ?? null,
+    prescriptions: row.prescriptions.map((item) => ({
+      rxNumber: item.rx_number,
+      medicationName: item.medication_name ?? null,
+      rxFillDate: item.rx_fill_date ?? null,
+      transferred: item.transferred ?? null,
+      result: item.submission_result ?? null,
+    })),
+  }));
+
+export type StaffRequestDetail = z.infer<typeof StaffRequestDetailSchema>;
+
+// A row of request_status_history
+export const RequestStatusHistoryEntrySchema = z
+  .object({
+    id: z.coerce.number(),
+    from_status: RequestStatusSchema.nullable(),
+    to_status: RequestStatusSchema,
+    changed_by: z.string().nullable(),
+    changed_by_role: z.string(),
+    note: z.string().nullable(),
+    changed_at: z.string(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    changedBy: row.changed_by,
+    changedByRole: row.changed_by_role,
+    note: row.note,
+    changedAt: row.changed_at,
+  }));
+
+export type RequestStatusHistoryEntry = z.infer<typeof RequestStatusHistoryEntrySchema>;
+
+export const PatientNotificationEventSchema = z.enum([
+  "ready_for_pickup",
+  "out_for_delivery",
+  "refill_rejected",
+]);
+
+export type PatientNotificationEvent = z.infer<typeof PatientNotificationEventSchema>;
+
+export const PatientNotificationStatusSchema = z.enum([
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+  "skipped",
+]);
+
+export type PatientNotificationStatus = z.infer<typeof PatientNotificationStatusSchema>;
+
+// A row of patient_notifications (migration 019)
+export const PatientNotificationSchema = z
+  .object({
+    id: z.coerce.number(),
+    event: PatientNotificationEventSchema,
+    channel: NotificationChannelSchema,
+    status: PatientNotificationStatusSchema,
+    attempts: z.number(),
+    last_error: z.string().nullable(),
+    created_at: z.string(),
+    sent_at: z.string().nullable(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    event: row.event,
+    channel: row.channel,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+  }));
+
+export type PatientNotification = z.infer<typeof PatientNotificationSchema>;
+
+/* ============================================
+   Staff waitlist
+   ============================================ */
+
+export const WaitlistContactChannelSchema = z.enum([
+  "phone",
+  "email",
+  "sms",
+  "in_person",
+]);
+
+export type WaitlistContactChannel = z.infer<typeof WaitlistContactChannelSchema>;
+
+export const WaitlistContactOutcomeSchema = z.enum([
+  "reached",
+  "left_message",
+  "no_answer",
+  "wrong_number",
+  "declined",
+]);
+
+export type WaitlistContactOutcome = z.infer<typeof WaitlistContactOutcomeSchema>;
+
+// One row of the staff_list_waitlist RPC
+export const StaffWaitlistItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string().nullable(),
+    phone: z.string().nullable(),
+    status: WaitlistStatusSchema,
+    created_at: z.string(),
+    contacted_at: z.string().nullable(),
+    enrolled_at: z.string().nullable(),
+    attempt_count: z.number(),
+    last_attempt_at: z.string().nullable(),
+    total_count: z.coerce.number(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    status: row.status,
+    createdAt: row.created_at,
+    contactedAt: row.contacted_at,
+    enrolledAt: row.enrolled_at,
+    attemptCount: row.attempt_count,
+    lastAttemptAt: row.last_attempt_at,
+    totalCount: row.total_count,
+  }));
+
+export type StaffWaitlistItem = z.infer<typeof StaffWaitlistItemSchema>;
+
+// A row of waitlist_entries as staff read it
+export const StaffWaitlistEntrySchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string().nullable(),
+    phone: z.string().nullable(),
+    status: WaitlistStatusSchema,
+    created_at: z.string(),
+    contacted_at: z.string().nullable(),
+    enrolled_at: z.string().nullable(),
+    legal_hold: z.boolean(),
+    anonymized_at: z.string().nullable(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    status: row.status,
+    createdAt: row.created_at,
+    contactedAt: row.contacted_at,
+    enrolledAt: row.enrolled_at,
+    legalHold: row.legal_hold,
+    anonymizedAt: row.anonymized_at,
+  }));
+
+export type StaffWaitlistEntry = z.infer<typeof StaffWaitlistEntrySchema>;
+
+export const WaitlistContactAttemptFormDataSchema = z.object({
+  channel: WaitlistContactChannelSchema,
+  outcome: WaitlistContactOutcomeSchema,
+  note: z.string().max(2000, "Note must be at most 2000 characters"),
+});
+
+export type WaitlistContactAttemptFormData = z.infer<typeof WaitlistContactAttemptFormDataSchema>;
+
+// A row of waitlist_contact_attempts
+export const WaitlistContactAttemptSchema = z
+  .object({
+    id: z.coerce.number(),
+    channel: WaitlistContactChannelSchema,
+    outcome: WaitlistContactOutcomeSchema,
+    note: z.string().nullable(),
+    attempted_by: z.string().nullable(),
+    attempted_at: z.string(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    channel: row.channel,
+    outcome: row.outcome,
+    note: row.note,
+    attemptedBy: row.attempted_by,
+    attemptedAt: row.attempted_at,
+  }));
+
+export type WaitlistContactAttempt = z.infer<typeof WaitlistContactAttemptSchema>;
+
+/* ============================================
+   Staff contact inbox
+   ============================================ */
+
+export const ContactMessageStatusSchema = z.enum([
+  "open",
+  "replied",
+  "closed",
+]);
+
+export type ContactMessageStatus = z.infer<typeof ContactMessageStatusSchema>;
+
+// A row of contact_queues
+export const ContactQueueSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    sla_business_minutes: z.number(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    name: row.name,
+    slaBusinessMinutes: row.sla_business_minutes,
+  }));
+
+export type ContactQueue = z.infer<typeof ContactQueueSchema>;
+
+// One row of the staff_list_team RPC
+export const StaffTeamMemberSchema = z.object({
+  id: z.string(),
+  email: z.string().nullable(),
+});
+
+export type StaffTeamMember = z.infer<typeof StaffTeamMemberSchema>;
+
+// One row of the staff_list_contact_messages RPC
+export const StaffContactMessageSchema = z
+  .object({
+    id: z.string(),
+    queue_id: z.string().nullable(),
+    reason: ContactReasonSchema,
+    name: z.string().nullable(),
+    email: z.string().nullable(),
+    phone: z.string().nullable(),
+    message: z.string().nullable(),
+    inbox_status: ContactMessageStatusSchema,
+    assigned_to: z.string().nullable(),
+    assignee_email: z.string().nullable(),
+    created_at: z.string(),
+    first_replied_at: z.string().nullable(),
+    closed_at: z.string().nullable(),
+    sla_due_at: z.string().nullable(),
+    is_overdue: z.boolean(),
+    total_count: z.coerce.number(),
+  })
+  .transform((row) => ({
+    id: row.id,
+    queueId: row.queue_id,
+    reason: row.reason,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    message: row.message,
+    status: row.inbox_status,
+    assignedTo: row.assigned_to,
+    assigneeEmail: row.assignee_email,
+    createdAt: row.created_at,
+    firstRepliedAt: row.first_replied_at,
+    closedAt: row.closed_at,
+    slaDueAt: row.sla_due_at,
+    isOverdue: row.is_overdue,
+    totalCount: row.total_count,
+  }));
+
+export type StaffContactMessage = z.infer<typeof StaffContactMessageSchema>;
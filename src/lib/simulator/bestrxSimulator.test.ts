@@ -0,0 +1,174 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BESTRX_TIMEOUT,
+  BESTRX_UNEXPECTED_RESPONSE,
+  resolveBestRXEndpoints,
+  submitRefillToBestRX,
+  submitTransferToBestRX,
+} from '../bestrx.ts';
+import type { BestRXEndpoints, BestRXRequestOptions } from '../bestrx.ts';
+import type { SendRefillRequest, SubmitRxTransferRequest } from '../bestrxSchemas.ts';
+import { createBestRXSimulator } from './bestrxSimulator.ts';
+import type { BestRXSimulator } from './bestrxSimulator.ts';
+
+// No retries, so every scenario is answered by exactly one recorded request
+const OPTIONS: BestRXRequestOptions = { timeoutMs: 200, maxRetries: 0, retryBaseDelayMs: 1 };
+
+const AUTH_HEADER = 'Basic dXNlcjpwYXNz';
+
+const REFILL_PAYLOAD: SendRefillRequest = {
+  userName: 'user',
+  APIKey: 'key',
+  PharmacyNumber: '1234567',
+  LastName: 'Doe',
+  DOB: '1980-01-01',
+  Phone: '6145550123',
+  DeliveryOption: 'Pickup',
+  RxInRefillRequest: [
+    { RxNumber: '1234567', MedicationName: 'Lisinopril' },
+    { RxNumber: '7654321', MedicationName: '' },
+  ],
+};
+
+const TRANSFER_PAYLOAD: SubmitRxTransferRequest = {
+  PharmacyNumber: '1234567',
+  RxNo: '1234567',
+  RxFillDate: '2024-01-01',
+  TransferToPharmacy: {
+    Name: 'Other Pharmacy',
+    Address: '1 Main St',
+    Address2: '',
+    City: 'Columbus',
+    State: 'OH',
+    Zip: '43222',
+    Phone: '6145550199',
+    NCPDP: '',
+  },
+  TransferDate: '2024-02-01',
+  Comments: 'Patient moved',
+};
+
+describe('BestRX simulator', () => {
+  let simulator: BestRXSimulator;
+  let endpoints: BestRXEndpoints;
+
+  beforeAll(async () => {
+    simulator = await createBestRXSimulator({ port: 0 });
+    endpoints = resolveBestRXEndpoints(simulator.url);
+  });
+
+  afterAll(() => simulator.close());
+
+  beforeEach(() => {
+    simulator.reset();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const submitRefill = () => submitRefillToBestRX(REFILL_PAYLOAD, endpoints.refill, OPTIONS);
+  const submitTransfer = () =>
+    submitTransferToBestRX(TRANSFER_PAYLOAD, AUTH_HEADER, endpoints.transfer, OPTIONS);
+
+  function expectSingleRequest(endpoint: 'refill' | 'transfer', scenario: string) {
+    const requests = simulator.getRequests(endpoint);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      endpoint,
+      scenario,
+      payload: endpoint === 'refill' ? REFILL_PAYLOAD : TRANSFER_PAYLOAD,
+    });
+    return requests[0];
+  }
+
+  describe('refill', () => {
+    it('reports each prescription of a partly accepted refill', async () => {
+      simulator.queueScenario('refill', 'partial-success');
+
+      const result = await submitRefill();
+
+      expect(result.success).toBe(true);
+      expect(result.results.map(({ rxNumber, outcome }) => ({ rxNumber, outcome }))).toEqual([
+        { rxNumber: '1234567', outcome: 'ok' },
+        { rxNumber: '7654321', outcome: 'not_found' },
+      ]);
+      expect(expectSingleRequest('refill', 'partial-success').authorization).toBeNull();
+    });
+
+    it.each([
+      ['http-400', 'Invalid request. Please check your information and try again.', false],
+      ['http-403', 'Authentication failed. Please contact support.', false],
+      ['http-500', 'Service temporarily unavailable. Please try again later.', true],
+    ])('maps %s to a failure', async (scenario, message, retryable) => {
+      simulator.queueScenario('refill', scenario);
+
+      const result = await submitRefill();
+
+      expect(result).toMatchObject({ success: false, message, results: [], retryable });
+      expectSingleRequest('refill', scenario);
+    });
+
+    it('reports malformed JSON as an unexpected response', async () => {
+      simulator.queueScenario('refill', 'malformed-json');
+
+      const result = await submitRefill();
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_UNEXPECTED_RESPONSE.code });
+      expect(result.retryable).toBeUndefined();
+      expectSingleRequest('refill', 'malformed-json');
+    });
+
+    it('times out a slow refill', async () => {
+      simulator.queueScenario('refill', 'slow');
+
+      const result = await submitRefill();
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_TIMEOUT.code });
+      expectSingleRequest('refill', 'slow');
+    });
+  });
+
+  describe('transfer', () => {
+    it('accepts a transfer in the partial-success scenario and sends the auth header', async () => {
+      simulator.queueScenario('transfer', 'partial-success');
+
+      const result = await submitTransfer();
+
+      expect(result.success).toBe(true);
+      expect(expectSingleRequest('transfer', 'partial-success').authorization).toBe(AUTH_HEADER);
+    });
+
+    it.each([
+      ['http-400', 'Invalid request. Please check your information and try again.', false],
+      ['http-403', 'Authentication failed. Please contact support.', false],
+      ['http-500', 'Service temporarily unavailable. Please try again later.', true],
+    ])('maps %s to a failure', async (scenario, message, retryable) => {
+      simulator.queueScenario('transfer', scenario);
+
+      const result = await submitTransfer();
+
+      expect(result).toMatchObject({ success: false, message, retryable });
+      expectSingleRequest('transfer', scenario);
+    });
+
+    it('reports malformed JSON as an unexpected response', async () => {
+      simulator.queueScenario('transfer', 'malformed-json');
+
+      const result = await submitTransfer();
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_UNEXPECTED_RESPONSE.code });
+      expectSingleRequest('transfer', 'malformed-json');
+    });
+
+    it('times out a slow transfer', async () => {
+      simulator.queueScenario('transfer', 'slow');
+
+      const result = await submitTransfer();
+
+      expect(result).toMatchObject({ success: false, errorCode: BESTRX_TIMEOUT.code });
+      expectSingleRequest('transfer', 'slow');
+    });
+  });
+});
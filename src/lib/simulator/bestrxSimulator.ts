@@ -0,0 +1,201 @@
+/**
+ * Local stand-in for the BestRX refill and transfer endpoints.
+ * Serves the same paths as BESTRX_ENDPOINTS, replays scripted scenarios,
+ * and records every payload it receives.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { BESTRX_ENDPOINTS } from '../bestrx.ts';
+import { DEFAULT_SCENARIO, SIMULATOR_SCENARIOS } from './scenarios.ts';
+import type { SimulatorEndpoint } from './scenarios.ts';
+
+export interface RecordedRequest {
+  endpoint: SimulatorEndpoint;
+  receivedAt: string;
+  authorization: string | null;
+  scenario: string;
+  payload: unknown;
+}
+
+export interface BestRXSimulatorOptions {
+  port?: number;
+  defaultScenario?: string;
+}
+
+export interface BestRXSimulator {
+  url: string;
+  // Sets the scenario used when no scripted scenario is queued
+  setDefaultScenario: (scenario: string) => void;
+  // Queues scenarios that are consumed one per request, in order
+  queueScenario: (endpoint: SimulatorEndpoint, ...scenarios: string[]) => void;
+  getRequests: (endpoint?: SimulatorEndpoint) => RecordedRequest[];
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+const CONTROL_PREFIX = '/__simulator';
+
+const ENDPOINT_PATHS: Record<string, SimulatorEndpoint> = {
+  [new URL(BESTRX_ENDPOINTS.refill).pathname.toLowerCase()]: 'refill',
+  [new URL(BESTRX_ENDPOINTS.transfer).pathname.toLowerCase()]: 'transfer',
+};
+
+function assertScenario(scenario: string): void {
+  if (!SIMULATOR_SCENARIOS[scenario]) {
+    throw new Error(`Unknown BestRX simulator scenario: ${scenario}`);
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function createBestRXSimulator(
+  options: BestRXSimulatorOptions = {}
+): Promise<BestRXSimulator> {
+  let defaultScenario = options.defaultScenario ?? DEFAULT_SCENARIO;
+  assertScenario(defaultScenario);
+
+  const queues: Record<SimulatorEndpoint, string[]> = { refill: [], transfer: [] };
+  let requests: RecordedRequest[] = [];
+  // Pending scenario delays, cleared on close so a slow scenario cannot hold the process open
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const wait = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        resolve();
+      }, ms);
+      timers.add(timer);
+    });
+
+  const setDefaultScenario = (scenario: string) => {
+    assertScenario(scenario);
+    defaultScenario = scenario;
+  };
+
+  const queueScenario = (endpoint: SimulatorEndpoint, ...scenarios: string[]) => {
+    scenarios.forEach(assertScenario);
+    queues[endpoint].push(...scenarios);
+  };
+
+  const getRequests = (endpoint?: SimulatorEndpoint) =>
+    endpoint ? requests.filter((request) => request.endpoint === endpoint) : [...requests];
+
+  const reset = () => {
+    requests = [];
+    queues.refill = [];
+    queues.transfer = [];
+  };
+
+  const handleControl = async (req: http.IncomingMessage, res: http.ServerResponse, path: string) => {
+    if (path === `${CONTROL_PREFIX}/requests` && req.method === 'GET') {
+      return sendJson(res, 200, getRequests());
+    }
+    if (path === `${CONTROL_PREFIX}/scenarios` && req.method === 'GET') {
+      return sendJson(res, 200, {
+        defaultScenario,
+        queued: queues,
+        available: Object.keys(SIMULATOR_SCENARIOS),
+      });
+    }
+    if (path === `${CONTROL_PREFIX}/scenarios` && req.method === 'POST') {
+      // Body: { "default"?: string, "refill"?: string[], "transfer"?: string[] }
+      const body = JSON.parse((await readBody(req)) || '{}') as {
+        default?: string;
+        refill?: string[];
+        transfer?: string[];
+      };
+      if (body.default) setDefaultScenario(body.default);
+      if (body.refill) queueScenario('refill', ...body.refill);
+      if (body.transfer) queueScenario('transfer', ...body.transfer);
+      return sendJson(res, 200, { defaultScenario, queued: queues });
+    }
+    if (path === `${CONTROL_PREFIX}/reset` && req.method === 'POST') {
+      reset();
+      return sendJson(res, 200, { reset: true });
+    }
+    return sendJson(res, 404, { error: `Unknown simulator control route: ${req.method} ${path}` });
+  };
+
+  const handleBestRX = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    endpoint: SimulatorEndpoint
+  ) => {
+    const rawBody = await readBody(req);
+    let payload: unknown = rawBody;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      // Keep the raw body so malformed client payloads are still visible
+    }
+
+    const scenario = queues[endpoint].shift() ?? defaultScenario;
+    requests.push({
+      endpoint,
+      receivedAt: new Date().toISOString(),
+      authorization: req.headers.authorization ?? null,
+      scenario,
+      payload,
+    });
+
+    const response = SIMULATOR_SCENARIOS[scenario](endpoint, payload);
+    if (response.delayMs) {
+      await wait(response.delayMs);
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    if (response.bodyDelayMs) {
+      res.flushHeaders();
+      await wait(response.bodyDelayMs);
+    }
+    res.end(response.rawBody ?? JSON.stringify(response.body ?? {}));
+  };
+
+  const server = http.createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    const handled = path.startsWith(CONTROL_PREFIX)
+      ? handleControl(req, res, path)
+      : ENDPOINT_PATHS[path.toLowerCase()] && req.method === 'POST'
+        ? handleBestRX(req, res, ENDPOINT_PATHS[path.toLowerCase()])
+        : Promise.resolve(sendJson(res, 404, { error: `No BestRX endpoint at ${req.method} ${path}` }));
+
+    handled.catch((error: unknown) => {
+      if (!res.headersSent) {
+        sendJson(res, 400, { error: error instanceof Error ? error.message : 'Simulator error' });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    setDefaultScenario,
+    queueScenario,
+    getRequests,
+    reset,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        timers.forEach(clearTimeout);
+        timers.clear();
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
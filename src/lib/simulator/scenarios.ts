@@ -0,0 +1,118 @@
+/**
+ * Scripted BestRX responses for the local simulator.
+ * Every code in BESTRX_ERROR_CODES has a scenario of the same name.
+ */
+
+import { BESTRX_ERROR_CODES } from '../bestrx.ts';
+
+export type SimulatorEndpoint = 'refill' | 'transfer';
+
+export interface SimulatorResponse {
+  status: number;
+  body?: unknown;
+  // Sent verbatim instead of `body`, e.g. to simulate malformed JSON
+  rawBody?: string;
+  delayMs?: number;
+  // Sends the headers at once and holds the body back this long
+  bodyDelayMs?: number;
+}
+
+export type SimulatorScenario = (
+  endpoint: SimulatorEndpoint,
+  payload: unknown
+) => SimulatorResponse;
+
+export const SLOW_RESPONSE_DELAY_MS = 35000;
+
+/**
+ * Reads the Rx numbers out of a SendRefillRequest payload
+ */
+function getRequestedRxNumbers(payload: unknown): string[] {
+  if (!payload || typeof payload !== 'object') return [];
+
+  const items = (payload as Record<string, unknown>).RxInRefillRequest;
+  if (!Array.isArray(items)) return [];
+
+  return items.map((item: unknown) =>
+    item && typeof item === 'object' ? String((item as Record<string, unknown>).RxNumber ?? '') : ''
+  );
+}
+
+function refillOk(rxNumber: string) {
+  return { RxNumber: rxNumber, Status: 'OK' };
+}
+
+function refillError(rxNumber: string, errorCode: string) {
+  return {
+    RxNumber: rxNumber,
+    Status: 'ERROR',
+    ErrorCode: errorCode,
+    ErrorMessage: BESTRX_ERROR_CODES[errorCode],
+  };
+}
+
+const success: SimulatorScenario = (endpoint, payload) =>
+  endpoint === 'refill'
+    ? { status: 200, body: { RxInRefillResponse: getRequestedRxNumbers(payload).map(refillOk) } }
+    : { status: 200, body: { IsValid: true, RxTransferred: true } };
+
+function errorCodeScenario(errorCode: string): SimulatorScenario {
+  return (endpoint, payload) =>
+    endpoint === 'refill'
+      ? {
+          status: 200,
+          body: {
+            RxInRefillResponse: getRequestedRxNumbers(payload).map((rx) => refillError(rx, errorCode)),
+          },
+        }
+      : {
+          status: 200,
+          body: {
+            IsValid: false,
+            RxTransferred: false,
+            ErrorCode: errorCode,
+            ErrorMessage: BESTRX_ERROR_CODES[errorCode],
+          },
+        };
+}
+
+function httpErrorScenario(status: number): SimulatorScenario {
+  return () => ({ status, body: { Message: `Simulated HTTP ${status}` } });
+}
+
+export const SIMULATOR_SCENARIOS: Record<string, SimulatorScenario> = {
+  success,
+
+  // First Rx is accepted, every other Rx is reported as not found
+  'partial-success': (endpoint, payload) =>
+    endpoint === 'refill'
+      ? {
+          status: 200,
+          body: {
+            RxInRefillResponse: getRequestedRxNumbers(payload).map((rx, index) =>
+              index === 0 ? refillOk(rx) : refillError(rx, 'ERROR_RX_NOT_FOUND')
+            ),
+          },
+        }
+      : success(endpoint, payload),
+
+  'http-400': httpErrorScenario(400),
+  'http-403': httpErrorScenario(403),
+  'http-500': httpErrorScenario(500),
+
+  'malformed-json': () => ({ status: 200, rawBody: '{"RxInRefillResponse": [' }),
+
+  // Valid JSON that does not match the BestRX response contract
+  'unexpected-shape': () => ({ status: 200, body: { Result: 'Accepted', Items: null } }),
+
+  slow: (endpoint, payload) => ({ ...success(endpoint, payload), delayMs: SLOW_RESPONSE_DELAY_MS }),
+
+  // Answers 200 straight away, then stalls before the body
+  'slow-body': (endpoint, payload) => ({ ...success(endpoint, payload), bodyDelayMs: SLOW_RESPONSE_DELAY_MS }),
+
+  ...Object.fromEntries(
+    Object.keys(BESTRX_ERROR_CODES).map((errorCode) => [errorCode, errorCodeScenario(errorCode)])
+  ),
+};
+
+export const DEFAULT_SCENARIO = 'success';
@@ -0,0 +1,33 @@
+/**
+ * Runs the BestRX simulator as a standalone server.
+ *
+ *   npm run bestrx:simulator
+ *
+ * Configure with BESTRX_SIMULATOR_PORT (default 4010) and
+ * BESTRX_SIMULATOR_SCENARIO (default "success").
+ */
+
+import { createBestRXSimulator } from './bestrxSimulator.ts';
+import { SIMULATOR_SCENARIOS } from './scenarios.ts';
+
+async function main() {
+  const simulator = await createBestRXSimulator({
+    port: Number(process.env.BESTRX_SIMULATOR_PORT || 4010),
+    defaultScenario: process.env.BESTRX_SIMULATOR_SCENARIO,
+  });
+
+  console.log(`BestRX simulator listening on ${simulator.url}`);
+  console.log(`Scenarios: ${Object.keys(SIMULATOR_SCENARIOS).join(', ')}`);
+  console.log(`Recorded requests: GET ${simulator.url}/__simulator/requests`);
+
+  const shutdown = () => {
+    simulator.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ BestRX simulator failed to start:', error);
+  process.exit(1);
+});
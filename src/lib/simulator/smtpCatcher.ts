@@ -0,0 +1,188 @@
+/**
+ * Local stand-in for an SMTP relay.
+ * Accepts every message over plain SMTP (any AUTH succeeds, no STARTTLS) and
+ * keeps it in memory; an HTTP control server lists and clears the messages.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+
+export interface CaughtMessage {
+  id: number;
+  receivedAt: string;
+  // Envelope addresses from MAIL FROM and RCPT TO
+  mailFrom: string;
+  rcptTo: string[];
+  subject: string;
+  headers: Record<string, string>;
+  text: string;
+}
+
+export interface SmtpCatcherOptions {
+  smtpPort?: number;
+  httpPort?: number;
+}
+
+export interface SmtpCatcher {
+  smtpPort: number;
+  url: string;
+  getMessages: () => CaughtMessage[];
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+const CONTROL_PREFIX = '/__catcher';
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Undoes RFC 2047 B-encoding, which is all the alert sender produces
+function decodeHeader(value: string): string {
+  return value.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_, encoded: string) =>
+    Buffer.from(encoded, 'base64').toString('utf-8')
+  );
+}
+
+function parseMessage(data: string): { headers: Record<string, string>; text: string } {
+  const split = data.indexOf('\r\n\r\n');
+  const head = split === -1 ? data : data.slice(0, split);
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines before splitting into fields
+  head.replace(/\r\n[ \t]+/g, ' ').split('\r\n').forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = decodeHeader(line.slice(colon + 1).trim());
+    }
+  });
+  return { headers, text: split === -1 ? '' : data.slice(split + 4).replace(/\r\n/g, '\n') };
+}
+
+const angleAddress = (value: string) => value.match(/<([^<>]*)>/)?.[1] ?? value.trim();
+
+export async function createSmtpCatcher(options: SmtpCatcherOptions = {}): Promise<SmtpCatcher> {
+  let messages: CaughtMessage[] = [];
+  let nextId = 1;
+  const sockets = new Set<net.Socket>();
+
+  const smtpServer = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let buffer = '';
+    let mailFrom = '';
+    let rcptTo: string[] = [];
+    let dataLines: string[] | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handleCommand = (line: string) => {
+      const verb = line.split(' ')[0].toUpperCase();
+      switch (verb) {
+        case 'EHLO':
+          return reply('250-localhost\r\n250-8BITMIME\r\n250-AUTH PLAIN LOGIN\r\n250 OK');
+        case 'HELO':
+          return reply('250 localhost');
+        case 'AUTH':
+          return reply('235 Authenticated');
+        case 'MAIL':
+          mailFrom = angleAddress(line.slice(line.indexOf(':') + 1));
+          rcptTo = [];
+          return reply('250 OK');
+        case 'RCPT':
+          rcptTo.push(angleAddress(line.slice(line.indexOf(':') + 1)));
+          return reply('250 OK');
+        case 'DATA':
+          if (!mailFrom || rcptTo.length === 0) return reply('503 Need MAIL and RCPT first');
+          dataLines = [];
+          return reply('354 End data with <CR><LF>.<CR><LF>');
+        case 'RSET':
+          mailFrom = '';
+          rcptTo = [];
+          return reply('250 OK');
+        case 'NOOP':
+          return reply('250 OK');
+        case 'QUIT':
+          reply('221 Bye');
+          return socket.end();
+        default:
+          return reply(`502 ${verb} not implemented`);
+      }
+    };
+
+    const handleDataLine = (line: string) => {
+      if (line !== '.') {
+        // Undo dot-stuffing
+        dataLines?.push(line.startsWith('.') ? line.slice(1) : line);
+        return;
+      }
+      const { headers, text } = parseMessage((dataLines ?? []).join('\r\n'));
+      const message: CaughtMessage = {
+        id: nextId++,
+        receivedAt: new Date().toISOString(),
+        mailFrom,
+        rcptTo,
+        subject: headers.subject ?? '',
+        headers,
+        text,
+      };
+      messages.push(message);
+      console.log(`Caught message ${message.id} for ${rcptTo.join(', ')}: ${message.subject}`);
+      dataLines = null;
+      mailFrom = '';
+      rcptTo = [];
+      reply(`250 OK: queued as ${message.id}`);
+    };
+
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (dataLines) {
+          handleDataLine(line);
+        } else {
+          handleCommand(line);
+        }
+        end = buffer.indexOf('\r\n');
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    reply('220 localhost SMTP catcher');
+  });
+
+  const httpServer = http.createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === `${CONTROL_PREFIX}/messages` && req.method === 'GET') {
+      return sendJson(res, 200, messages);
+    }
+    if (path === `${CONTROL_PREFIX}/reset` && req.method === 'POST') {
+      messages = [];
+      return sendJson(res, 200, { reset: true });
+    }
+    sendJson(res, 404, { error: `Unknown catcher route: ${req.method} ${path}` });
+  });
+
+  await new Promise<void>((resolve) => smtpServer.listen(options.smtpPort ?? 0, resolve));
+  await new Promise<void>((resolve) => httpServer.listen(options.httpPort ?? 0, resolve));
+
+  return {
+    smtpPort: (smtpServer.address() as AddressInfo).port,
+    url: `http://localhost:${(httpServer.address() as AddressInfo).port}`,
+    getMessages: () => [...messages],
+    reset: () => {
+      messages = [];
+    },
+    close: async () => {
+      httpServer.closeAllConnections();
+      sockets.forEach((socket) => socket.destroy());
+      await Promise.all([
+        new Promise<void>((resolve) => smtpServer.close(() => resolve())),
+        new Promise<void>((resolve) => httpServer.close(() => resolve())),
+      ]);
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Runs the SMTP catcher as a standalone server.
+ *
+ *   npm run mail:catcher
+ *
+ * Configure with SMTP_CATCHER_PORT (default 1025) and
+ * SMTP_CATCHER_HTTP_PORT (default 1080).
+ */
+
+import { createSmtpCatcher } from './smtpCatcher.ts';
+
+async function main() {
+  const catcher = await createSmtpCatcher({
+    smtpPort: Number(process.env.SMTP_CATCHER_PORT || 1025),
+    httpPort: Number(process.env.SMTP_CATCHER_HTTP_PORT || 1080),
+  });
+
+  console.log(`SMTP catcher listening on port ${catcher.smtpPort} (no TLS, any credentials)`);
+  console.log(`Caught messages: GET ${catcher.url}/__catcher/messages`);
+
+  const shutdown = () => {
+    catcher.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ SMTP catcher failed to start:', error);
+  process.exit(1);
+});
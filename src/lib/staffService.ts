@@ -0,0 +1,427 @@
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import {
+  ContactQueueSchema,
+  PatientNotificationSchema,
+  RequestStatusHistoryEntrySchema,
+  StaffContactMessageSchema,
+  StaffQueueItemSchema,
+  StaffRequestDetailSchema,
+  StaffTeamMemberSchema,
+  StaffWaitlistEntrySchema,
+  StaffWaitlistItemSchema,
+  WaitlistContactAttemptSchema,
+} from "./schemas";
+import type {
+  ContactMessageStatus,
+  ContactQueue,
+  PatientNotification,
+  RequestStatus,
+  RequestStatusHistoryEntry,
+  ServicePreference,
+  StaffContactMessage,
+  StaffQueueItem,
+  StaffRequestDetail,
+  StaffRequestType,
+  StaffSignInFormData,
+  StaffTeamMember,
+  StaffWaitlistEntry,
+  StaffWaitlistItem,
+  SubmissionStatus,
+  WaitlistContactAttempt,
+  WaitlistContactAttemptFormData,
+  WaitlistStatus,
+} from "./schemas";
+
+/**
+ * Data access for the /admin console. Every call runs as the signed-in user;
+ * the database only answers for users whose app_metadata role is "staff".
+ */
+
+export type QueueSortField =
+  | "created_at"
+  | "updated_at"
+  | "request_status"
+  | "submission_status"
+  | "confirmation_code";
+
+export interface QueueFilters {
+  requestType?: StaffRequestType;
+  status?: RequestStatus;
+  submissionStatus?: SubmissionStatus;
+  confirmationCode?: string;
+  sort: QueueSortField;
+  descending: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface QueuePage {
+  items: StaffQueueItem[];
+  total: number;
+}
+
+export interface WaitlistFilters {
+  status?: WaitlistStatus;
+  search?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface WaitlistPage {
+  items: StaffWaitlistItem[];
+  total: number;
+}
+
+/** "mine" and "unassigned" filter by the signed-in user and by no assignee */
+export type InboxAssigneeFilter = "all" | "mine" | "unassigned";
+
+export interface InboxFilters {
+  queueId?: string;
+  status?: ContactMessageStatus;
+  assignee: InboxAssigneeFilter;
+  overdueOnly: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface InboxPage {
+  items: StaffContactMessage[];
+  total: number;
+}
+
+// Same claim the database checks in is_staff()
+export function isStaffUser(user: User | null | undefined): boolean {
+  return user?.app_metadata?.role === "staff";
+}
+
+export async function signInStaff(data: StaffSignInFormData): Promise<User> {
+  const { data: result, error } = await supabase.auth.signInWithPassword({
+    email: data.email,
+    password: data.password,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return result.user;
+}
+
+export async function signOutStaff(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function listRequests(filters: QueueFilters): Promise<QueuePage> {
+  const { data, error } = await supabase.rpc("staff_list_requests", {
+    p_request_type: filters.requestType ?? null,
+    p_request_status: filters.status ?? null,
+    p_submission_status: filters.submissionStatus ?? null,
+    p_confirmation_code: filters.confirmationCode || null,
+    p_sort: filters.sort,
+    p_descending: filters.descending,
+    p_limit: filters.pageSize,
+    p_offset: filters.page * filters.pageSize,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const items = StaffQueueItemSchema.array().parse(data ?? []);
+  return { items, total: items[0]?.totalCount ?? 0 };
+}
+
+export async function getRequest(
+  requestType: StaffRequestType,
+  id: string
+): Promise<StaffRequestDetail | null> {
+  const { data, error } = await supabase.rpc("staff_get_request", {
+    p_request_type: requestType,
+    p_id: id,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ? StaffRequestDetailSchema.parse(data) : null;
+}
+
+export async function getStatusHistory(
+  requestType: StaffRequestType,
+  id: string
+): Promise<RequestStatusHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("request_status_history")
+    .select("id, from_status, to_status, changed_by, changed_by_role, note, changed_at")
+    .eq("request_type", requestType)
+    .eq("request_id", id)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return RequestStatusHistoryEntrySchema.array().parse(data ?? []);
+}
+
+/**
+ * Texts and emails queued for a refill's patient, newest first
+ */
+export async function getPatientNotifications(refillRequestId: string): Promise<PatientNotification[]> {
+  const { data, error } = await supabase
+    .from("patient_notifications")
+    .select("id, event, channel, status, attempts, last_error, created_at, sent_at")
+    .eq("refill_request_id", refillRequestId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return PatientNotificationSchema.array().parse(data ?? []);
+}
+
+/**
+ * Statuses a request may move to next, from request_status_transitions.
+ * Refills are also limited to the fulfillment the patient chose.
+ */
+export async function getNextStatuses(
+  requestType: StaffRequestType,
+  current: RequestStatus,
+  preferredService?: ServicePreference | null
+): Promise<RequestStatus[]> {
+  const { data, error } = await supabase
+    .from("request_status_transitions")
+    .select("to_status")
+    .eq("request_type", requestType)
+    .eq("from_status", current);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? [])
+    .map((row) => row.to_status as RequestStatus)
+    .filter((status) => {
+      if (requestType !== "refill") return true;
+      if (status === "picked_up") return preferredService !== "delivery";
+      if (status === "delivered") return preferredService !== "pickup";
+      return true;
+    });
+}
+
+export async function setRequestStatus(
+  requestType: StaffRequestType,
+  id: string,
+  status: RequestStatus,
+  note?: string
+): Promise<void> {
+  const { error } = await supabase.rpc("staff_set_request_status", {
+    p_request_type: requestType,
+    p_request_id: id,
+    p_status: status,
+    p_note: note || null,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function listWaitlist(filters: WaitlistFilters): Promise<WaitlistPage> {
+  const { data, error } = await supabase.rpc("staff_list_waitlist", {
+    p_status: filters.status ?? null,
+    p_search: filters.search || null,
+    p_limit: filters.pageSize,
+    p_offset: filters.page * filters.pageSize,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const items = StaffWaitlistItemSchema.array().parse(data ?? []);
+  return { items, total: items[0]?.totalCount ?? 0 };
+}
+
+export async function getWaitlistEntry(id: string): Promise<StaffWaitlistEntry | null> {
+  const { data, error } = await supabase
+    .from("waitlist_entries")
+    .select("id, name, email, phone, status, created_at, contacted_at, enrolled_at, legal_hold, anonymized_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ? StaffWaitlistEntrySchema.parse(data) : null;
+}
+
+export async function getWaitlistContactAttempts(
+  entryId: string
+): Promise<WaitlistContactAttempt[]> {
+  const { data, error } = await supabase
+    .from("waitlist_contact_attempts")
+    .select("id, channel, outcome, note, attempted_by, attempted_at")
+    .eq("waitlist_entry_id", entryId)
+    .order("attempted_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return WaitlistContactAttemptSchema.array().parse(data ?? []);
+}
+
+/**
+ * Moves the active entries among `ids` to contacted. Returns how many moved;
+ * entries already contacted or enrolled are skipped.
+ */
+export async function markWaitlistContacted(ids: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc("staff_mark_waitlist_contacted", {
+    p_ids: ids,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as number;
+}
+
+// Also moves an active entry to contacted
+export async function recordWaitlistContact(
+  entryId: string,
+  attempt: WaitlistContactAttemptFormData
+): Promise<void> {
+  const { error } = await supabase.rpc("staff_record_waitlist_contact", {
+    p_entry_id: entryId,
+    p_channel: attempt.channel,
+    p_outcome: attempt.outcome,
+    p_note: attempt.note.trim() || null,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function enrollWaitlistEntry(entryId: string): Promise<void> {
+  const { error } = await supabase.rpc("staff_enroll_waitlist_entry", {
+    p_entry_id: entryId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+const WAITLIST_CSV_COLUMNS: [string, (item: StaffWaitlistItem) => string | number | null][] = [
+  ["Name", (item) => item.name],
+  ["Email", (item) => item.email],
+  ["Phone", (item) => item.phone],
+  ["Status", (item) => item.status],
+  ["Joined", (item) => item.createdAt],
+  ["Contacted", (item) => item.contactedAt],
+  ["Enrolled", (item) => item.enrolledAt],
+  ["Contact attempts", (item) => item.attemptCount],
+  ["Last attempt", (item) => item.lastAttemptAt],
+];
+
+// Quotes per RFC 4180 and defuses values a spreadsheet would run as a formula
+function toCsvCell(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^\+\d+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toWaitlistCsv(items: StaffWaitlistItem[]): string {
+  const rows = [
+    WAITLIST_CSV_COLUMNS.map(([header]) => header),
+    ...items.map((item) => WAITLIST_CSV_COLUMNS.map(([, value]) => toCsvCell(value(item)))),
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
+
+export async function listContactQueues(): Promise<ContactQueue[]> {
+  const { data, error } = await supabase
+    .from("contact_queues")
+    .select("id, name, sla_business_minutes")
+    .order("name");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ContactQueueSchema.array().parse(data ?? []);
+}
+
+export async function listStaffTeam(): Promise<StaffTeamMember[]> {
+  const { data, error } = await supabase.rpc("staff_list_team");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return StaffTeamMemberSchema.array().parse(data ?? []);
+}
+
+export async function listContactMessages(
+  filters: InboxFilters,
+  currentUserId: string
+): Promise<InboxPage> {
+  const { data, error } = await supabase.rpc("staff_list_contact_messages", {
+    p_queue_id: filters.queueId ?? null,
+    p_status: filters.status ?? null,
+    p_assigned_to: filters.assignee === "mine" ? currentUserId : null,
+    p_unassigned: filters.assignee === "unassigned",
+    p_overdue: filters.overdueOnly,
+    p_limit: filters.pageSize,
+    p_offset: filters.page * filters.pageSize,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const items = StaffContactMessageSchema.array().parse(data ?? []);
+  return { items, total: items[0]?.totalCount ?? 0 };
+}
+
+// Pass null to unassign
+export async function assignContactMessage(id: string, assignee: string | null): Promise<void> {
+  const { error } = await supabase.rpc("staff_assign_contact_message", {
+    p_id: id,
+    p_assignee: assignee,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function setContactMessageStatus(
+  id: string,
+  status: ContactMessageStatus
+): Promise<void> {
+  const { error } = await supabase.rpc("staff_set_contact_message_status", {
+    p_id: id,
+    p_status: status,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
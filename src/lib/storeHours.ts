@@ -0,0 +1,58 @@
+/**
+ * Store hours
+ * Shown in Location. Migration 017 seeds the same hours into the store_hours
+ * table, where they drive the contact inbox SLA, so keep the two in step.
+ */
+
+// Matches store_time_zone() in migration 017
+export const STORE_TIME_ZONE = 'America/New_York';
+
+export interface StoreHours {
+  /** Sunday = 0, as in Date#getDay */
+  dayOfWeek: number;
+  /** 24-hour HH:MM, store time (America/New_York) */
+  opensAt: string;
+  closesAt: string;
+}
+
+export const STORE_HOURS: StoreHours[] = [
+  { dayOfWeek: 1, opensAt: '08:30', closesAt: '16:30' },
+  { dayOfWeek: 2, opensAt: '08:30', closesAt: '16:30' },
+  { dayOfWeek: 3, opensAt: '08:30', closesAt: '16:30' },
+  { dayOfWeek: 4, opensAt: '08:30', closesAt: '16:30' },
+  { dayOfWeek: 5, opensAt: '08:30', closesAt: '16:30' },
+];
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Monday first, as the week is shown on the site
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatTime = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+/**
+ * Groups consecutive days with the same hours into display rows,
+ * e.g. { days: 'Mon–Fri', hours: '8:30 AM – 4:30 PM' }
+ */
+export function getStoreHoursRows(hours: StoreHours[] = STORE_HOURS): { days: string; hours: string }[] {
+  const rows: { first: number; last: number; hours: string }[] = [];
+
+  DISPLAY_ORDER.forEach(day => {
+    const open = hours.find(item => item.dayOfWeek === day);
+    const text = open ? `${formatTime(open.opensAt)} – ${formatTime(open.closesAt)}` : 'Closed';
+    const previous = rows[rows.length - 1];
+    if (previous && previous.hours === text) {
+      previous.last = day;
+    } else {
+      rows.push({ first: day, last: day, hours: text });
+    }
+  });
+
+  return rows.map(row => ({
+    days: row.first === row.last ? DAY_NAMES[row.first] : `${DAY_NAMES[row.first]}–${DAY_NAMES[row.last]}`,
+    hours: row.hours,
+  }));
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_PATIENT_AGE_YEARS,
+  isUsStateCode,
+  isValidDateOfBirth,
+  isValidNcpdp,
+  isValidRxNumber,
+  normalizeRxNumber,
+  normalizeUSPhone,
+  normalizeZip,
+  parseIsoDate,
+} from './validators.ts';
+
+describe('normalizeUSPhone', () => {
+  it('normalizes common formats to E.164', () => {
+    expect(normalizeUSPhone('(614) 349-5140')).toBe('+16143495140');
+    expect(normalizeUSPhone('614.349.5140')).toBe('+16143495140');
+    expect(normalizeUSPhone('1 614 349 5140')).toBe('+16143495140');
+    expect(normalizeUSPhone('+1 (614) 349-5140')).toBe('+16143495140');
+    expect(normalizeUSPhone('+16143495140')).toBe('+16143495140');
+  });
+
+  it('rejects numbers that are not valid NANP numbers', () => {
+    expect(normalizeUSPhone('349-5140')).toBeNull();
+    expect(normalizeUSPhone('614349514012')).toBeNull();
+    expect(normalizeUSPhone('2 614 349 5140')).toBeNull();
+    // Area code or exchange starting with 0 or 1
+    expect(normalizeUSPhone('(014) 349-5140')).toBeNull();
+    expect(normalizeUSPhone('(614) 149-5140')).toBeNull();
+    expect(normalizeUSPhone('')).toBeNull();
+  });
+});
+
+describe('parseIsoDate', () => {
+  it('accepts Feb 29 only in leap years', () => {
+    expect(parseIsoDate('2024-02-29')?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+    expect(parseIsoDate('2000-02-29')).not.toBeNull();
+    expect(parseIsoDate('2023-02-29')).toBeNull();
+    expect(parseIsoDate('1900-02-29')).toBeNull();
+  });
+
+  it('rejects dates that do not exist or are not YYYY-MM-DD', () => {
+    expect(parseIsoDate('2024-04-31')).toBeNull();
+    expect(parseIsoDate('2024-13-01')).toBeNull();
+    expect(parseIsoDate('2024-1-5')).toBeNull();
+    expect(parseIsoDate('01/05/2024')).toBeNull();
+  });
+});
+
+describe('isValidDateOfBirth', () => {
+  const today = new Date(2024, 5, 15);
+
+  it('accepts today and past dates', () => {
+    expect(isValidDateOfBirth('2024-06-15', today)).toBe(true);
+    expect(isValidDateOfBirth('1980-01-01', today)).toBe(true);
+  });
+
+  it('rejects dates in the future', () => {
+    expect(isValidDateOfBirth('2024-06-16', today)).toBe(false);
+    expect(isValidDateOfBirth('2030-01-01', today)).toBe(false);
+  });
+
+  it(`accepts at most ${MAX_PATIENT_AGE_YEARS} years ago`, () => {
+    expect(isValidDateOfBirth('1904-06-15', today)).toBe(true);
+    expect(isValidDateOfBirth('1904-06-14', today)).toBe(false);
+    expect(isValidDateOfBirth('1894-06-15', today)).toBe(false);
+    expect(isValidDateOfBirth('1850-01-01', today)).toBe(false);
+  });
+
+  it('handles Feb 29 birthdays', () => {
+    expect(isValidDateOfBirth('2000-02-29', today)).toBe(true);
+    expect(isValidDateOfBirth('2001-02-29', today)).toBe(false);
+    // On a leap day the oldest allowed birthday is also a leap day
+    expect(isValidDateOfBirth('1904-02-29', new Date(2024, 1, 29))).toBe(true);
+    expect(isValidDateOfBirth('1904-02-28', new Date(2024, 1, 29))).toBe(false);
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(isValidDateOfBirth('', today)).toBe(false);
+    expect(isValidDateOfBirth('not a date', today)).toBe(false);
+  });
+});
+
+describe('isUsStateCode', () => {
+  it('accepts states, DC, territories and military codes', () => {
+    for (const code of ['OH', 'CA', 'DC', 'PR', 'GU', 'AE']) {
+      expect(isUsStateCode(code)).toBe(true);
+    }
+  });
+
+  it('rejects unknown and non-uppercase codes', () => {
+    for (const code of ['XX', 'oh', 'Ohio', 'O', '']) {
+      expect(isUsStateCode(code)).toBe(false);
+    }
+  });
+});
+
+describe('normalizeZip', () => {
+  it('accepts 5 and 9 digit ZIPs', () => {
+    expect(normalizeZip('43222')).toBe('43222');
+    expect(normalizeZip(' 43222 ')).toBe('43222');
+    expect(normalizeZip('43222-1234')).toBe('43222-1234');
+    expect(normalizeZip('43222 1234')).toBe('43222-1234');
+    expect(normalizeZip('432221234')).toBe('43222-1234');
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeZip('4322')).toBeNull();
+    expect(normalizeZip('432221')).toBeNull();
+    expect(normalizeZip('43222-12')).toBeNull();
+    expect(normalizeZip('ABCDE')).toBeNull();
+    expect(normalizeZip('')).toBeNull();
+  });
+});
+
+describe('isValidNcpdp', () => {
+  it('accepts IDs with a correct check digit', () => {
+    // 1 + 3 + 5 + 2 * (2 + 4 + 6) = 33
+    expect(isValidNcpdp('1234563')).toBe(true);
+    // 0 + 2 + 4 + 2 * (1 + 3 + 5) = 24
+    expect(isValidNcpdp('0123454')).toBe(true);
+    expect(isValidNcpdp('0000000')).toBe(true);
+  });
+
+  it('rejects IDs with a wrong check digit', () => {
+    expect(isValidNcpdp('1234567')).toBe(false);
+    expect(isValidNcpdp('0123455')).toBe(false);
+  });
+
+  it('rejects IDs that are not 7 digits', () => {
+    expect(isValidNcpdp('123456')).toBe(false);
+    expect(isValidNcpdp('12345630')).toBe(false);
+    expect(isValidNcpdp('123456A')).toBe(false);
+    expect(isValidNcpdp('')).toBe(false);
+  });
+});
+
+describe('Rx numbers', () => {
+  it('strips prefixes and spaces patients type around the number', () => {
+    expect(normalizeRxNumber(' Rx# 123456 ')).toBe('123456');
+    expect(normalizeRxNumber('#123456')).toBe('123456');
+    expect(normalizeRxNumber('123 456')).toBe('123456');
+  });
+
+  it('accepts 4 to 12 digits', () => {
+    expect(isValidRxNumber('1234')).toBe(true);
+    expect(isValidRxNumber('123456789012')).toBe(true);
+    expect(isValidRxNumber('123')).toBe(false);
+    expect(isValidRxNumber('1234567890123')).toBe(false);
+    expect(isValidRxNumber('12A456')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Domain validators for patient and pharmacy fields
+ * Used by the form schemas in schemas.ts. Migration 009 enforces the same
+ * rules again in the database RPCs, so keep the two in step.
+ *
+ * Shared with the Supabase Edge Functions (Deno).
+ */
+
+/* Phones */
+
+/**
+ * Normalizes a US phone number to E.164 (+1XXXXXXXXXX), or null if it is not
+ * a valid NANP number. Accepts any punctuation and an optional leading 1 / +1.
+ */
+export function normalizeUSPhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+
+  // Area code and exchange cannot start with 0 or 1
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(national) ? `+1${national}` : null;
+}
+
+/* Dates of birth */
+
+export const MAX_PATIENT_AGE_YEARS = 120;
+
+/**
+ * Parses a YYYY-MM-DD string as a UTC date, or null if it is not a real calendar date
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * A date of birth must be a real date, not after today and at most MAX_PATIENT_AGE_YEARS ago
+ */
+export function isValidDateOfBirth(value: string, today: Date = new Date()): boolean {
+  const dob = parseIsoDate(value);
+  if (!dob) return false;
+
+  const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const earliest = Date.UTC(today.getFullYear() - MAX_PATIENT_AGE_YEARS, today.getMonth(), today.getDate());
+  return dob.getTime() <= todayUtc && dob.getTime() >= earliest;
+}
+
+/* Addresses */
+
+// USPS codes: states, DC, territories and military post offices
+export const US_STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL',
+  'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE',
+  'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD',
+  'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+  'AS', 'GU', 'MP', 'PR', 'VI',
+  'AA', 'AE', 'AP',
+] as const;
+
+export type UsStateCode = (typeof US_STATE_CODES)[number];
+
+export function isUsStateCode(value: string): value is UsStateCode {
+  return (US_STATE_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalizes a 5 or 9 digit ZIP to "12345" or "12345-6789", or null if invalid
+ */
+export function normalizeZip(value: string): string | null {
+  const match = /^(\d{5})(?:[\s-]?(\d{4}))?$/.exec(value.trim());
+  if (!match) return null;
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
+/* Pharmacy identifiers */
+
+/**
+ * NCPDP (formerly NABP) provider IDs are 7 digits; the last is a check digit:
+ * (d1 + d3 + d5) + 2 * (d2 + d4 + d6), units digit.
+ */
+export function isValidNcpdp(value: string): boolean {
+  if (!/^\d{7}$/.test(value)) return false;
+
+  const d = value.split('').map(Number);
+  const total = d[0] + d[2] + d[4] + 2 * (d[1] + d[3] + d[5]);
+  return total % 10 === d[6];
+}
+
+// BestRX Rx numbers are numeric
+export const RX_NUMBER_PATTERN = /^\d{4,12}$/;
+
+/**
+ * Strips what patients commonly type around an Rx number ("Rx# 123456", "#123456")
+ */
+export function normalizeRxNumber(value: string): string {
+  return value.trim().replace(/^rx\s*/i, '').replace(/^#\s*/, '').replace(/\s+/g, '');
+}
+
+export function isValidRxNumber(value: string): boolean {
+  return RX_NUMBER_PATTERN.test(value);
+}
@@ -0,0 +1,52 @@
+/**
+ * Loads BestRX credentials from Edge Function secrets.
+ * These values are never exposed to the browser bundle.
+ *
+ * Set BESTRX_SIMULATOR_URL to route calls to the local BestRX simulator
+ * (see src/lib/simulator) instead of the production endpoints.
+ */
+
+import {
+  DEFAULT_BESTRX_REQUEST_OPTIONS,
+  resolveBestRXEndpoints,
+} from "../../../src/lib/bestrx.ts";
+import type { BestRXAdapterConfig } from "../../../src/lib/pharmacySystems/bestrxAdapter.ts";
+
+const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+const isWholeNumber = (value: number) => Number.isInteger(value) && value >= 0;
+
+// Unset, empty and invalid values fall back to the default
+function readNumberEnv(name: string, fallback: number, isValid: (value: number) => boolean): number {
+  const raw = Deno.env.get(name)?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return isValid(value) ? value : fallback;
+}
+
+export function getBestRXConfig(): BestRXAdapterConfig | null {
+  const username = Deno.env.get("BESTRX_USERNAME");
+  const apiKey = Deno.env.get("BESTRX_API_KEY");
+  const password = Deno.env.get("BESTRX_PASSWORD");
+  const pharmacyNumber = Deno.env.get("BESTRX_PHARMACY_NUMBER");
+
+  if (!username || !apiKey || !password || !pharmacyNumber) {
+    return null;
+  }
+
+  return {
+    username,
+    apiKey,
+    password,
+    pharmacyNumber,
+    endpoints: resolveBestRXEndpoints(Deno.env.get("BESTRX_SIMULATOR_URL")),
+    requestOptions: {
+      timeoutMs: readNumberEnv("BESTRX_TIMEOUT_MS", DEFAULT_BESTRX_REQUEST_OPTIONS.timeoutMs, isPositive),
+      maxRetries: readNumberEnv("BESTRX_MAX_RETRIES", DEFAULT_BESTRX_REQUEST_OPTIONS.maxRetries, isWholeNumber),
+      retryBaseDelayMs: readNumberEnv(
+        "BESTRX_RETRY_BASE_DELAY_MS",
+        DEFAULT_BESTRX_REQUEST_OPTIONS.retryBaseDelayMs,
+        isWholeNumber
+      ),
+    },
+  };
+}
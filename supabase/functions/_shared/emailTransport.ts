@@ -0,0 +1,54 @@
+/**
+ * Selects the email transport from the EMAIL_TRANSPORT secret.
+ *   smtp (default)  SMTP relay configured by the SMTP_* secrets. Point it at
+ *                   the local catcher (npm run mail:catcher) during development.
+ *   log             Logs each message's subject and recipient count instead
+ *                   of sending it
+ */
+
+import type { EmailTransport } from "../../../src/lib/notifications/email.ts";
+import { createSmtpTransport } from "../../../src/lib/notifications/smtpTransport.ts";
+import type { SmtpSecurity } from "../../../src/lib/notifications/smtpTransport.ts";
+
+const SMTP_SECURITY: SmtpSecurity[] = ["none", "starttls", "tls"];
+
+function getSmtpTransport(): EmailTransport | null {
+  const host = Deno.env.get("SMTP_HOST");
+  const security = (Deno.env.get("SMTP_SECURITY") || "starttls") as SmtpSecurity;
+
+  if (!host || !SMTP_SECURITY.includes(security)) {
+    return null;
+  }
+
+  return createSmtpTransport({
+    host,
+    port: Number(Deno.env.get("SMTP_PORT")) || (security === "tls" ? 465 : 587),
+    security,
+    username: Deno.env.get("SMTP_USERNAME") || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+    connect: ({ hostname, port, tls }) => (tls ? Deno.connectTls({ hostname, port }) : Deno.connect({ hostname, port })),
+    startTls: (socket, hostname) => Deno.startTls(socket as Deno.TcpConn, { hostname }),
+  });
+}
+
+/**
+ * Returns the configured transport, or null when it is missing configuration
+ */
+export function getEmailTransport(): EmailTransport | null {
+  const name = Deno.env.get("EMAIL_TRANSPORT") || "smtp";
+
+  switch (name) {
+    case "smtp":
+      return getSmtpTransport();
+    case "log":
+      return {
+        name: "log",
+        send: async (message) => {
+          console.log(`Email "${message.subject}" to ${message.to.length} recipient(s) not sent (EMAIL_TRANSPORT=log)`);
+        },
+      };
+    default:
+      console.error(`Unknown EMAIL_TRANSPORT "${name}"`);
+      return null;
+  }
+}
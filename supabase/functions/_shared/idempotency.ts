@@ -0,0 +1,64 @@
+/**
+ * Idempotency handling for pharmacy submissions.
+ * The browser sends an Idempotency-Key header; a repeat of a key that already
+ * produced a stored submission within the window returns the original result.
+ * Rejected submissions are ignored so the patient can correct and re-send.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SubmissionStatus } from "./submissionOutbox.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEFAULT_WINDOW_MINUTES = 24 * 60;
+
+export function getIdempotencyKey(req: Request): string | null {
+  const key = req.headers.get("Idempotency-Key");
+  return key && UUID_PATTERN.test(key) ? key : null;
+}
+
+function getWindowMinutes(): number {
+  const value = Number(Deno.env.get("IDEMPOTENCY_WINDOW_MINUTES"));
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_WINDOW_MINUTES;
+}
+
+export interface PreviousSubmission {
+  id: string;
+  confirmationCode: string;
+  status: SubmissionStatus;
+  result: Record<string, unknown> | null;
+}
+
+/**
+ * Looks up a stored submission for this key inside the idempotency window
+ */
+export async function findPreviousSubmission(
+  supabase: SupabaseClient,
+  table: "refill_requests" | "transfer_requests",
+  idempotencyKey: string
+): Promise<PreviousSubmission | null> {
+  const windowStart = new Date(Date.now() - getWindowMinutes() * 60_000).toISOString();
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("id, confirmation_code, submission_status, submission_result")
+    .eq("idempotency_key", idempotencyKey)
+    .neq("submission_status", "rejected")
+    .gte("created_at", windowStart)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Idempotency lookup on ${table} failed:`, error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    confirmationCode: data.confirmation_code,
+    status: data.submission_status,
+    result: data.submission_result,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Selects the pharmacy system adapter from the PHARMACY_SYSTEM secret.
+ *   bestrx (default)  BestRX web services, configured by the BESTRX_* secrets
+ *   memory            In-memory system for local development; state lasts
+ *                     only as long as the function instance
+ */
+
+import type { PharmacySystemAdapter } from "../../../src/lib/pharmacySystems/adapter.ts";
+import { createBestRXAdapter } from "../../../src/lib/pharmacySystems/bestrxAdapter.ts";
+import { createInMemoryPharmacySystem } from "../../../src/lib/pharmacySystems/inMemoryAdapter.ts";
+import { getBestRXConfig } from "./bestrxConfig.ts";
+
+let memorySystem: PharmacySystemAdapter | null = null;
+
+/**
+ * Returns the configured adapter, or null when it is missing configuration
+ */
+export function getPharmacySystem(): PharmacySystemAdapter | null {
+  const name = Deno.env.get("PHARMACY_SYSTEM") || "bestrx";
+
+  switch (name) {
+    case "bestrx": {
+      const config = getBestRXConfig();
+      return config ? createBestRXAdapter(config) : null;
+    }
+    case "memory":
+      memorySystem ??= createInMemoryPharmacySystem();
+      return memorySystem;
+    default:
+      console.error(`Unknown PHARMACY_SYSTEM "${name}"`);
+      return null;
+  }
+}
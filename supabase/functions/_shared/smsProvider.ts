@@ -0,0 +1,35 @@
+/**
+ * Selects the SMS provider from the SMS_PROVIDER secret.
+ *   fake  Logs texts (number masked) instead of sending them and reads
+ *         replies posted as Twilio-style form fields or JSON; state lasts
+ *         only as long as the function instance
+ *
+ * A real provider is an SmsProvider adapter (src/lib/notifications/sms.ts)
+ * added as another case here. There is no default, so texts are never sent
+ * through a provider nobody chose.
+ */
+
+import type { SmsProvider } from "../../../src/lib/notifications/sms.ts";
+import { createFakeSmsProvider } from "../../../src/lib/notifications/fakeSmsProvider.ts";
+
+let fakeProvider: SmsProvider | null = null;
+
+/**
+ * Returns the configured provider, or null when none is configured
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const name = Deno.env.get("SMS_PROVIDER");
+
+  switch (name) {
+    case "fake":
+      fakeProvider ??= createFakeSmsProvider();
+      return fakeProvider;
+    case undefined:
+    case "":
+      console.error("SMS_PROVIDER is not set");
+      return null;
+    default:
+      console.error(`Unknown SMS_PROVIDER "${name}"`);
+      return null;
+  }
+}
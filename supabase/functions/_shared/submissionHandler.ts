@@ -0,0 +1,124 @@
+/**
+ * Shared request handling for the refill and transfer Edge Functions.
+ * The request is stored as 'pending' before the pharmacy system is called, so
+ * it survives an outage; the outbox worker retries anything left pending.
+ */
+
+import type { ZodType } from "zod";
+import { corsHeaders, jsonResponse } from "./http.ts";
+import { getPharmacySystem } from "./pharmacySystem.ts";
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { findPreviousSubmission, getIdempotencyKey } from "./idempotency.ts";
+import {
+  buildSubmissionResponse,
+  claimSubmissions,
+  processClaimedSubmission,
+} from "./submissionOutbox.ts";
+import type { StoredRequest, SubmissionRequestType } from "./submissionOutbox.ts";
+
+const UNIQUE_VIOLATION = "23505";
+// Raised by the submission RPCs when a field fails the database validators
+const INVALID_PARAMETER_VALUE = "22023";
+
+export interface SubmissionHandlerConfig<T> {
+  requestType: SubmissionRequestType;
+  table: "refill_requests" | "transfer_requests";
+  schema: ZodType<T>;
+  // RPC that stores the request and returns its id
+  rpcName: string;
+  toRpcParams: (data: T) => Record<string, unknown>;
+}
+
+function failure(message: string, status: number): Response {
+  return jsonResponse({ success: false, message, confirmationId: null }, status);
+}
+
+export async function handleSubmissionRequest<T>(
+  req: Request,
+  config: SubmissionHandlerConfig<T>
+): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const idempotencyKey = getIdempotencyKey(req);
+    if (!idempotencyKey) {
+      return failure("Missing or invalid Idempotency-Key header.", 400);
+    }
+
+    const parsed = config.schema.safeParse(await req.json());
+    if (!parsed.success) {
+      return failure(parsed.error.errors[0]?.message || `Invalid ${config.requestType} request.`, 400);
+    }
+
+    const supabase = createAdminClient();
+    if (!supabase) {
+      console.error("Missing Supabase service configuration");
+      return failure("Pharmacy service is not properly configured. Please contact support.", 500);
+    }
+
+    // A repeated submission returns the original result instead of submitting twice
+    const previous = await findPreviousSubmission(supabase, config.table, idempotencyKey);
+    if (previous) {
+      return jsonResponse({
+        ...buildSubmissionResponse(previous, previous.status, previous.result),
+        duplicate: true,
+      });
+    }
+
+    // Store first so the request is not lost if the pharmacy system is unavailable
+    const { data: requestId, error } = await supabase.rpc(config.rpcName, {
+      ...config.toRpcParams(parsed.data),
+      p_idempotency_key: idempotencyKey,
+    });
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      // A concurrent request with the same key won the insert
+      const winner = await findPreviousSubmission(supabase, config.table, idempotencyKey);
+      if (winner) {
+        return jsonResponse({
+          ...buildSubmissionResponse(winner, winner.status, winner.result),
+          duplicate: true,
+        });
+      }
+    }
+    if (error?.code === INVALID_PARAMETER_VALUE) {
+      return failure(error.message, 400);
+    }
+    if (error || !requestId) {
+      console.error(`Failed to store ${config.requestType} request:`, error);
+      return failure("Unable to save your request. Please try again.", 500);
+    }
+
+    // The confirmation code is assigned by a database trigger on insert
+    const { data: stored, error: codeError } = await supabase
+      .from(config.table)
+      .select("confirmation_code")
+      .eq("id", requestId)
+      .single();
+
+    if (codeError || !stored) {
+      console.error(`Failed to load confirmation code for ${config.requestType} ${requestId}:`, codeError);
+    }
+    const request: StoredRequest = { id: requestId, confirmationCode: stored?.confirmation_code ?? "" };
+
+    // Try right away; anything still pending is retried by the outbox worker
+    const system = getPharmacySystem();
+    if (!system) {
+      console.error("Missing pharmacy system configuration; request left in the outbox");
+      return jsonResponse(buildSubmissionResponse(request, "pending", null));
+    }
+
+    const [claimed] = await claimSubmissions(supabase, config.requestType, { requestId, limit: 1 });
+    if (!claimed) {
+      return jsonResponse(buildSubmissionResponse(request, "processing", null));
+    }
+
+    const outcome = await processClaimedSubmission(supabase, config.requestType, claimed, system);
+    return jsonResponse(buildSubmissionResponse(request, outcome.status, outcome.result));
+  } catch (error) {
+    console.error(`${config.requestType} submission error:`, error);
+    return failure("Unable to connect to pharmacy service. Please try again later.", 500);
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Outbox processing for refill and transfer submissions.
+ * Requests are stored as 'pending' first; this module claims them, submits
+ * them to the pharmacy system and records the outcome. Used by the submission Edge
+ * Functions (immediate attempt) and the process-submission-outbox worker.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RefillFormData, TransferFormData } from "../../../src/lib/schemas.ts";
+import {
+  PHARMACY_TIMEOUT_CODE,
+  summarizeTransferResults,
+} from "../../../src/lib/pharmacySystems/adapter.ts";
+import type {
+  PharmacySystemAdapter,
+  TransferRxResult,
+} from "../../../src/lib/pharmacySystems/adapter.ts";
+
+export type SubmissionRequestType = "refill" | "transfer";
+
+export type SubmissionStatus = "pending" | "processing" | "succeeded" | "rejected" | "failed";
+
+export type SubmissionRow = Record<string, unknown> & { id: string };
+
+export interface SubmissionOutcome {
+  status: SubmissionStatus;
+  result: Record<string, unknown>;
+}
+
+export const QUEUED_MESSAGE =
+  "We have received your request and will process it shortly. We will contact you if there are any issues.";
+
+// Common shape of one submission attempt for a stored request
+interface AttemptResult {
+  success: boolean;
+  message: string;
+  results?: unknown[];
+  errorCode?: string;
+  retryable?: boolean;
+  // A result could not be saved, so another attempt might repeat an accepted
+  // submission: the row waits for staff review instead
+  needsReview?: boolean;
+}
+
+interface RefillPrescriptionRow {
+  rx_number: string;
+  medication_name: string | null;
+}
+
+interface TransferPrescriptionRow {
+  id: string;
+  rx_number: string;
+  rx_fill_date: string;
+  transferred: boolean;
+  submission_result: TransferRxResult | null;
+}
+
+interface OutboxSettings {
+  maxAttempts: number;
+  baseRetryDelaySeconds: number;
+  maxRetryDelaySeconds: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getOutboxSettings(): OutboxSettings {
+  return {
+    maxAttempts: readNumberEnv("OUTBOX_MAX_ATTEMPTS", 8),
+    baseRetryDelaySeconds: readNumberEnv("OUTBOX_RETRY_BASE_DELAY_SECONDS", 60),
+    maxRetryDelaySeconds: readNumberEnv("OUTBOX_RETRY_MAX_DELAY_SECONDS", 3600),
+  };
+}
+
+/**
+ * Claims due submissions. Pass requestId to claim one specific row.
+ */
+export async function claimSubmissions(
+  supabase: SupabaseClient,
+  requestType: SubmissionRequestType,
+  options: { limit?: number; requestId?: string } = {}
+): Promise<SubmissionRow[]> {
+  const { data, error } = await supabase.rpc("claim_pending_submissions", {
+    p_request_type: requestType,
+    p_limit: options.limit ?? 10,
+    p_request_id: options.requestId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim ${requestType} submissions: ${error.message}`);
+  }
+
+  return (data ?? []) as SubmissionRow[];
+}
+
+/**
+ * Rebuilds the validated form data from a stored request row
+ */
+function refillRowToFormData(
+  row: SubmissionRow,
+  prescriptions: RefillPrescriptionRow[]
+): RefillFormData {
+  return {
+    patientFirstName: String(row.patient_first_name ?? ""),
+    patientMiddleName: row.patient_middle_name ? String(row.patient_middle_name) : undefined,
+    patientLastName: String(row.patient_last_name),
+    patientSuffix: row.patient_suffix
+      ? (row.patient_suffix as RefillFormData["patientSuffix"])
+      : undefined,
+    dob: String(row.dob),
+    phone: String(row.phone),
+    email: row.email ? String(row.email) : undefined,
+    prescriptions: prescriptions.map((item) => ({
+      rxNumber: item.rx_number,
+      medicationName: item.medication_name ?? undefined,
+    })),
+    preferredService: row.preferred_service as RefillFormData["preferredService"],
+    notificationChannel: (row.notification_channel ?? "none") as RefillFormData["notificationChannel"],
+    notes: row.notes ? String(row.notes) : undefined,
+    consent: Boolean(row.consent),
+  };
+}
+
+function transferRowToFormData(
+  row: SubmissionRow,
+  prescriptions: TransferPrescriptionRow[]
+): TransferFormData {
+  return {
+    patientDob: row.patient_dob ? String(row.patient_dob) : "",
+    prescriptions: prescriptions.map((item) => ({
+      rxNumber: item.rx_number,
+      rxFillDate: item.rx_fill_date,
+    })),
+    transferToPharmacyName: String(row.transfer_to_pharmacy_name),
+    transferToPharmacyAddress1: String(row.transfer_to_pharmacy_address1),
+    transferToPharmacyAddress2: row.transfer_to_pharmacy_address2
+      ? String(row.transfer_to_pharmacy_address2)
+      : undefined,
+    transferToPharmacyCity: String(row.transfer_to_pharmacy_city),
+    transferToPharmacyState: String(row.transfer_to_pharmacy_state),
+    transferToPharmacyZip: String(row.transfer_to_pharmacy_zip),
+    transferToPharmacyPhone: String(row.transfer_to_pharmacy_phone),
+    transferToPharmacyNCPDP: row.transfer_to_pharmacy_ncpdp
+      ? String(row.transfer_to_pharmacy_ncpdp)
+      : undefined,
+    transferRxRemark: row.transfer_rx_remark ? String(row.transfer_rx_remark) : undefined,
+    consent: Boolean(row.consent),
+  };
+}
+
+/**
+ * Sends all prescriptions of a refill request in one call
+ */
+async function submitRefillRow(
+  supabase: SupabaseClient,
+  row: SubmissionRow,
+  system: PharmacySystemAdapter
+): Promise<AttemptResult> {
+  // Medication names are encrypted at rest; the RPC returns them decrypted
+  const { data, error } = await supabase.rpc("get_refill_prescriptions", {
+    p_refill_request_id: row.id,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load prescriptions for refill ${row.id}: ${error.message}`);
+  }
+
+  return system.submitRefill(refillRowToFormData(row, (data ?? []) as RefillPrescriptionRow[]));
+}
+
+/**
+ * Transfers each prescription with its own call. A retry only sends again the
+ * prescriptions whose earlier failure was retryable: transferred ones and final
+ * rejections keep their result. Neither is one that timed out: the pharmacy may
+ * have accepted it without answering, so it waits for staff review. If a
+ * result cannot be saved the attempt stops and the row goes to staff review.
+ */
+async function submitTransferRow(
+  supabase: SupabaseClient,
+  row: SubmissionRow,
+  system: PharmacySystemAdapter
+): Promise<AttemptResult> {
+  const { data, error } = await supabase
+    .from("transfer_request_prescriptions")
+    .select("id, rx_number, rx_fill_date, transferred, submission_result")
+    .eq("transfer_request_id", row.id)
+    .order("position");
+
+  if (error) {
+    throw new Error(`Failed to load prescriptions for transfer ${row.id}: ${error.message}`);
+  }
+
+  const prescriptions = (data ?? []) as TransferPrescriptionRow[];
+  const formData = transferRowToFormData(row, prescriptions);
+  const results: TransferRxResult[] = [];
+  let retryable = false;
+  let timedOut = false;
+
+  for (const item of prescriptions) {
+    const previous = item.submission_result;
+    if (
+      previous &&
+      (item.transferred ||
+        previous.retryable === false ||
+        previous.errorCode === PHARMACY_TIMEOUT_CODE)
+    ) {
+      results.push(previous);
+      timedOut ||= previous.errorCode === PHARMACY_TIMEOUT_CODE;
+      continue;
+    }
+
+    const prescription = { rxNumber: item.rx_number, rxFillDate: item.rx_fill_date };
+    const attempt = await system.submitTransfer(formData, prescription);
+
+    const result: TransferRxResult = {
+      ...prescription,
+      success: attempt.success,
+      errorCode: attempt.errorCode ?? null,
+      message: attempt.message,
+      retryable: Boolean(attempt.retryable),
+    };
+    results.push(result);
+    retryable ||= Boolean(attempt.retryable);
+    timedOut ||= attempt.errorCode === PHARMACY_TIMEOUT_CODE;
+
+    const { error: updateError } = await supabase
+      .from("transfer_request_prescriptions")
+      .update({ transferred: attempt.success, submission_result: result })
+      .eq("id", item.id);
+
+    if (updateError) {
+      // Stop here: without this record a retry would send the prescription again
+      console.error(`Failed to record transfer result for prescription ${item.id}:`, updateError);
+      return {
+        success: false,
+        message: `The result for Rx ${item.rx_number} could not be saved (${updateError.message}). Check the pharmacy system before resubmitting.`,
+        results,
+        needsReview: true,
+      };
+    }
+  }
+
+  return {
+    success: results.some((result) => result.success),
+    message: summarizeTransferResults(results),
+    results,
+    retryable,
+    errorCode: timedOut ? PHARMACY_TIMEOUT_CODE : undefined,
+  };
+}
+
+/**
+ * Submits one claimed row to the pharmacy system and records the outcome
+ */
+export async function processClaimedSubmission(
+  supabase: SupabaseClient,
+  requestType: SubmissionRequestType,
+  row: SubmissionRow,
+  system: PharmacySystemAdapter
+): Promise<SubmissionOutcome> {
+  const result: AttemptResult =
+    requestType === "refill"
+      ? await submitRefillRow(supabase, row, system)
+      : await submitTransferRow(supabase, row, system);
+
+  const storedResult: Record<string, unknown> = {
+    success: result.success,
+    message: result.message,
+    ...(result.results ? { results: result.results } : {}),
+  };
+
+  const settings = getOutboxSettings();
+  const attempts = Number(row.submission_attempts ?? 1);
+  let status: SubmissionStatus;
+  let retryInSeconds: number | null = null;
+
+  // Retry and review checks come first: a transfer can be partly accepted
+  // while other prescriptions still need another attempt
+  if (result.needsReview) {
+    status = "failed";
+  } else if (result.retryable && attempts < settings.maxAttempts) {
+    status = "pending";
+    retryInSeconds = Math.min(
+      settings.baseRetryDelaySeconds * 2 ** (attempts - 1),
+      settings.maxRetryDelaySeconds
+    );
+  } else if (result.retryable || result.errorCode === PHARMACY_TIMEOUT_CODE) {
+    // Out of attempts, or the system may have accepted it without answering
+    status = "failed";
+  } else if (result.success) {
+    status = "succeeded";
+  } else {
+    status = "rejected";
+  }
+
+  const { error } = await supabase.rpc("record_submission_outcome", {
+    p_request_type: requestType,
+    p_request_id: row.id,
+    p_status: status,
+    p_result: status === "succeeded" || status === "rejected" ? storedResult : null,
+    p_error: status === "succeeded" ? null : result.message,
+    p_retry_in: retryInSeconds === null ? null : `${retryInSeconds} seconds`,
+  });
+
+  if (error) {
+    console.error(`Failed to record ${requestType} submission ${row.id} outcome:`, error);
+  }
+
+  return { status, result: storedResult };
+}
+
+export interface StoredRequest {
+  id: string;
+  confirmationCode: string;
+}
+
+/**
+ * Builds the patient-facing response for a stored submission
+ */
+export function buildSubmissionResponse(
+  request: StoredRequest,
+  status: SubmissionStatus,
+  result: Record<string, unknown> | null
+): Record<string, unknown> {
+  const confirmation = { confirmationId: request.id, confirmationCode: request.confirmationCode };
+
+  if (status === "succeeded" && result) {
+    return { ...result, ...confirmation, success: true };
+  }
+  if (status === "rejected" && result) {
+    return { ...result, success: false, confirmationId: null, confirmationCode: null };
+  }
+
+  // Pending, in progress or awaiting staff review: the request is safely stored
+  return { success: true, queued: true, message: QUEUED_MESSAGE, ...confirmation };
+}
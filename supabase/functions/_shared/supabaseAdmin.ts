@@ -0,0 +1,15 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role Supabase client for audit writes from Edge Functions
+ */
+export function createAdminClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
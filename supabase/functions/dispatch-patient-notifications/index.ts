@@ -0,0 +1,100 @@
+/**
+ * dispatch-patient-notifications Edge Function
+ * Scheduled worker (pg_cron, every minute) that texts or emails patients the
+ * refill updates queued in patient_notifications. Each notification is sent
+ * on its own channel; one without a configured channel fails and is retried.
+ * Authenticated with the OUTBOX_WORKER_TOKEN secret, not a user JWT.
+ */
+
+import { jsonResponse } from "../_shared/http.ts";
+import { getEmailTransport } from "../_shared/emailTransport.ts";
+import { getSmsProvider } from "../_shared/smsProvider.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { buildPatientEmail, buildPatientSms } from "../../../src/lib/notifications/patientNotifications.ts";
+import type { PatientNotificationEvent } from "../../../src/lib/notifications/patientNotifications.ts";
+
+interface ClaimedNotificationRow {
+  id: number;
+  event: PatientNotificationEvent;
+  channel: "sms" | "email";
+  destination: string;
+  confirmation_code: string;
+  unsubscribe_token: string;
+}
+
+Deno.serve(async (req) => {
+  const workerToken = Deno.env.get("OUTBOX_WORKER_TOKEN");
+  if (!workerToken || req.headers.get("Authorization") !== `Bearer ${workerToken}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createAdminClient();
+  const siteUrl = Deno.env.get("SITE_URL");
+  if (!supabase || !siteUrl) {
+    console.error("Patient notification worker is missing Supabase or SITE_URL configuration");
+    return jsonResponse({ error: "Service not properly configured" }, 500);
+  }
+
+  // Either channel may be left unconfigured; its notifications fail until it is set up
+  const smsProvider = getSmsProvider();
+  const emailTransport = getEmailTransport();
+  const emailFrom = Deno.env.get("PATIENT_EMAIL_FROM");
+
+  const send = async (row: ClaimedNotificationRow): Promise<string | null> => {
+    if (row.channel === "sms") {
+      if (!smsProvider) throw new Error("SMS provider is not configured");
+      const result = await smsProvider.send({ to: row.destination, body: buildPatientSms(row.event, row.confirmation_code) });
+      return result.providerMessageId;
+    }
+
+    if (!emailTransport || !emailFrom) throw new Error("Email transport or PATIENT_EMAIL_FROM is not configured");
+    const unsubscribeUrl = new URL("/unsubscribe", siteUrl);
+    unsubscribeUrl.searchParams.set("token", row.unsubscribe_token);
+    await emailTransport.send(
+      buildPatientEmail(row.event, row.confirmation_code, {
+        from: emailFrom,
+        to: row.destination,
+        unsubscribeUrl: unsubscribeUrl.toString(),
+      })
+    );
+    return null;
+  };
+
+  const summary = { sent: 0, failed: 0 };
+
+  try {
+    const { data, error } = await supabase.rpc("claim_patient_notifications", {
+      p_limit: Number(Deno.env.get("PATIENT_NOTIFICATION_BATCH_SIZE")) || 50,
+    });
+    if (error) throw error;
+
+    for (const row of (data ?? []) as ClaimedNotificationRow[]) {
+      let providerMessageId: string | null = null;
+      let sendError: string | null = null;
+      try {
+        providerMessageId = await send(row);
+      } catch (err) {
+        sendError = err instanceof Error ? err.message : String(err);
+        console.error(`Patient notification ${row.id} by ${row.channel} failed:`, sendError);
+      }
+
+      const { error: recordError } = await supabase.rpc("record_patient_notification_result", {
+        p_id: row.id,
+        p_sent: sendError === null,
+        p_provider_message_id: providerMessageId,
+        p_error: sendError,
+      });
+      if (recordError) throw recordError;
+
+      summary[sendError === null ? "sent" : "failed"] += 1;
+    }
+
+    return jsonResponse({ notifications: summary });
+  } catch (error) {
+    console.error("Patient notification worker error:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Patient notification worker failed", notifications: summary },
+      500
+    );
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * dispatch-staff-alerts Edge Function
+ * Scheduled worker (pg_cron, every minute) that emails staff about new
+ * submissions queued in staff_alerts: one email per submission for immediate
+ * types, one summary per type for digest types. Authenticated with the
+ * OUTBOX_WORKER_TOKEN secret, not a user JWT.
+ */
+
+import { jsonResponse } from "../_shared/http.ts";
+import { getEmailTransport } from "../_shared/emailTransport.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import {
+  buildDigestAlertEmail,
+  buildImmediateAlertEmail,
+} from "../../../src/lib/notifications/staffAlerts.ts";
+import type { StaffAlert, StaffAlertType } from "../../../src/lib/notifications/staffAlerts.ts";
+import type { EmailMessage } from "../../../src/lib/notifications/email.ts";
+
+interface ClaimedAlertRow {
+  id: number;
+  submission_type: StaffAlertType;
+  submission_id: string;
+  created_at: string;
+  delivery: "immediate" | "digest";
+  recipients: string[];
+}
+
+interface AlertEmail {
+  alertIds: number[];
+  message: EmailMessage;
+}
+
+function toAlert(row: ClaimedAlertRow): StaffAlert {
+  return {
+    id: row.id,
+    submissionType: row.submission_type,
+    submissionId: row.submission_id,
+    createdAt: row.created_at,
+  };
+}
+
+function buildEmails(rows: ClaimedAlertRow[], from: string, adminUrl: string): AlertEmail[] {
+  const emails: AlertEmail[] = [];
+  const digests = new Map<StaffAlertType, ClaimedAlertRow[]>();
+
+  for (const row of rows) {
+    if (row.delivery === "digest") {
+      digests.set(row.submission_type, [...(digests.get(row.submission_type) ?? []), row]);
+      continue;
+    }
+    emails.push({
+      alertIds: [row.id],
+      message: buildImmediateAlertEmail(toAlert(row), { from, to: row.recipients, adminUrl }),
+    });
+  }
+
+  digests.forEach((group, type) => {
+    emails.push({
+      alertIds: group.map((row) => row.id),
+      message: buildDigestAlertEmail(type, group.map(toAlert), { from, to: group[0].recipients, adminUrl }),
+    });
+  });
+
+  return emails;
+}
+
+Deno.serve(async (req) => {
+  const workerToken = Deno.env.get("OUTBOX_WORKER_TOKEN");
+  if (!workerToken || req.headers.get("Authorization") !== `Bearer ${workerToken}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createAdminClient();
+  const transport = getEmailTransport();
+  const from = Deno.env.get("STAFF_ALERT_FROM");
+  const adminUrl = Deno.env.get("STAFF_ALERT_ADMIN_URL");
+  if (!supabase || !transport || !from || !adminUrl) {
+    console.error("Staff alert worker is missing Supabase, email or STAFF_ALERT_* configuration");
+    return jsonResponse({ error: "Service not properly configured" }, 500);
+  }
+
+  const summary = { sent: 0, failed: 0 };
+
+  try {
+    const { data, error } = await supabase.rpc("claim_staff_alerts", {
+      p_limit: Number(Deno.env.get("STAFF_ALERT_BATCH_SIZE")) || 100,
+    });
+    if (error) throw error;
+
+    // Sequential on purpose: small batches, and relays throttle parallel sessions
+    for (const email of buildEmails((data ?? []) as ClaimedAlertRow[], from, adminUrl)) {
+      let sendError: string | null = null;
+      try {
+        await transport.send(email.message);
+      } catch (err) {
+        sendError = err instanceof Error ? err.message : String(err);
+        console.error(`Staff alert email via ${transport.name} failed:`, sendError);
+      }
+
+      const { error: recordError } = await supabase.rpc("record_staff_alert_result", {
+        p_ids: email.alertIds,
+        p_sent: sendError === null,
+        p_error: sendError,
+      });
+      if (recordError) throw recordError;
+
+      summary[sendError === null ? "sent" : "failed"] += email.alertIds.length;
+    }
+
+    return jsonResponse({ alerts: summary });
+  } catch (error) {
+    console.error("Staff alert worker error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Staff alert worker failed", alerts: summary }, 500);
+  }
+});
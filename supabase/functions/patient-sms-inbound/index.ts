@@ -0,0 +1,53 @@
+/**
+ * patient-sms-inbound Edge Function
+ * Inbound-message webhook for the SMS provider. STOP-style replies opt the
+ * number out of refill texts and START-style replies opt it back in; any
+ * other reply is ignored. Providers cannot send a bearer token, so the
+ * webhook URL carries the SMS_WEBHOOK_TOKEN secret as ?token=.
+ */
+
+import { jsonResponse } from "../_shared/http.ts";
+import { getSmsProvider } from "../_shared/smsProvider.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { parseSmsKeyword } from "../../../src/lib/notifications/patientNotifications.ts";
+
+// Raised by set_sms_notification_opt_out for a number it cannot normalize
+const INVALID_PARAMETER_VALUE = "22023";
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const webhookToken = Deno.env.get("SMS_WEBHOOK_TOKEN");
+  if (!webhookToken || new URL(req.url).searchParams.get("token") !== webhookToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createAdminClient();
+  const provider = getSmsProvider();
+  if (!supabase || !provider) {
+    console.error("SMS webhook is missing Supabase or SMS_PROVIDER configuration");
+    return jsonResponse({ error: "Service not properly configured" }, 500);
+  }
+
+  const inbound = await provider.parseInbound(req);
+  if (!inbound) {
+    return jsonResponse({ error: "Not an inbound message" }, 400);
+  }
+
+  const keyword = parseSmsKeyword(inbound.body);
+  if (keyword) {
+    const { error } = await supabase.rpc("set_sms_notification_opt_out", {
+      p_phone: inbound.from,
+      p_opted_out: keyword === "opt_out",
+    });
+    if (error && error.code !== INVALID_PARAMETER_VALUE) {
+      console.error("SMS opt-out update failed:", error);
+      return jsonResponse({ error: "Could not update notification preferences" }, 500);
+    }
+  }
+
+  // An empty reply: carriers send the STOP/START confirmation themselves
+  return new Response(null, { status: 204 });
+});
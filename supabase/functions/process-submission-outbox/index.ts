@@ -0,0 +1,52 @@
+/**
+ * process-submission-outbox Edge Function
+ * Scheduled worker (pg_cron, every minute) that drains pending refill and
+ * transfer submissions through the pharmacy system and records each outcome.
+ * Authenticated with the OUTBOX_WORKER_TOKEN secret, not a user JWT.
+ */
+
+import { jsonResponse } from "../_shared/http.ts";
+import { getPharmacySystem } from "../_shared/pharmacySystem.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import {
+  claimSubmissions,
+  processClaimedSubmission,
+} from "../_shared/submissionOutbox.ts";
+import type { SubmissionRequestType, SubmissionStatus } from "../_shared/submissionOutbox.ts";
+
+const REQUEST_TYPES: SubmissionRequestType[] = ["refill", "transfer"];
+
+Deno.serve(async (req) => {
+  const workerToken = Deno.env.get("OUTBOX_WORKER_TOKEN");
+  if (!workerToken || req.headers.get("Authorization") !== `Bearer ${workerToken}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createAdminClient();
+  const system = getPharmacySystem();
+  if (!supabase || !system) {
+    console.error("Outbox worker is missing Supabase or pharmacy system configuration");
+    return jsonResponse({ error: "Service not properly configured" }, 500);
+  }
+
+  const batchSize = Number(Deno.env.get("OUTBOX_BATCH_SIZE")) || 10;
+  const summary: Record<string, Partial<Record<SubmissionStatus, number>>> = {};
+
+  try {
+    for (const requestType of REQUEST_TYPES) {
+      summary[requestType] = {};
+      const rows = await claimSubmissions(supabase, requestType, { limit: batchSize });
+
+      // Sequential on purpose: keeps pharmacy system load predictable during recovery
+      for (const row of rows) {
+        const { status } = await processClaimedSubmission(supabase, requestType, row, system);
+        summary[requestType][status] = (summary[requestType][status] ?? 0) + 1;
+      }
+    }
+
+    return jsonResponse({ processed: summary });
+  } catch (error) {
+    console.error("Outbox worker error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Outbox worker failed", processed: summary }, 500);
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * send-refill-request Edge Function
+ * Validates a refill form, stores it in the submission outbox and forwards it
+ * to the configured pharmacy system (BestRX by default) with server-side credentials.
+ */
+
+import { RefillFormDataSchema } from "../../../src/lib/schemas.ts";
+import { handleSubmissionRequest } from "../_shared/submissionHandler.ts";
+
+Deno.serve((req) =>
+  handleSubmissionRequest(req, {
+    requestType: "refill",
+    table: "refill_requests",
+    schema: RefillFormDataSchema,
+    rpcName: "submit_refill_request",
+    toRpcParams: (data) => ({
+      p_patient_first_name: data.patientFirstName,
+      p_patient_middle_name: data.patientMiddleName || "",
+      p_patient_last_name: data.patientLastName,
+      p_patient_suffix: data.patientSuffix || "",
+      p_dob: data.dob,
+      p_phone: data.phone,
+      p_email: data.email || "",
+      p_prescriptions: data.prescriptions,
+      p_preferred_service: data.preferredService,
+      p_notes: data.notes || "",
+      p_consent: data.consent,
+      p_notification_channel: data.notificationChannel,
+    }),
+  })
+);
@@ -0,0 +1,31 @@
+/**
+ * submit-transfer-request Edge Function
+ * Validates a transfer form, stores it in the submission outbox and forwards it
+ * to the configured pharmacy system (BestRX by default) with server-side credentials.
+ */
+
+import { TransferFormDataSchema } from "../../../src/lib/schemas.ts";
+import { handleSubmissionRequest } from "../_shared/submissionHandler.ts";
+
+Deno.serve((req) =>
+  handleSubmissionRequest(req, {
+    requestType: "transfer",
+    table: "transfer_requests",
+    schema: TransferFormDataSchema,
+    rpcName: "submit_transfer_request",
+    toRpcParams: (data) => ({
+      p_patient_dob: data.patientDob,
+      p_prescriptions: data.prescriptions,
+      p_transfer_to_pharmacy_name: data.transferToPharmacyName,
+      p_transfer_to_pharmacy_address1: data.transferToPharmacyAddress1,
+      p_transfer_to_pharmacy_address2: data.transferToPharmacyAddress2 || "",
+      p_transfer_to_pharmacy_city: data.transferToPharmacyCity,
+      p_transfer_to_pharmacy_state: data.transferToPharmacyState,
+      p_transfer_to_pharmacy_zip: data.transferToPharmacyZip,
+      p_transfer_to_pharmacy_phone: data.transferToPharmacyPhone,
+      p_transfer_to_pharmacy_ncpdp: data.transferToPharmacyNCPDP || "",
+      p_transfer_rx_remark: data.transferRxRemark || "",
+      p_consent: data.consent,
+    }),
+  })
+);
@@ -1,9 +1,43 @@
 
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 
+// GitHub Pages answers any path without a file (/about, /admin) with 404.html.
+// This one sends the visitor to the app as ?redirect=<path>, and a script in
+// index.html puts the path back in the address bar before the router reads it.
+function spaFallback(): Plugin {
+  let base = '/';
+  return {
+    name: 'spa-fallback',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: '404.html',
+        source: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Complete Healthcare Rx</title>
+    <script>
+      var l = window.location;
+      l.replace('${base}?redirect=' + encodeURIComponent(l.pathname + l.search + l.hash));
+    </script>
+  </head>
+  <body></body>
+</html>
+`,
+      });
+    },
+  };
+}
+
 export default defineConfig(({ mode }) => {
   console.log('Vite mode:', mode);
   const env = loadEnv(mode, '.', '');
@@ -16,16 +50,13 @@ export default defineConfig(({ mode }) => {
     plugins: [
       react(),
       tailwindcss(),
+      spaFallback(),
     ],
     define: {
+      // Only public values belong here; BestRX credentials live in Edge Function secrets
       'process.env.VITE_SUPABASE_URL': JSON.stringify(env.VITE_SUPABASE_URL),
-      'process.env.DATABASE_URL': JSON.stringify(env.DATABASE_URL),
       'process.env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY': JSON.stringify(env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY),
       'process.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(env.VITE_SUPABASE_ANON_KEY),
-      'process.env.BESTRX_API_KEY': JSON.stringify(env.BESTRX_API_KEY),
-      'process.env.BESTRX_USERNAME': JSON.stringify(env.BESTRX_USERNAME),
-      'process.env.BESTRX_PASSWORD': JSON.stringify(env.BESTRX_PASSWORD),
-      'process.env.BESTRX_PHARMACY_NUMBER': JSON.stringify(env.BESTRX_PHARMACY_NUMBER)
     },
     resolve: {
       alias: {